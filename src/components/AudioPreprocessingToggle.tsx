@@ -0,0 +1,42 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Wand2 } from 'lucide-react';
+import type { UseAudioPreprocessingReturn } from '@/hooks/useAudioPreprocessing';
+import { PREPROCESSING_STEP_LABELS, type PreprocessingStep } from '@/utils/audioPreprocessing';
+
+const AudioPreprocessingToggle: React.FC<UseAudioPreprocessingReturn> = ({ enabled, options, setEnabled, setStep }) => (
+  <div className="rounded-lg border bg-white/70 px-4 py-3 mb-4 space-y-3">
+    <div className="flex items-center gap-3">
+      <Switch id="audio-preprocessing" checked={enabled} onCheckedChange={setEnabled} />
+      <div>
+        <Label htmlFor="audio-preprocessing" className="flex items-center gap-1 font-medium">
+          <Wand2 className="w-4 h-4" />
+          Clean up audio before transcription
+        </Label>
+        <p className="text-xs text-muted-foreground">
+          Reduces background noise and evens out volume, which helps transcription in noisy rooms. Volume and pitch are still measured from your original recording.
+        </p>
+      </div>
+    </div>
+    {enabled && (
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pl-12">
+        {(Object.keys(PREPROCESSING_STEP_LABELS) as PreprocessingStep[]).map(step => (
+          <div key={step} className="flex items-center gap-2">
+            <Checkbox
+              id={`preprocessing-${step}`}
+              checked={options[step]}
+              onCheckedChange={checked => setStep(step, checked === true)}
+            />
+            <Label htmlFor={`preprocessing-${step}`} className="text-xs font-normal">
+              {PREPROCESSING_STEP_LABELS[step]}
+            </Label>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default AudioPreprocessingToggle;
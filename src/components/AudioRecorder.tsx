@@ -5,9 +5,14 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Tooltip, TooltipTrigger, TooltipContent } from '@/components/ui/tooltip';
 import { Input } from '@/components/ui/input';
+import RehearsalScript from './RehearsalScript';
+import Teleprompter from './Teleprompter';
+import LiveFeedback from './LiveFeedback';
+import { useLiveFeedback } from '@/hooks/useLiveFeedback';
 
 interface AudioRecorderProps {
-  onRecordingComplete: (audioBlob: Blob, duration: number) => void;
+  // targetScript is set when the recording is a rehearsal of a prepared script
+  onRecordingComplete: (audioBlob: Blob, duration: number, targetScript?: string) => void;
   isAnalyzing: boolean;
 }
 
@@ -29,6 +34,10 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
   const [showSettings, setShowSettings] = useState(false);
   const [speechTopic, setSpeechTopic] = useState('');
   const [focusArea, setFocusArea] = useState('Overall Performance');
+  const [rehearsalMode, setRehearsalMode] = useState(false);
+  const [targetScript, setTargetScript] = useState('');
+  // The microphone stream while recording, shared with the teleprompter
+  const [liveStream, setLiveStream] = useState<MediaStream | null>(null);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -39,6 +48,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
   const playProgressRef = useRef<NodeJS.Timeout>();
   const recordingChunksRef = useRef<Blob[]>([]);
   const currentRecordingTimeRef = useRef<number>(0);
+  const liveFeedback = useLiveFeedback({ isRecording, isPaused, analyserRef, stream: liveStream });
 
   // Detect mobile device
   useEffect(() => {
@@ -156,6 +166,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
       console.log('Microphone access granted');
       
       streamRef.current = stream;
+      setLiveStream(stream);
       
       // Set up audio analysis (only if supported)
       try {
@@ -185,7 +196,9 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
       
       mediaRecorder.onstop = () => {
         console.log('MediaRecorder stopped, chunks:', recordingChunksRef.current.length);
-        const blob = new Blob(recordingChunksRef.current, { type: mimeType || 'audio/wav' });
+        // Label the blob with what the browser actually recorded; left untyped, it's decoded by content downstream
+        const recordedType = mediaRecorder.mimeType || mimeType || recordingChunksRef.current[0]?.type || '';
+        const blob = new Blob(recordingChunksRef.current, { type: recordedType });
         setAudioBlob(blob);
         const url = URL.createObjectURL(blob);
         setAudioUrl(url);
@@ -342,6 +355,7 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
       if (streamRef.current) {
         streamRef.current.getTracks().forEach(track => track.stop());
       }
+      setLiveStream(null);
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
@@ -411,12 +425,15 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
     console.log('🔍 Duration:', duration);
     if (audioBlob) {
       console.log('🔍 Calling onRecordingComplete with blob size:', audioBlob.size);
-      onRecordingComplete(audioBlob, duration);
+      const rehearsalScript = rehearsalMode ? targetScript.trim() : '';
+      onRecordingComplete(audioBlob, duration, rehearsalScript || undefined);
     } else {
       console.error('❌ No audio blob available for analysis');
     }
   };
 
+  const showTeleprompter = rehearsalMode && targetScript.trim().length > 0;
+
   const formatTime = (seconds: number) => {
     // Handle invalid values
     if (!isFinite(seconds) || isNaN(seconds) || seconds < 0) {
@@ -436,10 +453,20 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
         <p className="text-neutral-600 text-sm">Click the record button when you're ready to begin. Speak clearly and naturally.</p>
       </div>
 
-      {/* Recording Interface */}
+      {/* Recording Interface, with the teleprompter beside it when rehearsing a script */}
+      <div className={showTeleprompter ? 'grid gap-4 lg:grid-cols-2 items-start' : undefined}>
       <Card className="bg-white rounded-lg shadow-xl border border-neutral-200 p-0">
         <CardContent className="p-4">
           <div className="flex flex-col items-center">
+            {/* Rehearsal mode - compare the delivery to a prepared script */}
+            <RehearsalScript
+              enabled={rehearsalMode}
+              onEnabledChange={setRehearsalMode}
+              script={targetScript}
+              onScriptChange={setTargetScript}
+              disabled={isRecording || isAnalyzing}
+            />
+
             {/* Mic Icon - large, centered above status/timer */}
             <div className="flex justify-center mt-6 mb-2 relative">
               {isRecording && (
@@ -474,6 +501,9 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
               <div className="text-xs text-neutral-500">Duration</div>
             </div>
 
+            {/* Live coaching while recording */}
+            {isRecording && <LiveFeedback feedback={liveFeedback} />}
+
             {/* Waveform Animation */}
             <div className="flex items-end justify-center gap-0.5 h-6 mb-4">
               {audioLevels.slice(-32).map((level, i) => (
@@ -636,6 +666,8 @@ const AudioRecorder: React.FC<AudioRecorderProps> = ({ onRecordingComplete, isAn
           </div>
         </CardContent>
       </Card>
+      {showTeleprompter && <Teleprompter script={targetScript} stream={liveStream} />}
+      </div>
     </div>
   );
 };
@@ -3,6 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Upload, File, X, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { ACCEPTED_AUDIO_TYPES, baseMimeType } from '@/utils/audioFormat';
 
 interface AudioUploadProps {
   onFileSelect: (file: File) => void;
@@ -15,20 +16,10 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, isProcessing })
   const [dragActive, setDragActive] = useState(false);
   const { toast } = useToast();
 
-  const acceptedFormats = [
-    'audio/webm',
-    'audio/mp3', 
-    'audio/mpeg',
-    'audio/wav', 
-    'audio/mp4',
-    'audio/m4a',
-    'audio/ogg'
-  ];
-
   const maxFileSize = 50 * 1024 * 1024; // 50MB
 
   const validateFile = (file: File): boolean => {
-    if (!acceptedFormats.includes(file.type)) {
+    if (!ACCEPTED_AUDIO_TYPES.includes(baseMimeType(file.type))) {
       toast({
         title: "Invalid file format",
         description: "Please upload an audio file (MP3, WAV, WebM, M4A, OGG)",
@@ -146,7 +137,7 @@ const AudioUpload: React.FC<AudioUploadProps> = ({ onFileSelect, isProcessing })
               <input
                 ref={fileInputRef}
                 type="file"
-                accept={acceptedFormats.join(',')}
+                accept={ACCEPTED_AUDIO_TYPES.join(',')}
                 onChange={handleFileInput}
                 className="hidden"
               />
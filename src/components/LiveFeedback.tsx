@@ -0,0 +1,77 @@
+import React from 'react';
+import { Gauge, MessageCircleWarning, Volume1, Volume2, Activity, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLocalAI } from '@/hooks/useLocalAI';
+import type { LiveFeedback as LiveFeedbackState } from '@/hooks/useLiveFeedback';
+import { RUSHING_WPM, DRAGGING_WPM } from '@/utils/paceTimeline';
+
+interface LiveFeedbackProps {
+  feedback: LiveFeedbackState;
+}
+
+const paceLabel = (wpm: number | null) => {
+  if (wpm === null) return { text: 'Listening...', className: 'text-neutral-500' };
+  if (wpm > RUSHING_WPM) return { text: 'Slow down', className: 'text-red-600' };
+  if (wpm < DRAGGING_WPM) return { text: 'Pick up the pace', className: 'text-amber-600' };
+  return { text: 'Good pace', className: 'text-green-600' };
+};
+
+// Coaching shown during recording so the speaker can correct themselves mid-speech
+const LiveFeedback: React.FC<LiveFeedbackProps> = ({ feedback }) => {
+  const { models, loadModel } = useLocalAI();
+  const speechModel = models.find(model => model.type === 'speech-to-text' && model.active);
+  const pace = paceLabel(feedback.wpm);
+  const warnings = [
+    feedback.volumeWarning === 'quiet' && { icon: Volume1, text: 'Speak up - you are hard to hear' },
+    feedback.volumeWarning === 'loud' && { icon: Volume2, text: 'Too loud - move back from the mic' },
+    feedback.monotone && { icon: Activity, text: 'Vary your delivery - it sounds flat' },
+  ].filter(Boolean) as Array<{ icon: typeof Volume1; text: string }>;
+
+  return (
+    <div className="w-full mb-4 space-y-2" aria-live="polite">
+      {feedback.transcribing ? (
+        <div className="grid grid-cols-2 gap-2 text-center">
+          <div className="rounded-lg border bg-muted/40 p-2">
+            <div className="flex items-center justify-center gap-1 text-xs text-neutral-500">
+              <Gauge className="w-3 h-3" /> Pace
+            </div>
+            <div className="text-xl font-bold text-black">{feedback.wpm ?? '--'} <span className="text-xs font-normal">WPM</span></div>
+            <div className={`text-xs ${pace.className}`}>{pace.text}</div>
+          </div>
+          <div className="rounded-lg border bg-muted/40 p-2">
+            <div className="flex items-center justify-center gap-1 text-xs text-neutral-500">
+              <MessageCircleWarning className="w-3 h-3" /> Filler words
+            </div>
+            <div className="text-xl font-bold text-black">{feedback.fillerCount}</div>
+            <div className="text-xs text-neutral-500 truncate">
+              {feedback.recentFillers.length > 0 ? `"${feedback.recentFillers.join('", "')}"` : 'None yet'}
+            </div>
+          </div>
+        </div>
+      ) : (
+        <div className="flex items-center justify-center gap-2 text-xs text-neutral-500 text-center">
+          <span>Load the on-device speech model for live pace and filler word feedback.</span>
+          {speechModel && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => loadModel(speechModel.id)}
+              disabled={speechModel.status === 'loading'}
+            >
+              <Download className="w-3 h-3 mr-1" />
+              {speechModel.status === 'loading' ? 'Loading...' : 'Load model'}
+            </Button>
+          )}
+        </div>
+      )}
+      {warnings.map(({ icon: Icon, text }) => (
+        <div key={text} className="flex items-center justify-center gap-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-1.5 text-sm text-amber-900">
+          <Icon className="w-4 h-4" /> {text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LiveFeedback;
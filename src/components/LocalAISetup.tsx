@@ -1,19 +1,37 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Brain, Loader2, Check, AlertCircle, RefreshCw } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Brain, Loader2, Check, AlertCircle, RefreshCw, Download, Trash2, HardDrive } from 'lucide-react';
 import { useLocalAI } from '@/hooks/useLocalAI';
+import { getLocalModel, LocalModelTask } from '@/services/localModelCatalog';
+
+const TASKS: Array<{ task: LocalModelTask; title: string }> = [
+  { task: 'speech-to-text', title: 'Speech-to-Text' },
+  { task: 'text-generation', title: 'Text Generation' },
+];
 
 export const LocalAISetup: React.FC = () => {
   const {
     models,
     isInitializing,
-    loadAllModels,
+    loadActiveModels,
     loadModel,
-    getModelStatus,
+    setActiveModel,
+    evictModel,
+    cachedSizes,
+    storageEstimate,
+    refreshStorage,
+    downloadProgress,
+    cancelLoad,
   } = useLocalAI();
 
+  useEffect(() => {
+    refreshStorage();
+  }, [refreshStorage]);
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'loaded': return <Check className="w-4 h-4" />;
@@ -32,17 +50,26 @@ export const LocalAISetup: React.FC = () => {
     }
   };
 
-  const getStatusText = (status: string) => {
+  const getStatusText = (status: string, cached: boolean) => {
     switch (status) {
       case 'loaded': return 'Ready';
       case 'loading': return 'Loading...';
       case 'error': return 'Failed';
-      default: return 'Not Loaded';
+      default: return cached ? 'Downloaded' : 'Not Downloaded';
     }
   };
 
-  const allModelsLoaded = models.every(model => model.status === 'loaded');
-  const hasModels = models.length > 0;
+  const formatFileSize = (bytes: number) => {
+    if (bytes === 0) return '0 Bytes';
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  const activeModels = models.filter(model => model.active);
+  const allModelsLoaded = activeModels.every(model => model.status === 'loaded');
+  const modelsOnDisk = Object.values(cachedSizes).reduce((total, size) => total + size, 0);
 
   return (
     <Card className="border-0 shadow-[var(--shadow-soft)] backdrop-blur-md bg-[var(--glass-bg)]">
@@ -53,106 +80,153 @@ export const LocalAISetup: React.FC = () => {
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {!hasModels ? (
-          <div className="text-center space-y-4">
-            <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
-              <p className="text-sm text-blue-800 mb-2">
-                <strong>Local AI Features:</strong>
-              </p>
-              <ul className="text-sm text-blue-700 space-y-1">
-                <li>• <strong>Speech-to-Text:</strong> Convert audio recordings to text using Whisper AI</li>
-                <li>• <strong>Text Generation:</strong> Generate text using GPT-2</li>
-                <li>• <strong>100% Private:</strong> All processing happens in your browser</li>
-              </ul>
-            </div>
-            
-            <p className="text-sm text-muted-foreground">
-              Click below to download and initialize the AI models. This may take a few minutes on first use.
-            </p>
-            
-            <Button
-              onClick={loadAllModels}
-              disabled={isInitializing}
-              className="flex items-center space-x-2"
-              size="lg"
-            >
-              {isInitializing ? (
-                <Loader2 className="w-4 h-4 animate-spin" />
-              ) : (
-                <Brain className="w-4 h-4" />
-              )}
-              <span>{isInitializing ? 'Initializing...' : 'Initialize AI Models'}</span>
-            </Button>
-          </div>
-        ) : (
-          <div className="space-y-4">
-            {/* Model Status List */}
-            <div className="space-y-3">
-              {models.map((model) => (
-                <div
-                  key={model.id}
-                  className="flex items-center justify-between p-3 border rounded-lg bg-background/50"
-                >
-                  <div className="flex items-center space-x-3">
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(model.status)}
-                      <span className="font-medium">{model.name}</span>
-                    </div>
-                    <Badge className={getStatusColor(model.status)}>
-                      {getStatusText(model.status)}
-                    </Badge>
-                  </div>
-                  
-                  {model.status === 'error' && (
-                    <Button
-                      onClick={() => loadModel(model.id)}
-                      size="sm"
-                      variant="outline"
-                      className="flex items-center space-x-1"
+        <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+          <ul className="text-sm text-blue-700 space-y-1">
+            <li>• <strong>Speech-to-Text:</strong> Convert audio recordings to text using Whisper AI</li>
+            <li>• <strong>Text Generation:</strong> Generate feedback with a small language model</li>
+            <li>• <strong>100% Private:</strong> All processing happens in your browser</li>
+          </ul>
+        </div>
+
+        {TASKS.map(({ task, title }) => {
+          const taskModels = models.filter(model => model.type === task);
+          const activeId = taskModels.find(model => model.active)?.id;
+
+          return (
+            <div key={task} className="space-y-2">
+              <h3 className="text-sm font-semibold">{title}</h3>
+              <RadioGroup value={activeId} onValueChange={setActiveModel} className="space-y-2">
+                {taskModels.map((model) => {
+                  const definition = getLocalModel(model.id);
+                  const cachedBytes = cachedSizes[model.id];
+                  const cached = cachedBytes !== undefined;
+
+                  return (
+                    <div
+                      key={model.id}
+                      className={`p-3 border rounded-lg space-y-2 ${model.active ? 'border-primary bg-primary/5' : 'bg-background/50'}`}
                     >
-                      <RefreshCw className="w-3 h-3" />
-                      <span>Retry</span>
-                    </Button>
-                  )}
-                </div>
-              ))}
+                      <div className="flex items-start justify-between gap-3">
+                        <label htmlFor={`model-${model.id}`} className="flex items-start space-x-3 cursor-pointer">
+                          <RadioGroupItem value={model.id} id={`model-${model.id}`} className="mt-1" />
+                          <div className="space-y-1">
+                            <div className="flex flex-wrap items-center gap-2">
+                              {getStatusIcon(model.status)}
+                              <span className="font-medium">{model.name}</span>
+                              <Badge className={getStatusColor(model.status)}>
+                                {getStatusText(model.status, cached)}
+                              </Badge>
+                            </div>
+                            {definition && (
+                              <>
+                                <p className="text-xs text-muted-foreground">{definition.description}</p>
+                                <div className="flex flex-wrap gap-1">
+                                  <Badge variant="outline">{definition.quantization}</Badge>
+                                  <Badge variant="outline">
+                                    {cached ? formatFileSize(cachedBytes) : `~${definition.sizeMB} MB`}
+                                  </Badge>
+                                  {task === 'speech-to-text' && (
+                                    <Badge variant="outline">{definition.englishOnly ? 'English' : 'Multilingual'}</Badge>
+                                  )}
+                                  {definition.instructionTuned && <Badge variant="outline">Instruct</Badge>}
+                                </div>
+                              </>
+                            )}
+                          </div>
+                        </label>
+
+                        <div className="flex items-center gap-1 shrink-0">
+                          {(model.status === 'not-loaded' || model.status === 'error') && (
+                            <Button
+                              onClick={() => loadModel(model.id)}
+                              size="sm"
+                              variant="outline"
+                              className="flex items-center space-x-1"
+                            >
+                              {model.status === 'error' ? <RefreshCw className="w-3 h-3" /> : <Download className="w-3 h-3" />}
+                              <span>{model.status === 'error' ? 'Retry' : cached ? 'Load' : 'Download'}</span>
+                            </Button>
+                          )}
+                          {model.status === 'loading' && (
+                            <Button onClick={() => cancelLoad(model.id)} size="sm" variant="ghost">
+                              Cancel
+                            </Button>
+                          )}
+                          {model.status !== 'loading' && (cached || model.status === 'loaded') && (
+                            <Button
+                              onClick={() => evictModel(model.id)}
+                              size="sm"
+                              variant="ghost"
+                              aria-label={`Remove ${model.name}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {model.status === 'loading' && downloadProgress[model.id] !== undefined && (
+                        <div className="flex items-center space-x-2">
+                          <Progress value={downloadProgress[model.id]} className="h-2" />
+                          <span className="text-xs text-muted-foreground tabular-nums w-10 text-right">
+                            {downloadProgress[model.id]}%
+                          </span>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </RadioGroup>
             </div>
+          );
+        })}
 
-            {/* Overall Status */}
-            <div className="border-t pt-4">
-              {allModelsLoaded ? (
-                <div className="text-center space-y-2">
-                  <div className="flex items-center justify-center space-x-2 text-green-600">
-                    <Check className="w-5 h-5" />
-                    <span className="font-medium">All Models Ready</span>
-                  </div>
-                  <p className="text-sm text-muted-foreground">
-                    Local AI features are now available for use.
-                  </p>
-                </div>
-              ) : (
-                <div className="text-center space-y-2">
-                  <Button
-                    onClick={loadAllModels}
-                    disabled={isInitializing}
-                    variant="outline"
-                    className="flex items-center space-x-2"
-                  >
-                    {isInitializing ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <Brain className="w-4 h-4" />
-                    )}
-                    <span>
-                      {isInitializing ? 'Loading Models...' : 'Load All Models'}
-                    </span>
-                  </Button>
-                </div>
-              )}
+        {/* Disk Usage */}
+        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+          <HardDrive className="w-4 h-4" />
+          <span>
+            Models on this device: {formatFileSize(modelsOnDisk)}
+            {storageEstimate?.usage !== undefined && storageEstimate.quota !== undefined && (
+              <> · Site storage {formatFileSize(storageEstimate.usage)} of {formatFileSize(storageEstimate.quota)}</>
+            )}
+          </span>
+        </div>
+
+        {/* Overall Status */}
+        <div className="border-t pt-4">
+          {allModelsLoaded ? (
+            <div className="text-center space-y-2">
+              <div className="flex items-center justify-center space-x-2 text-green-600">
+                <Check className="w-5 h-5" />
+                <span className="font-medium">Selected Models Ready</span>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Local AI features are now available for use.
+              </p>
+            </div>
+          ) : (
+            <div className="text-center space-y-2">
+              <p className="text-sm text-muted-foreground">
+                Models are downloaded once and cached in your browser. This may take a few minutes on first use.
+              </p>
+              <Button
+                onClick={loadActiveModels}
+                disabled={isInitializing}
+                variant="outline"
+                className="flex items-center space-x-2 mx-auto"
+              >
+                {isInitializing ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Brain className="w-4 h-4" />
+                )}
+                <span>
+                  {isInitializing ? 'Loading Models...' : 'Load Selected Models'}
+                </span>
+              </Button>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
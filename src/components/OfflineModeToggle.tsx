@@ -0,0 +1,75 @@
+import React from 'react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { CloudOff, RefreshCw, Download } from 'lucide-react';
+import type { UseOfflineModeReturn } from '@/hooks/useOfflineMode';
+import { useLocalAI } from '@/hooks/useLocalAI';
+
+type OfflineModeToggleProps = Pick<
+  UseOfflineModeReturn,
+  'offlineMode' | 'setOfflineMode' | 'isOnline' | 'pendingCount' | 'isSyncing' | 'syncNow'
+>;
+
+const OfflineModeToggle: React.FC<OfflineModeToggleProps> = ({
+  offlineMode,
+  setOfflineMode,
+  isOnline,
+  pendingCount,
+  isSyncing,
+  syncNow,
+}) => {
+  const { models, loadModel } = useLocalAI();
+  // The selected Whisper model is the one offline mode uses
+  const offlineModel = models.find(model => model.type === 'speech-to-text' && model.active);
+  const modelStatus = offlineModel?.status;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-white/70 px-4 py-3 mb-4">
+      <div className="flex items-center gap-3">
+        <Switch id="offline-mode" checked={offlineMode} onCheckedChange={setOfflineMode} />
+        <div>
+          <Label htmlFor="offline-mode" className="flex items-center gap-1 font-medium">
+            <CloudOff className="w-4 h-4" />
+            Offline mode
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {!isOnline
+              ? 'No connection – recordings are analysed on this device and synced later.'
+              : offlineMode
+                ? 'Analysing on this device with no network calls. Syncing is paused.'
+                : 'Prepare the on-device model once while online to analyse without a connection.'}
+          </p>
+        </div>
+      </div>
+      {offlineModel && isOnline && !offlineMode && modelStatus !== 'loaded' && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => loadModel(offlineModel.id)}
+          disabled={modelStatus === 'loading'}
+        >
+          <Download className="w-4 h-4 mr-1" />
+          {modelStatus === 'loading' ? 'Preparing model...' : 'Prepare offline model'}
+        </Button>
+      )}
+      {pendingCount > 0 && (
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{pendingCount} waiting to sync</Badge>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={syncNow}
+            disabled={isSyncing || !isOnline || offlineMode}
+          >
+            <RefreshCw className={`w-4 h-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+            Sync now
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineModeToggle;
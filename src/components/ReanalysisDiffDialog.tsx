@@ -0,0 +1,87 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import type { ReanalysisResult, ScoreChange } from '@/utils/reanalysis';
+
+export interface ReanalysisEntry {
+  title: string;
+  result?: ReanalysisResult;
+  error?: string;
+}
+
+interface ReanalysisDiffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: ReanalysisEntry[];
+}
+
+// Fewer filler words is an improvement, so that row's colours are flipped
+const LOWER_IS_BETTER = ['Filler words'];
+
+const formatDelta = (change: ScoreChange) => {
+  if (change.delta === null) return <span className="text-muted-foreground">—</span>;
+  if (change.delta === 0) return <span className="text-muted-foreground">±0</span>;
+  const improved = LOWER_IS_BETTER.includes(change.label) ? change.delta < 0 : change.delta > 0;
+  // Pace has no "better" direction on its own
+  const color = change.label.startsWith('Pace') ? 'text-blue-600' : improved ? 'text-green-600' : 'text-red-600';
+  return <span className={`font-semibold ${color}`}>{change.delta > 0 ? `+${change.delta}` : change.delta}</span>;
+};
+
+const ReanalysisDiffDialog: React.FC<ReanalysisDiffDialogProps> = ({ open, onOpenChange, entries }) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-analysis results</DialogTitle>
+          <DialogDescription>
+            Previous results are kept with each recording; scores below compare the last analysis to the new one.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-6">
+          {entries.map((entry, index) => (
+            <div key={index} className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{entry.title}</span>
+                {entry.result && (
+                  <Badge variant="outline" className="text-xs">
+                    {entry.result.source === 'stored_transcript' ? 'Stored transcript' : 'Re-transcribed'}
+                  </Badge>
+                )}
+              </div>
+              {entry.error ? (
+                <p className="text-sm text-red-600">{entry.error}</p>
+              ) : entry.result && (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground">
+                      <th className="font-medium py-1">Metric</th>
+                      <th className="font-medium py-1">Before</th>
+                      <th className="font-medium py-1">After</th>
+                      <th className="font-medium py-1">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {entry.result.changes.map((change) => (
+                      <tr key={change.label} className="border-t">
+                        <td className="py-1">{change.label}</td>
+                        <td className="py-1">{change.before ?? '—'}</td>
+                        <td className="py-1">{change.after ?? '—'}</td>
+                        <td className="py-1">{formatDelta(change)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReanalysisDiffDialog;
@@ -14,6 +14,8 @@ interface RecordingData {
   pace: number;
   fillerWords: number;
   primaryTone: string;
+  // Analysed offline and not synced yet: there is no saved audio to play or re-evaluate
+  queued?: boolean;
 }
 
 interface RecordingHistoryProps {
@@ -80,12 +82,14 @@ const RecordingHistory: React.FC<RecordingHistoryProps> = ({
                 <span>{formatDate(recording.date)}</span>
                 <Clock className="w-4 h-4 ml-2" />
                 <span>{formatDuration(recording.duration)}</span>
+                {recording.queued && <Badge variant="secondary" className="ml-2">Waiting to sync</Badge>}
               </div>
               <div className="flex items-center space-x-2">
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => onPlay(recording.id)}
+                  disabled={recording.queued}
                   className="h-8 w-8 p-0"
                 >
                   <Play className="w-4 h-4" />
@@ -151,7 +155,7 @@ const RecordingHistory: React.FC<RecordingHistoryProps> = ({
                 variant="outline"
                 size="sm"
                 onClick={() => onReEvaluate(recording.id)}
-                disabled={isReEvaluating === recording.id}
+                disabled={recording.queued || isReEvaluating === recording.id}
                 className="flex-1"
               >
                 <RefreshCw className={`w-4 h-4 mr-2 ${isReEvaluating === recording.id ? 'animate-spin' : ''}`} />
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Star, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { getTargetScript } from '@/utils/speechScripts';
+
+interface RehearsalScriptProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  script: string;
+  onScriptChange: (script: string) => void;
+  // The script cannot change mid-recording
+  disabled?: boolean;
+}
+
+// Rehearsal mode: the recording is compared against this script after analysis
+const RehearsalScript: React.FC<RehearsalScriptProps> = ({ enabled, onEnabledChange, script, onScriptChange, disabled }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loadingTarget, setLoadingTarget] = useState(false);
+
+  const loadTargetScript = async () => {
+    if (!user) return;
+    setLoadingTarget(true);
+    try {
+      const target = await getTargetScript(user.id);
+      if (target) {
+        onScriptChange(target.content);
+      } else {
+        toast({
+          title: "No Target Script",
+          description: "Star a saved script on the dashboard to rehearse against it.",
+        });
+      }
+    } catch (error) {
+      console.error('❌ Failed to load target script:', error);
+      toast({
+        title: "Load Failed",
+        description: "Unable to load your target script.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoadingTarget(false);
+    }
+  };
+
+  return (
+    <div className="w-full space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Switch id="rehearsal-mode" checked={enabled} onCheckedChange={onEnabledChange} disabled={disabled} />
+          <Label htmlFor="rehearsal-mode" className="text-sm">Rehearse against a script</Label>
+        </div>
+        {enabled && user && (
+          <Button variant="outline" size="sm" onClick={loadTargetScript} disabled={disabled || loadingTarget}>
+            {loadingTarget ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Star className="w-4 h-4 mr-1" />}
+            Use target script
+          </Button>
+        )}
+      </div>
+      {enabled && (
+        <Textarea
+          placeholder="Paste the script you are practising..."
+          value={script}
+          onChange={e => onScriptChange(e.target.value)}
+          readOnly={disabled}
+          className="min-h-[100px] text-sm"
+        />
+      )}
+    </div>
+  );
+};
+
+export default RehearsalScript;
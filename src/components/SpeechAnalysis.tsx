@@ -110,7 +110,12 @@ const SpeechAnalysis: React.FC<SpeechAnalysisProps> = ({ analysis, duration }) =
 
       {/* Content Evaluation */}
       {analysis.ai_suggestions?.contentEvaluation && (
-        <ContentEvaluation evaluation={analysis.ai_suggestions.contentEvaluation} />
+        <ContentEvaluation
+          evaluation={analysis.ai_suggestions.contentEvaluation}
+          source={analysis.ai_suggestions.evaluationSource}
+          model={analysis.ai_suggestions.evaluationModel}
+          fallbackReason={analysis.ai_suggestions.fallbackReason}
+        />
       )}
 
       {/* Priority Areas */}
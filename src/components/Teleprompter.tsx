@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Download, Maximize2, Minimize2, RotateCcw } from 'lucide-react';
+import { useLocalAI } from '@/hooks/useLocalAI';
+import { LiveTranscriber } from '@/services/liveTranscriber';
+import { locateSpokenPosition, scriptKeys } from '@/utils/scriptFollower';
+
+interface TeleprompterProps {
+  script: string;
+  // The recorder's microphone stream while recording; the prompter listens to the same one
+  stream: MediaStream | null;
+}
+
+interface TeleprompterSettings {
+  fontSize: number;
+  mirrored: boolean;
+}
+
+const SETTINGS_KEY = 'milao-teleprompter';
+const DEFAULT_SETTINGS: TeleprompterSettings = { fontSize: 28, mirrored: false };
+
+const loadSettings = (): TeleprompterSettings => {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Scrolls the script to wherever the speaker is, using the on-device Whisper model to hear
+// the last few seconds rather than a fixed scroll speed
+const Teleprompter: React.FC<TeleprompterProps> = ({ script, stream }) => {
+  const { models, loadModel } = useLocalAI();
+  const speechModel = models.find(model => model.type === 'speech-to-text' && model.active);
+  const modelReady = speechModel?.status === 'loaded';
+
+  const [settings, setSettings] = useState<TeleprompterSettings>(loadSettings);
+  // Inline by default; full screen covers the recorder's controls, so only on request
+  const [fullScreen, setFullScreen] = useState(false);
+  // Index of the last script word spoken; -1 before the first
+  const [position, setPosition] = useState(-1);
+  const [lastHeard, setLastHeard] = useState('');
+  const positionRef = useRef(-1);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const wordRefs = useRef<Array<HTMLSpanElement | null>>([]);
+
+  const keys = useMemo(() => scriptKeys(script), [script]);
+  // Paragraphs of words, each word tagged with its index in `keys`
+  const paragraphs = useMemo(() => {
+    let index = 0;
+    return script.split(/\n+/).filter(line => line.trim()).map(line =>
+      line.split(/\s+/).filter(Boolean).map(text => ({ text, index: index++ }))
+    );
+  }, [script]);
+
+  useEffect(() => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  // Start again from the top for a new script
+  useEffect(() => {
+    positionRef.current = -1;
+    setPosition(-1);
+  }, [script]);
+
+  // Follow the speaker while recording
+  useEffect(() => {
+    if (!stream || !modelReady) return;
+    const transcriber = new LiveTranscriber(stream, (text) => {
+      setLastHeard(text);
+      const next = locateSpokenPosition(keys, text, positionRef.current);
+      positionRef.current = next;
+      setPosition(next);
+    });
+    transcriber.start().catch(error => console.warn('Teleprompter could not listen:', error));
+    return () => transcriber.stop();
+  }, [stream, modelReady, keys]);
+
+  // Keep the screen on while the prompter is following along
+  useEffect(() => {
+    if (!stream || !('wakeLock' in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    navigator.wakeLock.request('screen').then(lock => { sentinel = lock; }).catch(() => {});
+    return () => {
+      sentinel?.release().catch(() => {});
+    };
+  }, [stream]);
+
+  // Put the current word about a third of the way down
+  useEffect(() => {
+    const container = containerRef.current;
+    const word = wordRefs.current[Math.max(0, position)];
+    if (!container || !word) return;
+    const top = word.offsetTop - container.clientHeight / 3;
+    container.scrollTo({ top: Math.max(0, top), behavior: 'smooth' });
+  }, [position, settings.fontSize, fullScreen]);
+
+  const restart = () => {
+    positionRef.current = -1;
+    setPosition(-1);
+    containerRef.current?.scrollTo({ top: 0 });
+  };
+
+  const status = !speechModel
+    ? 'No on-device speech model selected'
+    : !modelReady
+      ? 'Load the on-device speech model so the script can follow your voice'
+      : stream
+        ? lastHeard ? `Heard: "${lastHeard.slice(-60)}"` : 'Listening...'
+        : 'Start recording and the script will follow your voice';
+
+  return (
+    <div
+      className={fullScreen
+        ? 'fixed inset-0 z-[60] flex flex-col bg-black text-white'
+        : 'flex flex-col rounded-lg border bg-black text-white h-[28rem]'}
+      // Stay clear of the notch and home indicator in the mobile shell
+      style={fullScreen ? {
+        paddingTop: 'env(safe-area-inset-top)',
+        paddingBottom: 'env(safe-area-inset-bottom)',
+        paddingLeft: 'env(safe-area-inset-left)',
+        paddingRight: 'env(safe-area-inset-right)',
+      } : undefined}
+    >
+      <div className="flex flex-wrap items-center gap-3 px-3 py-2 border-b border-white/20 text-xs">
+        <div className="flex items-center gap-2 min-w-[8rem] flex-1">
+          <span>A</span>
+          <Slider
+            value={[settings.fontSize]}
+            min={16}
+            max={64}
+            step={2}
+            onValueChange={([fontSize]) => setSettings(prev => ({ ...prev, fontSize }))}
+            aria-label="Font size"
+          />
+          <span className="text-base">A</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="teleprompter-mirror"
+            checked={settings.mirrored}
+            onCheckedChange={mirrored => setSettings(prev => ({ ...prev, mirrored }))}
+          />
+          <Label htmlFor="teleprompter-mirror" className="text-xs text-white">Mirror</Label>
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7 text-white hover:bg-white/10 hover:text-white" onClick={restart} aria-label="Back to the start">
+          <RotateCcw className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-white hover:bg-white/10 hover:text-white"
+          onClick={() => setFullScreen(value => !value)}
+          aria-label={fullScreen ? 'Exit full screen' : 'Full screen'}
+        >
+          {fullScreen ? <Minimize2 className="w-4 h-4" /> : <Maximize2 className="w-4 h-4" />}
+        </Button>
+      </div>
+
+      <div
+        ref={containerRef}
+        className="relative flex-1 overflow-y-auto px-6 py-24"
+        style={{ transform: settings.mirrored ? 'scaleX(-1)' : undefined, WebkitOverflowScrolling: 'touch' }}
+      >
+        {paragraphs.map((words, paragraphIndex) => (
+          <p key={paragraphIndex} className="mb-6 leading-snug font-semibold" style={{ fontSize: settings.fontSize }}>
+            {words.map(word => (
+              <React.Fragment key={word.index}>
+                <span
+                  ref={element => { wordRefs.current[word.index] = element; }}
+                  className={word.index <= position
+                    ? 'text-white/40'
+                    : word.index === position + 1 ? 'text-yellow-300' : 'text-white'}
+                >
+                  {word.text}
+                </span>{' '}
+              </React.Fragment>
+            ))}
+          </p>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-white/20 text-xs text-white/70">
+        <span className="truncate">{status}</span>
+        {speechModel && !modelReady && (
+          <Button
+            variant="secondary"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => loadModel(speechModel.id)}
+            disabled={speechModel.status === 'loading'}
+          >
+            <Download className="w-3 h-3 mr-1" />
+            {speechModel.status === 'loading' ? 'Loading...' : 'Load model'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Teleprompter;
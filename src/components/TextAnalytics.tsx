@@ -9,27 +9,8 @@ import { FileText, Brain, Mic, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { LocalAISetup } from './LocalAISetup';
 import { VoiceToText } from './VoiceToText';
-
-interface TextAnalysisResult {
-  summary: string;
-  keyPoints: string[];
-  structure: {
-    type: string;
-    organization: string;
-    clarity: number;
-  };
-  sentiment: {
-    overall: string;
-    confidence: number;
-    emotions: string[];
-  };
-  topics: string[];
-  readability: {
-    level: string;
-    score: number;
-  };
-  suggestions: string[];
-}
+import { invokeLlmFunction, getLlmErrorMessage } from '@/utils/llmFunctions';
+import type { TextAnalysisResult } from '@/utils/llmSchemas';
 
 interface TextAnalyticsProps {
   audioBlob?: Blob;
@@ -52,25 +33,6 @@ const TextAnalytics: React.FC<TextAnalyticsProps> = ({ audioBlob, onTranscriptGe
     }
   }, [initialTranscript]);
 
-  // Helper functions for analysis
-  const extractKeyPoints = (text: string): string[] => {
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 20);
-    return sentences.slice(0, 3).map(s => s.trim());
-  };
-
-  const determineSentiment = (text: string): string => {
-    const positiveWords = ['good', 'great', 'excellent', 'well', 'positive', 'happy'];
-    const negativeWords = ['bad', 'terrible', 'awful', 'negative', 'sad', 'difficult'];
-    
-    const words = text.toLowerCase().split(/\s+/);
-    const positiveCount = words.filter(word => positiveWords.some(pos => word.includes(pos))).length;
-    const negativeCount = words.filter(word => negativeWords.some(neg => word.includes(neg))).length;
-    
-    if (positiveCount > negativeCount) return 'positive';
-    if (negativeCount > positiveCount) return 'negative';
-    return 'neutral';
-  };
-
   const analyzeText = async () => {
     if (!text.trim()) {
       toast({
@@ -83,30 +45,7 @@ const TextAnalytics: React.FC<TextAnalyticsProps> = ({ audioBlob, onTranscriptGe
 
     setIsAnalyzing(true);
     try {
-      const analysisResult: TextAnalysisResult = {
-        summary: text.length > 100 ? text.substring(0, 100) + '...' : text,
-        keyPoints: extractKeyPoints(text),
-        structure: {
-          type: 'conversational',
-          organization: "Clear structure with good flow",
-          clarity: Math.floor(Math.random() * 3) + 7
-        },
-        sentiment: {
-          overall: determineSentiment(text),
-          confidence: 0.8,
-          emotions: ['neutral']
-        },
-        topics: ['general discussion'],
-        readability: {
-          level: "high school",
-          score: Math.floor(Math.random() * 3) + 7
-        },
-        suggestions: [
-          "Consider adding more specific examples",
-          "Structure could be improved with clearer transitions",
-          "Overall content is well-articulated"
-        ]
-      };
+      const { analysis: analysisResult } = await invokeLlmFunction<{ analysis: TextAnalysisResult }>('analyze-text', { text });
 
       setAnalysis(analysisResult);
       toast({
@@ -114,9 +53,10 @@ const TextAnalytics: React.FC<TextAnalyticsProps> = ({ audioBlob, onTranscriptGe
         description: "Text analysis completed successfully.",
       });
     } catch (error) {
+      console.error('Text analysis failed:', error);
       toast({
         title: "Analysis Failed",
-        description: "Failed to analyze text. Please try again.",
+        description: getLlmErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -2,14 +2,17 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Target, Users, Award, TrendingUp, CheckCircle, AlertCircle } from 'lucide-react';
-import type { ContentEvaluation as ContentEvaluationType } from '@/types/speechAnalysis';
+import { Target, Users, Award, TrendingUp, CheckCircle, AlertCircle, Cpu, Info } from 'lucide-react';
+import type { ContentEvaluation as ContentEvaluationType, ContentEvaluationSource } from '@/types/speechAnalysis';
 
 interface ContentEvaluationProps {
   evaluation: ContentEvaluationType;
+  source?: ContentEvaluationSource;
+  model?: string;
+  fallbackReason?: string;
 }
 
-const ContentEvaluation: React.FC<ContentEvaluationProps> = ({ evaluation }) => {
+const ContentEvaluation: React.FC<ContentEvaluationProps> = ({ evaluation, source, model, fallbackReason }) => {
   const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600';
     if (score >= 60) return 'text-yellow-600';
@@ -18,6 +21,26 @@ const ContentEvaluation: React.FC<ContentEvaluationProps> = ({ evaluation }) =>
 
   return (
     <div className="space-y-4">
+      {/* Evaluation Source */}
+      {source === 'local-llm' && (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Cpu className="w-4 h-4" />
+          <span>Content evaluated on this device by {model || 'a local AI model'}</span>
+        </div>
+      )}
+      {source === 'heuristic' && (
+        <div className="flex items-start gap-2 p-3 rounded-lg border border-amber-200 bg-amber-50 text-sm text-amber-800">
+          <Info className="w-4 h-4 mt-0.5 shrink-0" />
+          <div>
+            <Badge variant="outline" className="mb-1 border-amber-300 text-amber-800">Heuristic estimate</Badge>
+            <p>
+              These scores come from keyword and structure rules, not an AI model, so treat them as a rough guide.
+              {fallbackReason && ` (${fallbackReason})`}
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Main Point Analysis */}
       <Card className="border-l-4 border-l-blue-500">
         <CardHeader>
@@ -2,8 +2,10 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Clock, Volume2, Zap, Heart } from 'lucide-react';
+import { Clock, Volume2, Zap, Heart, PauseCircle, AudioWaveform } from 'lucide-react';
 import type { AnalysisResult } from '@/types/speechAnalysis';
+import VocalVarietyView from './VocalVarietyView';
+import PausesView from './PausesView';
 
 interface DetailedMetricsProps {
   analysis: AnalysisResult;
@@ -129,6 +131,36 @@ const DetailedMetrics: React.FC<DetailedMetricsProps> = ({ analysis, toneAssessm
           </div>
         </CardContent>
       </Card>
+
+      {/* Vocal Variety */}
+      {analysis.prosody && (
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-lg">
+              <AudioWaveform className="w-5 h-5" />
+              <span>Vocal Variety</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <VocalVarietyView prosody={analysis.prosody} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Pauses & Rhythm */}
+      {analysis.pauses && (
+        <Card className="md:col-span-2">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2 text-lg">
+              <PauseCircle className="w-5 h-5" />
+              <span>Pauses & Rhythm</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PausesView pauses={analysis.pauses} />
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,114 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import type { LoudnessAnalysis } from '@/utils/loudness';
+
+interface LoudnessTimelineChartProps {
+  loudness: LoudnessAnalysis;
+}
+
+const chartConfig: ChartConfig = {
+  lufs: {
+    label: 'Loudness (LUFS)',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+const eventColors = {
+  quiet: '#3b82f6',
+  trailing: '#f59e0b',
+  clipping: '#ef4444',
+};
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Momentary loudness over the recording, with quiet stretches, trailing-off sentence ends and clipping marked
+const LoudnessTimelineChart: React.FC<LoudnessTimelineChartProps> = ({ loudness }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant={loudness.too_quiet_overall ? 'destructive' : 'outline'}>
+          {loudness.integrated_lufs} LUFS overall
+        </Badge>
+        <Badge variant="outline">{loudness.loudness_range_lu} LU dynamic range</Badge>
+        <Badge variant="outline">Peak {loudness.peak_dbfs} dBFS</Badge>
+        {loudness.clipping_count > 0 && (
+          <Badge variant="destructive">Clipped {loudness.clipping_count}×</Badge>
+        )}
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+        <LineChart data={loudness.timeline} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatSeconds}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis tickLine={false} axisLine={false} width={40} domain={['auto', 0]} />
+          {loudness.quiet_segments.map((segment, index) => (
+            <ReferenceArea
+              key={`quiet-${index}`}
+              x1={segment.start}
+              x2={segment.end}
+              fill={eventColors.quiet}
+              fillOpacity={0.12}
+              ifOverflow="hidden"
+            />
+          ))}
+          {loudness.trailing_off.map((occurrence, index) => (
+            <ReferenceArea
+              key={`trailing-${index}`}
+              x1={occurrence.start}
+              x2={occurrence.end}
+              fill={eventColors.trailing}
+              fillOpacity={0.3}
+              ifOverflow="hidden"
+            />
+          ))}
+          {loudness.clipping.map((event, index) => (
+            <ReferenceLine key={`clip-${index}`} x={event.start} stroke={eventColors.clipping} />
+          ))}
+          <ReferenceLine y={loudness.integrated_lufs} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => formatSeconds(Number(payload?.[0]?.payload?.time ?? 0))} />}
+          />
+          <Line dataKey="lufs" type="monotone" stroke="var(--color-lufs)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+
+      <ul className="space-y-1 text-sm text-muted-foreground">
+        {loudness.quiet_segments.map((segment, index) => (
+          <li key={`quiet-${index}`} className="flex items-center gap-2">
+            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: eventColors.quiet }} />
+            Too quiet from {formatSeconds(segment.start)} to {formatSeconds(segment.end)} ({segment.lufs} LUFS)
+          </li>
+        ))}
+        {loudness.trailing_off.map((occurrence, index) => (
+          <li key={`trailing-${index}`} className="flex items-center gap-2">
+            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: eventColors.trailing }} />
+            Trailed off on "{occurrence.text}" at {formatSeconds(occurrence.start)} ({occurrence.drop_lu} LU softer)
+          </li>
+        ))}
+        {loudness.clipping.map((event, index) => (
+          <li key={`clip-${index}`} className="flex items-center gap-2">
+            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: eventColors.clipping }} />
+            Clipping at {formatSeconds(event.start)}
+          </li>
+        ))}
+      </ul>
+
+      <p className="text-sm text-muted-foreground">{loudness.assessment}</p>
+    </div>
+  );
+};
+
+export default LoudnessTimelineChart;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { RUSHING_WPM, DRAGGING_WPM, type PaceTimeline } from '@/utils/paceTimeline';
+
+interface PaceTimelineChartProps {
+  timeline: PaceTimeline;
+}
+
+const chartConfig: ChartConfig = {
+  wpm: {
+    label: 'Words per minute',
+    color: 'hsl(var(--primary))',
+  },
+};
+
+const segmentColors = {
+  rushing: '#f97316',
+  dragging: '#3b82f6',
+};
+
+const trendLabels: Record<PaceTimeline['trend'], string> = {
+  speeding_up: 'Speeds up towards the end',
+  slowing_down: 'Slows down towards the end',
+  steady: 'Steady pace throughout',
+};
+
+const formatSeconds = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const PaceTimelineChart: React.FC<PaceTimelineChartProps> = ({ timeline }) => {
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Badge variant="outline">{timeline.min_wpm}–{timeline.max_wpm} WPM</Badge>
+        <Badge variant={timeline.trend === 'steady' ? 'secondary' : 'destructive'}>
+          {trendLabels[timeline.trend]}
+        </Badge>
+      </div>
+
+      <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+        <LineChart data={timeline.points} margin={{ top: 8, right: 16, left: 0, bottom: 0 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatSeconds}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          {timeline.segments.map((segment, index) => (
+            <ReferenceArea
+              key={index}
+              x1={segment.start}
+              x2={segment.end}
+              fill={segmentColors[segment.status]}
+              fillOpacity={0.12}
+              ifOverflow="hidden"
+            />
+          ))}
+          <ReferenceLine y={RUSHING_WPM} stroke={segmentColors.rushing} strokeDasharray="4 4" />
+          <ReferenceLine y={DRAGGING_WPM} stroke={segmentColors.dragging} strokeDasharray="4 4" />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => formatSeconds(Number(payload?.[0]?.payload?.time ?? 0))} />}
+          />
+          <Line dataKey="wpm" type="monotone" stroke="var(--color-wpm)" strokeWidth={2} dot={false} />
+        </LineChart>
+      </ChartContainer>
+
+      {timeline.segments.length > 0 ? (
+        <ul className="space-y-1 text-sm text-muted-foreground">
+          {timeline.segments.map((segment, index) => (
+            <li key={index} className="flex items-center gap-2">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: segmentColors[segment.status] }} />
+              {segment.status === 'rushing' ? 'Rushing' : 'Dragging'} from {formatSeconds(segment.start)} to {formatSeconds(segment.end)} ({segment.average_wpm} WPM)
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No rushed or dragging stretches – your pace stayed between {DRAGGING_WPM} and {RUSHING_WPM} WPM.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PaceTimelineChart;
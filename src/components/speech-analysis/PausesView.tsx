@@ -0,0 +1,55 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import type { PauseAnalysis } from '@/utils/pauses';
+
+interface PausesViewProps {
+  pauses: PauseAnalysis;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+// Pause frequency, longest silence and lead-in pauses before key points
+const PausesView: React.FC<PausesViewProps> = ({ pauses }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div>
+        <div className="text-2xl font-semibold text-blue-600">
+          {pauses.pauses_per_minute}
+        </div>
+        <div className="text-xs text-muted-foreground">Pauses per minute</div>
+      </div>
+      <div>
+        <div className="text-2xl font-semibold text-orange-600">
+          {formatSeconds(pauses.longest_silence_ms)}
+        </div>
+        <div className="text-xs text-muted-foreground">Longest silence</div>
+      </div>
+      <div>
+        <div className="text-2xl font-semibold text-purple-600">
+          {formatSeconds(pauses.average_pause_ms)}
+        </div>
+        <div className="text-xs text-muted-foreground">Average pause</div>
+      </div>
+      <div>
+        <div className="text-2xl font-semibold text-green-600">
+          {pauses.pauses_before_key_points}/{pauses.key_point_count}
+        </div>
+        <div className="text-xs text-muted-foreground">Key points with a lead-in pause</div>
+      </div>
+    </div>
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="outline" className="text-xs">
+        {pauses.natural_count} natural
+      </Badge>
+      <Badge variant="secondary" className="text-xs">
+        {pauses.hesitation_count} hesitations
+      </Badge>
+      <Badge variant={pauses.long_silence_count > 0 ? 'destructive' : 'outline'} className="text-xs">
+        {pauses.long_silence_count} long silences
+      </Badge>
+    </div>
+    <p className="text-sm text-muted-foreground">{pauses.assessment}</p>
+  </div>
+);
+
+export default PausesView;
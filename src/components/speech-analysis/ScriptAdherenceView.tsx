@@ -0,0 +1,90 @@
+import React from 'react';
+import { Progress } from '@/components/ui/progress';
+import type { AdherenceSegment, ScriptAdherence } from '@/utils/scriptAdherence';
+
+interface ScriptAdherenceViewProps {
+  adherence: ScriptAdherence;
+}
+
+const formatTimestamp = (ms?: number) => {
+  if (typeof ms !== 'number') return '';
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const renderSegment = (segment: AdherenceSegment) => {
+  const at = formatTimestamp(segment.start);
+  switch (segment.type) {
+    case 'matched':
+      return segment.script_text;
+    case 'skipped':
+      return (
+        <span className="bg-red-100 text-red-800 rounded px-0.5" title={at ? `Skipped around ${at}` : 'Skipped'}>
+          {segment.script_text}
+        </span>
+      );
+    case 'substituted':
+      return (
+        <span className="bg-amber-100 text-amber-900 rounded px-0.5" title={`You said: "${segment.spoken_text}"${at ? ` at ${at}` : ''}`}>
+          {segment.script_text}
+        </span>
+      );
+    case 'added':
+      return (
+        <span className="bg-green-100 text-green-800 rounded px-0.5 text-xs italic" title={at ? `Added at ${at}` : 'Added'}>
+          + {segment.spoken_text}
+        </span>
+      );
+  }
+};
+
+// The target script with skipped and reworded passages highlighted
+const ScriptAdherenceView: React.FC<ScriptAdherenceViewProps> = ({ adherence }) => {
+  const stats = [
+    { label: 'Skipped', value: adherence.skipped_count, words: adherence.skipped_word_count, className: 'text-red-600' },
+    { label: 'Reworded', value: adherence.substituted_count, words: adherence.substituted_word_count, className: 'text-amber-600' },
+    { label: 'Added', value: adherence.added_count, words: adherence.added_word_count, className: 'text-green-600' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-baseline justify-between mb-1">
+          <span className="text-sm font-medium">Script coverage</span>
+          <span className="text-2xl font-extrabold text-primary">{adherence.coverage}%</span>
+        </div>
+        <Progress value={adherence.coverage} className="h-2" />
+        <div className="text-xs text-muted-foreground mt-1">
+          {adherence.matched_word_count} of {adherence.script_word_count} script words delivered as written
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-white rounded-lg border p-2 text-center">
+            <div className={`text-xl font-bold ${stat.className}`}>{stat.value}</div>
+            <div className="text-xs text-muted-foreground">{stat.label} ({stat.words} words)</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-sm text-muted-foreground">{adherence.assessment}</div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span><span className="inline-block w-3 h-3 rounded bg-red-100 border border-red-300 mr-1 align-middle" />Skipped</span>
+        <span><span className="inline-block w-3 h-3 rounded bg-amber-100 border border-amber-300 mr-1 align-middle" />Reworded</span>
+        <span><span className="inline-block w-3 h-3 rounded bg-green-100 border border-green-300 mr-1 align-middle" />Added</span>
+      </div>
+
+      <div className="text-sm leading-relaxed bg-white rounded-lg p-4 border max-h-96 overflow-y-auto">
+        {adherence.segments.map((segment, index) => (
+          <React.Fragment key={index}>
+            {renderSegment(segment)}{' '}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptAdherenceView;
@@ -0,0 +1,145 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Check, X } from 'lucide-react';
+import { IMPROVEMENT_OPTIONS, type ScriptChange, type ScriptChangeCategory, type ScriptDiffSegment } from '@/utils/scriptDiff';
+
+interface ScriptDiffViewProps {
+  segments: ScriptDiffSegment[];
+  // Ids of the edits the user turned down; everything else is accepted
+  rejected: Set<number>;
+  onRejectedChange: (rejected: Set<number>) => void;
+}
+
+const CATEGORY_STYLES: Record<ScriptChangeCategory, string> = {
+  vocabulary: 'bg-blue-100 text-blue-800',
+  flow: 'bg-purple-100 text-purple-800',
+  tone: 'bg-pink-100 text-pink-800',
+  clarity: 'bg-teal-100 text-teal-800',
+  persuasion: 'bg-orange-100 text-orange-800',
+  engagement: 'bg-yellow-100 text-yellow-800',
+  custom: 'bg-gray-100 text-gray-800',
+};
+
+const categoryLabel = (category: ScriptChangeCategory) =>
+  IMPROVEMENT_OPTIONS.find(option => option.id === category)?.label ?? 'Custom request';
+
+const ScriptDiffView: React.FC<ScriptDiffViewProps> = ({ segments, rejected, onRejectedChange }) => {
+  const changes = segments.filter((segment): segment is ScriptChange => segment.type === 'change');
+  const acceptedCount = changes.length - changes.filter(change => rejected.has(change.id)).length;
+
+  const setAccepted = (id: number, accepted: boolean) => {
+    const next = new Set(rejected);
+    if (accepted) next.delete(id);
+    else next.add(id);
+    onRejectedChange(next);
+  };
+
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">The improved script matches your transcript word for word.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm text-muted-foreground">
+          {acceptedCount} of {changes.length} edits accepted - click an edit to toggle it
+        </span>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onRejectedChange(new Set())}>
+            Accept all
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => onRejectedChange(new Set(changes.map(change => change.id)))}>
+            Reject all
+          </Button>
+        </div>
+      </div>
+
+      {/* Side by side: removals on the left, the script being built on the right */}
+      <div className="grid md:grid-cols-2 gap-4">
+        <div>
+          <h4 className="text-sm font-medium mb-2">Original transcript</h4>
+          <div className="bg-muted/30 p-4 rounded-lg text-sm leading-relaxed whitespace-pre-wrap">
+            {segments.map((segment, index) => segment.type === 'equal' ? (
+              <span key={index}>{segment.text}</span>
+            ) : segment.removed && (
+              <span
+                key={index}
+                title={categoryLabel(segment.category)}
+                onClick={() => setAccepted(segment.id, rejected.has(segment.id))}
+                className={`cursor-pointer rounded px-0.5 ${
+                  rejected.has(segment.id) ? 'bg-muted' : 'bg-red-100 text-red-800 line-through'
+                }`}
+              >
+                {segment.removed}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div>
+          <h4 className="text-sm font-medium mb-2">Your script</h4>
+          <div className="bg-muted/30 p-4 rounded-lg text-sm leading-relaxed whitespace-pre-wrap">
+            {segments.map((segment, index) => {
+              if (segment.type === 'equal') return <span key={index}>{segment.text}</span>;
+              const isRejected = rejected.has(segment.id);
+              const text = isRejected ? segment.removed : segment.added;
+              return text && (
+                <span
+                  key={index}
+                  title={categoryLabel(segment.category)}
+                  onClick={() => setAccepted(segment.id, isRejected)}
+                  className={`cursor-pointer rounded px-0.5 ${
+                    isRejected ? 'bg-muted' : 'bg-green-100 text-green-800'
+                  }`}
+                >
+                  {text}
+                </span>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      {/* Edit by edit */}
+      <div className="space-y-2">
+        {changes.map(change => {
+          const isRejected = rejected.has(change.id);
+          return (
+            <div key={change.id} className="flex items-start justify-between gap-3 border rounded-lg p-3">
+              <div className="space-y-1 text-sm min-w-0">
+                <Badge variant="outline" className={`${CATEGORY_STYLES[change.category]} border-0`}>
+                  {categoryLabel(change.category)}
+                </Badge>
+                <p className="break-words">
+                  {change.removed && <span className="text-red-700 line-through">{change.removed.trim()}</span>}
+                  {change.removed && change.added && <span className="text-muted-foreground"> → </span>}
+                  {change.added && <span className="text-green-700">{change.added.trim()}</span>}
+                </p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button
+                  variant={isRejected ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => setAccepted(change.id, true)}
+                  aria-label="Accept edit"
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={isRejected ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setAccepted(change.id, false)}
+                  aria-label="Reject edit"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptDiffView;
@@ -0,0 +1,154 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Star, Trash2, ChevronDown, ChevronUp, Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { IMPROVEMENT_OPTIONS } from '@/utils/scriptDiff';
+import { deleteSpeechScript, listSpeechScripts, setTargetScript, type SpeechScript } from '@/utils/speechScripts';
+
+interface ScriptVersionsProps {
+  // Without a recording every saved script is listed
+  recordingId?: string | null;
+  // Bump to reload after a new version is saved elsewhere
+  refreshKey?: number;
+}
+
+const optionLabel = (id: string) => IMPROVEMENT_OPTIONS.find(option => option.id === id)?.label ?? id;
+
+const ScriptVersions: React.FC<ScriptVersionsProps> = ({ recordingId, refreshKey = 0 }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [scripts, setScripts] = useState<SpeechScript[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadScripts = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      setScripts(await listSpeechScripts(user.id, recordingId));
+    } catch (error) {
+      console.error('❌ Failed to load script versions:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, recordingId]);
+
+  useEffect(() => {
+    loadScripts();
+  }, [loadScripts, refreshKey]);
+
+  const toggleTarget = async (script: SpeechScript) => {
+    if (!user) return;
+    try {
+      await setTargetScript(script.is_target ? null : script.id);
+      setScripts(prev => prev.map(item => ({ ...item, is_target: !script.is_target && item.id === script.id })));
+      toast({
+        title: script.is_target ? "Target Cleared" : "Target Script Set",
+        description: script.is_target
+          ? "You no longer have a target script."
+          : "Your next rehearsals will be compared against this script."
+      });
+    } catch (error) {
+      console.error('❌ Failed to update target script:', error);
+      toast({
+        title: "Update Failed",
+        description: "Unable to change your target script.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeScript = async (script: SpeechScript) => {
+    try {
+      await deleteSpeechScript(script.id);
+      setScripts(prev => prev.filter(item => item.id !== script.id));
+    } catch (error) {
+      console.error('❌ Failed to delete script version:', error);
+      toast({
+        title: "Delete Failed",
+        description: "Unable to delete this version.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (!user) return null;
+
+  if (loading && scripts.length === 0) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading saved scripts...
+      </div>
+    );
+  }
+
+  if (scripts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No saved scripts yet. Use "Improvise the speech" to generate one.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {scripts.map((script, index) => {
+        const isExpanded = expandedId === script.id;
+        return (
+          <li key={script.id} className={`border rounded-lg p-3 bg-white ${script.is_target ? 'border-yellow-400' : ''}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">Version {scripts.length - index}</span>
+                  {script.is_target && <Badge className="bg-yellow-100 text-yellow-800 border-0">Target script</Badge>}
+                  <span className="text-xs text-muted-foreground">{new Date(script.created_at).toLocaleString()}</span>
+                </div>
+                <div className="flex flex-wrap gap-1">
+                  {script.improvement_options.map(option => (
+                    <Badge key={option} variant="outline" className="text-xs">{optionLabel(option)}</Badge>
+                  ))}
+                  {script.custom_request && (
+                    <span className="text-xs text-muted-foreground italic">"{script.custom_request}"</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => toggleTarget(script)}
+                  aria-label={script.is_target ? 'Clear target script' : 'Set as target script'}
+                >
+                  <Star className={`h-4 w-4 ${script.is_target ? 'fill-yellow-400 text-yellow-500' : ''}`} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => removeScript(script)} aria-label="Delete version">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setExpandedId(isExpanded ? null : script.id)}
+                  aria-label={isExpanded ? 'Hide script' : 'Show script'}
+                >
+                  {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </Button>
+              </div>
+            </div>
+            {isExpanded ? (
+              <pre className="mt-3 whitespace-pre-wrap text-sm leading-relaxed font-sans bg-muted/30 p-3 rounded-lg">
+                {script.content}
+              </pre>
+            ) : (
+              <p className="mt-2 text-sm text-muted-foreground line-clamp-2">{script.content}</p>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default ScriptVersions;
@@ -1,37 +1,46 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Sparkles, Loader2, Copy, Check } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Sparkles, Loader2, Copy, Check, X, Save } from 'lucide-react';
+import { streamLlmFunction, getLlmErrorMessage, isAbortError } from '@/utils/llmFunctions';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { saveSpeechScript, updateSpeechScriptContent, type SpeechScript } from '@/utils/speechScripts';
+import { IMPROVEMENT_OPTIONS, buildScript, diffScripts, type ImprovementCategory } from '@/utils/scriptDiff';
+import type { ReportedScriptChange } from '@/utils/llmSchemas';
+import ScriptDiffView from './ScriptDiffView';
 
 interface SpeechImprovementProps {
   transcript: string;
   summary: string;
+  // The speech_recordings row the transcript came from, linked to saved versions
+  recordingId?: string | null;
+  onScriptSaved?: (script: SpeechScript) => void;
 }
 
-const improvementOptions = [
-  { id: 'vocabulary', label: 'Vocabulary', description: 'Enhance word choice and variety' },
-  { id: 'flow', label: 'Flow', description: 'Improve transitions and structure' },
-  { id: 'tone', label: 'Tone', description: 'Adjust emotional delivery' },
-  { id: 'clarity', label: 'Clarity', description: 'Make message clearer' },
-  { id: 'persuasion', label: 'Persuasion', description: 'Increase convincing power' },
-  { id: 'engagement', label: 'Engagement', description: 'Make more captivating' }
-];
-
-const SpeechImprovement: React.FC<SpeechImprovementProps> = ({ transcript, summary }) => {
+const SpeechImprovement: React.FC<SpeechImprovementProps> = ({ transcript, summary, recordingId, onScriptSaved }) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+  const [selectedOptions, setSelectedOptions] = useState<ImprovementCategory[]>([]);
   const [customRequest, setCustomRequest] = useState('');
   const [improvedScript, setImprovedScript] = useState('');
   const [isGenerating, setIsGenerating] = useState(false);
   const [copied, setCopied] = useState(false);
+  // The options behind the current script, used to tag each edit
+  const [requestedCategories, setRequestedCategories] = useState<ImprovementCategory[]>([]);
+  // Each edit as the model reported it, with the option behind it
+  const [reportedChanges, setReportedChanges] = useState<ReportedScriptChange[]>([]);
+  const [rejectedEdits, setRejectedEdits] = useState<Set<number>>(new Set());
+  // The stored version of the current script, once it has been saved
+  const [savedScript, setSavedScript] = useState<SpeechScript | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const { user } = useAuth();
   const { toast } = useToast();
 
-  const toggleOption = (optionId: string) => {
+  const toggleOption = (optionId: ImprovementCategory) => {
     setSelectedOptions(prev => 
       prev.includes(optionId) 
         ? prev.filter(id => id !== optionId)
@@ -49,10 +58,17 @@ const SpeechImprovement: React.FC<SpeechImprovementProps> = ({ transcript, summa
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setImprovedScript('');
+    setRequestedCategories(selectedOptions);
+    setReportedChanges([]);
+    setRejectedEdits(new Set());
+    setSavedScript(null);
     setIsGenerating(true);
     try {
       const selectedLabels = selectedOptions.map(id => 
-        improvementOptions.find(opt => opt.id === id)?.label
+        IMPROVEMENT_OPTIONS.find(opt => opt.id === id)?.label
       ).filter(Boolean);
 
       const improvements = [...selectedLabels];
@@ -77,47 +93,110 @@ Instructions:
 Improved Script:
       `.trim();
 
-      const { data, error } = await supabase.functions.invoke('improve-speech', {
-        body: { 
-          prompt: prompt
-        }
+      const data = await streamLlmFunction<{ suggestions: string; changes?: ReportedScriptChange[] }>('improve-speech', { prompt }, {
+        onToken: (text) => setImprovedScript(prev => prev + text),
+        signal: abortController.signal,
       });
 
-      if (error) {
-        console.error('Function invoke error:', error);
-        throw error;
-      }
-
-      if (!data || !data.suggestions) {
-        throw new Error('No response data received');
-      }
-
       setImprovedScript(data.suggestions);
+      setReportedChanges(data.changes || []);
       
       toast({
         title: "Script Improved!",
         description: "Your speech has been enhanced based on your preferences."
       });
 
+      // Keep every generated version so it can be browsed after the dialog closes
+      if (user) {
+        try {
+          const script = await saveSpeechScript(user.id, {
+            recordingId,
+            content: data.suggestions,
+            improvementOptions: selectedOptions,
+            customRequest,
+          });
+          setSavedScript(script);
+          onScriptSaved?.(script);
+        } catch (saveError) {
+          console.error('❌ Failed to save script version:', saveError);
+          toast({
+            title: "Version not saved",
+            description: "Your improved script is ready, but it could not be saved to your account.",
+            variant: "destructive"
+          });
+        }
+      }
+
     } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever arrived before the user cancelled
+        return;
+      }
       console.error('Error generating improved script:', error);
+      setImprovedScript('');
       toast({
         title: "Improvement Failed",
-        description: "Unable to generate improved script. Please try again.",
+        description: getLlmErrorMessage(error),
         variant: "destructive"
       });
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    // Closing the dialog stops a script that is still streaming
+    if (!open) cancelGeneration();
+    setIsOpen(open);
+  };
+
+  // Diff once the script is complete; while streaming the raw text is shown instead
+  const diffSegments = useMemo(
+    () => (isGenerating || !improvedScript ? [] : diffScripts(transcript, improvedScript, requestedCategories, reportedChanges)),
+    [isGenerating, improvedScript, transcript, requestedCategories, reportedChanges]
+  );
+  const finalScript = useMemo(
+    () => (diffSegments.length ? buildScript(diffSegments, rejectedEdits) : improvedScript),
+    [diffSegments, rejectedEdits, improvedScript]
+  );
+
+  // Store the accepted/rejected edits on the saved version
+  const saveEdits = async () => {
+    if (!savedScript) return;
+    setIsSaving(true);
+    try {
+      await updateSpeechScriptContent(savedScript.id, finalScript);
+      const script = { ...savedScript, content: finalScript };
+      setSavedScript(script);
+      onScriptSaved?.(script);
+      toast({
+        title: "Script Saved",
+        description: "Your edits were saved to this version."
+      });
+    } catch (error) {
+      console.error('❌ Failed to save script edits:', error);
+      toast({
+        title: "Save Failed",
+        description: "Unable to save your edits. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const copyToClipboard = async () => {
     try {
-      await navigator.clipboard.writeText(improvedScript);
+      await navigator.clipboard.writeText(finalScript);
       setCopied(true);
       toast({
         title: "Copied!",
-        description: "Improved script copied to clipboard."
+        description: "Your script with the accepted edits was copied to clipboard."
       });
       setTimeout(() => setCopied(false), 2000);
     } catch (error) {
@@ -130,7 +209,7 @@ Improved Script:
   };
 
   return (
-    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
       <DialogTrigger asChild>
         <Button variant="outline" className="flex items-center gap-2">
           <Sparkles className="h-4 w-4" />
@@ -153,7 +232,7 @@ Improved Script:
           <div>
             <h3 className="text-lg font-semibold mb-3">What would you like to improve?</h3>
             <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-              {improvementOptions.map((option) => (
+              {IMPROVEMENT_OPTIONS.map((option) => (
                 <Card 
                   key={option.id}
                   className={`cursor-pointer transition-all ${
@@ -189,49 +268,80 @@ Improved Script:
           </div>
 
           {/* Generate Button */}
-          <Button 
-            onClick={generateImprovedScript}
-            disabled={isGenerating}
-            className="w-full"
-          >
-            {isGenerating ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                Generating Improved Script...
-              </>
-            ) : (
-              <>
-                <Sparkles className="h-4 w-4 mr-2" />
-                Generate Improved Script
-              </>
+          <div className="flex gap-2">
+            <Button 
+              onClick={generateImprovedScript}
+              disabled={isGenerating}
+              className="flex-1"
+            >
+              {isGenerating ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Generating Improved Script...
+                </>
+              ) : (
+                <>
+                  <Sparkles className="h-4 w-4 mr-2" />
+                  Generate Improved Script
+                </>
+              )}
+            </Button>
+            {isGenerating && (
+              <Button variant="outline" onClick={cancelGeneration}>
+                <X className="h-4 w-4 mr-2" />
+                Cancel
+              </Button>
             )}
-          </Button>
+          </div>
 
           {/* Improved Script */}
           {improvedScript && (
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
                 <CardTitle className="text-lg">Improved Script</CardTitle>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={copyToClipboard}
-                  className="flex items-center gap-2"
-                >
-                  {copied ? (
-                    <Check className="h-4 w-4" />
-                  ) : (
-                    <Copy className="h-4 w-4" />
+                <div className="flex gap-2">
+                  {savedScript && savedScript.content !== finalScript && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={saveEdits}
+                      disabled={isSaving}
+                      className="flex items-center gap-2"
+                    >
+                      {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                      Save edits
+                    </Button>
                   )}
-                  {copied ? 'Copied!' : 'Copy'}
-                </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={copyToClipboard}
+                    disabled={isGenerating}
+                    className="flex items-center gap-2"
+                  >
+                    {copied ? (
+                      <Check className="h-4 w-4" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                    {copied ? 'Copied!' : 'Copy'}
+                  </Button>
+                </div>
               </CardHeader>
               <CardContent>
-                <div className="bg-muted/30 p-4 rounded-lg">
-                  <pre className="whitespace-pre-wrap text-sm leading-relaxed font-sans">
-                    {improvedScript}
-                  </pre>
-                </div>
+                {isGenerating ? (
+                  <div className="bg-muted/30 p-4 rounded-lg">
+                    <pre className="whitespace-pre-wrap text-sm leading-relaxed font-sans">
+                      {improvedScript}
+                    </pre>
+                  </div>
+                ) : (
+                  <ScriptDiffView
+                    segments={diffSegments}
+                    rejected={rejectedEdits}
+                    onRejectedChange={setRejectedEdits}
+                  />
+                )}
               </CardContent>
             </Card>
           )}
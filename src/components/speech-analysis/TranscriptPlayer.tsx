@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Play, Pause } from 'lucide-react';
+import { detectFillerWords, type TimedWord } from '@/utils/fillerWords';
+import { analyzePauses, HESITATION_MS } from '@/utils/pauses';
+
+interface TranscriptPlayerProps {
+  words: TimedWord[];
+  // Object URL or signed URL of the recording; the transcript is still browsable without it
+  audioSrc?: string | null;
+}
+
+// Words recognised below this confidence are flagged for the coach
+const LOW_CONFIDENCE = 0.6;
+
+const formatTime = (seconds: number) => {
+  if (!seconds || isNaN(seconds)) return '0:00';
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Index of the word being spoken at `ms`, or -1 between words
+const findActiveWord = (words: TimedWord[], ms: number): number => {
+  let low = 0;
+  let high = words.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const word = words[mid];
+    if (ms < (word.start ?? 0)) high = mid - 1;
+    else if (ms >= (word.end ?? 0)) low = mid + 1;
+    else return mid;
+  }
+  return -1;
+};
+
+const TranscriptPlayer: React.FC<TranscriptPlayerProps> = ({ words, audioSrc }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const animationRef = useRef<number>();
+  const activeWordRef = useRef<HTMLSpanElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [audioDuration, setAudioDuration] = useState(0);
+
+  const fillerIndices = useMemo(() => {
+    const indices = new Set<number>();
+    detectFillerWords(words).forEach(occurrence => {
+      occurrence.word.split(' ').forEach((_, offset) => indices.add(occurrence.index + offset));
+    });
+    return indices;
+  }, [words]);
+
+  // Long pauses keyed by the index of the word they follow
+  const longPauses = useMemo(() => {
+    const pauses = new Map<number, number>();
+    analyzePauses(words)?.pauses
+      .filter(pause => pause.duration >= HESITATION_MS)
+      .forEach(pause => pauses.set(pause.afterWordIndex, pause.duration));
+    return pauses;
+  }, [words]);
+
+  const activeIndex = findActiveWord(words, currentTime * 1000);
+
+  // Poll the playhead every frame while playing; `timeupdate` is too coarse for word highlighting
+  useEffect(() => {
+    if (!isPlaying) return;
+    const tick = () => {
+      if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
+      animationRef.current = requestAnimationFrame(tick);
+    };
+    animationRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+    };
+  }, [isPlaying]);
+
+  useEffect(() => {
+    activeWordRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const togglePlayback = async () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      try {
+        await audio.play();
+      } catch (error) {
+        console.error('❌ Could not start playback:', error);
+      }
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekToWord = (word: TimedWord) => {
+    const audio = audioRef.current;
+    if (!audio || typeof word.start !== 'number') return;
+    audio.currentTime = word.start / 1000;
+    setCurrentTime(audio.currentTime);
+    if (audio.paused) togglePlayback();
+  };
+
+  const getWordClassName = (word: TimedWord, index: number) => {
+    const classes = ['rounded px-0.5 transition-colors'];
+    if (audioSrc) classes.push('cursor-pointer hover:bg-primary/10');
+    if (fillerIndices.has(index)) classes.push('bg-orange-100 text-orange-800');
+    if (typeof word.confidence === 'number' && word.confidence < LOW_CONFIDENCE) {
+      classes.push('underline decoration-dotted decoration-red-500 underline-offset-4');
+    }
+    if (index === activeIndex) classes.push('bg-primary text-primary-foreground');
+    return classes.join(' ');
+  };
+
+  return (
+    <div className="space-y-4">
+      {audioSrc && (
+        <div className="flex items-center gap-3">
+          <audio
+            ref={audioRef}
+            src={audioSrc}
+            preload="metadata"
+            onPlay={() => setIsPlaying(true)}
+            onPause={() => setIsPlaying(false)}
+            onEnded={() => setIsPlaying(false)}
+            onLoadedMetadata={(e) => setAudioDuration(e.currentTarget.duration)}
+            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          />
+          <Button onClick={togglePlayback} variant="outline" size="sm" className="flex items-center space-x-2">
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            <span>{isPlaying ? 'Pause' : 'Play'}</span>
+          </Button>
+          <span className="text-sm text-muted-foreground tabular-nums">
+            {formatTime(currentTime)} / {formatTime(audioDuration)}
+          </span>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-3 rounded bg-orange-100 border border-orange-300" />Filler word</span>
+        <span className="flex items-center gap-1"><span className="underline decoration-dotted decoration-red-500 underline-offset-4">word</span>Low confidence</span>
+        <span className="flex items-center gap-1"><span className="inline-block px-1 rounded bg-red-100 text-red-700">⏸</span>Long pause</span>
+      </div>
+
+      <div className="text-base leading-8 text-gray-900 bg-white rounded-lg p-4 border max-h-96 overflow-y-auto shadow-inner">
+        {words.map((word, index) => {
+          const pauseMs = longPauses.get(index);
+          return (
+            <React.Fragment key={index}>
+              <span
+                ref={index === activeIndex ? activeWordRef : undefined}
+                className={getWordClassName(word, index)}
+                onClick={() => seekToWord(word)}
+                title={typeof word.confidence === 'number' ? `${Math.round(word.confidence * 100)}% confidence` : undefined}
+              >
+                {word.text}
+              </span>
+              {pauseMs && (
+                <span className="mx-1 px-1 rounded bg-red-100 text-red-700 text-xs align-middle">
+                  ⏸ {(pauseMs / 1000).toFixed(1)}s
+                </span>
+              )}{' '}
+            </React.Fragment>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptPlayer;
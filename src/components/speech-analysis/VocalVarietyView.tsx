@@ -0,0 +1,75 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import type { ProsodyAnalysis } from '@/utils/prosody';
+
+interface VocalVarietyViewProps {
+  prosody: ProsodyAnalysis;
+}
+
+const getScoreColor = (score: number) => {
+  if (score >= 80) return 'text-green-600';
+  if (score >= 60) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+const formatTimestamp = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+// Vocal variety score with the pitch statistics, monotone stretches and uptalk behind it
+const VocalVarietyView: React.FC<VocalVarietyViewProps> = ({ prosody }) => (
+  <div className="space-y-4">
+    <div className="flex items-center gap-4">
+      <div className={`text-4xl font-bold ${getScoreColor(prosody.vocal_variety_score)}`}>
+        {prosody.vocal_variety_score}
+      </div>
+      <Progress value={prosody.vocal_variety_score} className="h-3 flex-1" />
+    </div>
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+      <div>
+        <div className="text-2xl font-semibold text-blue-600">
+          {prosody.pitch_range_semitones}
+        </div>
+        <div className="text-xs text-muted-foreground">Pitch range (semitones)</div>
+      </div>
+      <div>
+        <div className="text-2xl font-semibold text-purple-600">
+          ±{prosody.pitch_variability_semitones}
+        </div>
+        <div className="text-xs text-muted-foreground">Pitch variability (semitones)</div>
+      </div>
+      <div>
+        <div className="text-2xl font-semibold text-orange-600">
+          {Math.round(prosody.monotone_ratio * 100)}%
+        </div>
+        <div className="text-xs text-muted-foreground">Time in monotone stretches</div>
+      </div>
+      <div>
+        <div className="text-2xl font-semibold text-green-600">
+          {prosody.uptalk_count}/{prosody.sentence_end_count}
+        </div>
+        <div className="text-xs text-muted-foreground">Statements ending in uptalk</div>
+      </div>
+    </div>
+    <div className="flex flex-wrap gap-2">
+      <Badge variant="outline" className="text-xs">
+        Median pitch {prosody.median_pitch_hz} Hz
+      </Badge>
+      {prosody.monotone_stretches.slice(0, 3).map(stretch => (
+        <Badge key={stretch.start} variant="secondary" className="text-xs">
+          Monotone {formatTimestamp(stretch.start)}–{formatTimestamp(stretch.end)}
+        </Badge>
+      ))}
+      {prosody.uptalk.slice(0, 3).map(occurrence => (
+        <Badge key={occurrence.start} variant="secondary" className="text-xs">
+          Rising "{occurrence.text}" at {formatTimestamp(occurrence.start)}
+        </Badge>
+      ))}
+    </div>
+    <p className="text-sm text-muted-foreground">{prosody.assessment}</p>
+  </div>
+);
+
+export default VocalVarietyView;
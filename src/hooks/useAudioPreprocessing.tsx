@@ -0,0 +1,31 @@
+import { useState, useCallback } from 'react';
+import {
+  loadPreprocessingSettings,
+  savePreprocessingSettings,
+  type PreprocessingSettings,
+  type PreprocessingStep,
+} from '@/utils/audioPreprocessing';
+
+export interface UseAudioPreprocessingReturn extends PreprocessingSettings {
+  setEnabled: (enabled: boolean) => void;
+  setStep: (step: PreprocessingStep, enabled: boolean) => void;
+}
+
+// Kept in localStorage like offline mode: it is a per-device choice about this microphone
+export const useAudioPreprocessing = (): UseAudioPreprocessingReturn => {
+  const [settings, setSettings] = useState<PreprocessingSettings>(loadPreprocessingSettings);
+
+  const update = useCallback((change: (prev: PreprocessingSettings) => PreprocessingSettings) => {
+    setSettings(prev => {
+      const next = change(prev);
+      savePreprocessingSettings(next);
+      return next;
+    });
+  }, []);
+
+  const setEnabled = useCallback((enabled: boolean) => update(prev => ({ ...prev, enabled })), [update]);
+  const setStep = useCallback((step: PreprocessingStep, enabled: boolean) =>
+    update(prev => ({ ...prev, options: { ...prev.options, [step]: enabled } })), [update]);
+
+  return { ...settings, setEnabled, setStep };
+};
@@ -0,0 +1,182 @@
+import { useState, useEffect, useRef, MutableRefObject } from 'react';
+import { aiService, WHISPER_SAMPLE_RATE } from '@/services/aiService';
+import { tapStream } from '@/services/liveTranscriber';
+import { useLocalAI } from '@/hooks/useLocalAI';
+import { detectFillerWordsInText } from '@/utils/fillerWords';
+
+export type VolumeWarning = 'quiet' | 'loud' | null;
+
+export interface LiveFeedback {
+  // Words per minute over the last few transcribed segments, null until there is enough speech
+  wpm: number | null;
+  fillerCount: number;
+  // Most recent filler words heard, newest last
+  recentFillers: string[];
+  volumeWarning: VolumeWarning;
+  monotone: boolean;
+  // False when the on-device speech model isn't loaded, so only the level warnings work
+  transcribing: boolean;
+}
+
+interface UseLiveFeedbackOptions {
+  isRecording: boolean;
+  isPaused: boolean;
+  analyserRef: MutableRefObject<AnalyserNode | null>;
+  // The recorder's microphone stream; speech is transcribed straight from it
+  stream: MediaStream | null;
+}
+
+const LEVEL_INTERVAL_MS = 100;
+const TRANSCRIBE_INTERVAL_MS = 4000;
+// Shorter tails wait for the next pass so Whisper gets enough context
+const MIN_SEGMENT_SECONDS = 2;
+// WPM is averaged over this many recent segments
+const WPM_SEGMENTS = 3;
+
+// RMS thresholds on the analyser's time-domain signal
+const SILENCE_RMS = 0.01;
+const QUIET_RMS = 0.04;
+const LOUD_RMS = 0.5;
+// Seconds of levels behind each warning
+const VOLUME_WINDOW = 3;
+const MONOTONE_WINDOW = 8;
+// Spread of voiced loudness, in dB, below which delivery sounds flat
+const MONOTONE_SPREAD_DB = 4;
+
+const EMPTY_FEEDBACK: LiveFeedback = {
+  wpm: null,
+  fillerCount: 0,
+  recentFillers: [],
+  volumeWarning: null,
+  monotone: false,
+  transcribing: false,
+};
+
+const rmsOf = (analyser: AnalyserNode) => {
+  const data = new Uint8Array(analyser.fftSize);
+  analyser.getByteTimeDomainData(data);
+  let sum = 0;
+  for (const value of data) {
+    const sample = (value - 128) / 128;
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / data.length);
+};
+
+const volumeWarningFor = (levels: number[]): VolumeWarning => {
+  const voiced = levels.filter(level => level > SILENCE_RMS);
+  if (voiced.length < levels.length / 3) return null;
+  if (voiced.filter(level => level > LOUD_RMS).length > voiced.length / 5) return 'loud';
+  if (Math.max(...voiced) < QUIET_RMS) return 'quiet';
+  return null;
+};
+
+const isMonotone = (levels: number[]) => {
+  const decibels = levels.filter(level => level > SILENCE_RMS).map(level => 20 * Math.log10(level));
+  if (decibels.length < levels.length / 2) return false;
+  const mean = decibels.reduce((sum, value) => sum + value, 0) / decibels.length;
+  const variance = decibels.reduce((sum, value) => sum + (value - mean) ** 2, 0) / decibels.length;
+  return Math.sqrt(variance) < MONOTONE_SPREAD_DB;
+};
+
+// Coaching signals while recording: loudness from the recorder's AnalyserNode, pace and filler
+// words from transcribing each new stretch of the stream with the on-device Whisper model
+export const useLiveFeedback = ({ isRecording, isPaused, analyserRef, stream }: UseLiveFeedbackOptions): LiveFeedback => {
+  const { models } = useLocalAI();
+  const modelReady = models.some(model => model.type === 'speech-to-text' && model.active && model.status === 'loaded');
+  const [feedback, setFeedback] = useState<LiveFeedback>(EMPTY_FEEDBACK);
+
+  // Start every recording from scratch
+  useEffect(() => {
+    if (isRecording) setFeedback(EMPTY_FEEDBACK);
+  }, [isRecording]);
+
+  useEffect(() => {
+    if (!isRecording || isPaused) return;
+    const levels: number[] = [];
+    const intervalId = setInterval(() => {
+      const analyser = analyserRef.current;
+      if (!analyser) return;
+      levels.push(rmsOf(analyser));
+      const keep = (MONOTONE_WINDOW * 1000) / LEVEL_INTERVAL_MS;
+      if (levels.length > keep) levels.splice(0, levels.length - keep);
+      const recent = levels.slice(-(VOLUME_WINDOW * 1000) / LEVEL_INTERVAL_MS);
+      const volumeWarning = volumeWarningFor(recent);
+      const monotone = levels.length === keep && isMonotone(levels);
+      setFeedback(prev => prev.volumeWarning === volumeWarning && prev.monotone === monotone
+        ? prev
+        : { ...prev, volumeWarning, monotone });
+    }, LEVEL_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isRecording, isPaused, analyserRef]);
+
+  // The recent segments behind the WPM figure; they survive pauses but not a new recording
+  const segmentsRef = useRef<Array<{ words: number; seconds: number }>>([]);
+  useEffect(() => {
+    if (!isRecording) segmentsRef.current = [];
+  }, [isRecording]);
+
+  useEffect(() => {
+    setFeedback(prev => ({ ...prev, transcribing: isRecording && modelReady }));
+    if (!isRecording || isPaused || !modelReady || !stream) return;
+
+    const abortController = new AbortController();
+    // 16kHz audio heard since the last segment was taken, so each pass costs the same
+    // however long the recording has run
+    let pending: Float32Array[] = [];
+    let pendingLength = 0;
+    let busy = false;
+    let untap: (() => void) | null = null;
+
+    const transcribeNewAudio = async () => {
+      if (busy || pendingLength < MIN_SEGMENT_SECONDS * WHISPER_SAMPLE_RATE) return;
+      const segment = new Float32Array(pendingLength);
+      let offset = 0;
+      pending.forEach(samples => {
+        segment.set(samples, offset);
+        offset += samples.length;
+      });
+      pending = [];
+      pendingLength = 0;
+      busy = true;
+      try {
+        const { text } = await aiService.transcribeLive(segment, { signal: abortController.signal });
+        if (abortController.signal.aborted) return;
+        const fillers = detectFillerWordsInText(text).map(occurrence => occurrence.word);
+        const words = text.split(/\s+/).filter(Boolean).length;
+        segmentsRef.current = [...segmentsRef.current, { words, seconds: segment.length / WHISPER_SAMPLE_RATE }].slice(-WPM_SEGMENTS);
+        const totalWords = segmentsRef.current.reduce((sum, s) => sum + s.words, 0);
+        const totalSeconds = segmentsRef.current.reduce((sum, s) => sum + s.seconds, 0);
+        setFeedback(prev => ({
+          ...prev,
+          wpm: totalWords > 0 ? Math.round(totalWords / (totalSeconds / 60)) : prev.wpm,
+          fillerCount: prev.fillerCount + fillers.length,
+          recentFillers: [...prev.recentFillers, ...fillers].slice(-3),
+        }));
+      } catch (error) {
+        if (!abortController.signal.aborted) console.warn('Live feedback transcription failed:', error);
+      } finally {
+        busy = false;
+      }
+    };
+
+    tapStream(stream, samples => {
+      pending.push(samples);
+      pendingLength += samples.length;
+    })
+      .then(stop => {
+        if (abortController.signal.aborted) stop();
+        else untap = stop;
+      })
+      .catch(error => console.warn('Live feedback could not listen:', error));
+
+    const intervalId = setInterval(transcribeNewAudio, TRANSCRIBE_INTERVAL_MS);
+    return () => {
+      clearInterval(intervalId);
+      abortController.abort();
+      untap?.();
+    };
+  }, [isRecording, isPaused, modelReady, stream]);
+
+  return feedback;
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { aiService, AIModel } from '@/services/aiService';
+import { aiService, isCancelledError, AIModel, LocalAIProgress } from '@/services/aiService';
 import { useToast } from '@/hooks/use-toast';
 
 export interface UseLocalAIReturn {
@@ -8,21 +8,75 @@ export interface UseLocalAIReturn {
   transcribeAudio: (audioBlob: Blob) => Promise<string>;
   generateText: (prompt: string) => Promise<string>;
   loadModel: (modelId: string) => Promise<boolean>;
-  loadAllModels: () => Promise<void>;
+  // Loads the selected model for each task
+  loadActiveModels: () => Promise<void>;
+  setActiveModel: (modelId: string) => void;
+  // Deletes a model's downloaded files and frees it from memory
+  evictModel: (modelId: string) => Promise<void>;
+  // Bytes in the browser cache per model id; models that were never downloaded are missing
+  cachedSizes: Record<string, number>;
+  storageEstimate: StorageEstimate | null;
+  refreshStorage: () => Promise<void>;
   isModelLoaded: (modelId: string) => boolean;
   getModelStatus: (modelId: string) => AIModel['status'];
+  // Latest download / decode / transcription progress from the worker, null when idle
+  progress: LocalAIProgress | null;
+  // Download percentage per model id, for models fetched this session
+  downloadProgress: Record<string, number>;
+  // Cancel one model's in-flight load, leaving other models' requests running
+  cancelLoad: (modelId: string) => void;
 }
 
 export const useLocalAI = (): UseLocalAIReturn => {
   const [models, setModels] = useState<AIModel[]>([]);
   const [isInitializing, setIsInitializing] = useState(false);
+  const [progress, setProgress] = useState<LocalAIProgress | null>(null);
+  const [downloadProgress, setDownloadProgress] = useState<Record<string, number>>({});
+  const [cachedSizes, setCachedSizes] = useState<Record<string, number>>({});
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
   const { toast } = useToast();
 
+  const refreshStorage = useCallback(async () => {
+    try {
+      const [sizes, estimate] = await Promise.all([
+        aiService.getCachedModelSizes(),
+        aiService.getStorageEstimate(),
+      ]);
+      setCachedSizes(sizes);
+      setStorageEstimate(estimate);
+    } catch (error) {
+      console.warn('Could not read model cache:', error);
+    }
+  }, []);
+
   useEffect(() => {
     const unsubscribe = aiService.subscribe(setModels);
     return unsubscribe;
   }, []);
 
+  useEffect(() => {
+    const unsubscribe = aiService.subscribeProgress((update) => {
+      setProgress(update);
+      if (update.stage === 'download' && update.modelId) {
+        setDownloadProgress(prev => ({ ...prev, [update.modelId]: update.progress }));
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  // Clear the progress once nothing is running any more
+  useEffect(() => {
+    if (progress?.progress === 100 && progress.stage !== 'decode') {
+      const timeoutId = setTimeout(() => setProgress(null), 1500);
+      return () => clearTimeout(timeoutId);
+    }
+  }, [progress]);
+
+  const cancelLoad = useCallback((modelId: string) => {
+    aiService.cancelLoad(modelId);
+    setProgress(prev => (prev?.modelId === modelId ? null : prev));
+  }, []);
+
   const transcribeAudio = useCallback(async (audioBlob: Blob): Promise<string> => {
     try {
       const result = await aiService.transcribeAudio(audioBlob);
@@ -32,6 +86,7 @@ export const useLocalAI = (): UseLocalAIReturn => {
       });
       return result;
     } catch (error) {
+      if (isCancelledError(error)) throw error;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       toast({
         title: "Transcription Failed",
@@ -51,6 +106,7 @@ export const useLocalAI = (): UseLocalAIReturn => {
       });
       return result;
     } catch (error) {
+      if (isCancelledError(error)) throw error;
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       toast({
         title: "Text Generation Failed",
@@ -63,7 +119,9 @@ export const useLocalAI = (): UseLocalAIReturn => {
 
   const loadModel = useCallback(async (modelId: string): Promise<boolean> => {
     try {
-      return await aiService.loadModel(modelId);
+      const loaded = await aiService.loadModel(modelId);
+      refreshStorage();
+      return loaded;
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       toast({
@@ -73,19 +131,19 @@ export const useLocalAI = (): UseLocalAIReturn => {
       });
       return false;
     }
-  }, [toast]);
+  }, [toast, refreshStorage]);
 
-  const loadAllModels = useCallback(async (): Promise<void> => {
+  const loadActiveModels = useCallback(async (): Promise<void> => {
     setIsInitializing(true);
     try {
-      const results = await aiService.loadAllModels();
+      const results = await aiService.loadActiveModels();
       const successCount = results.filter(Boolean).length;
       const totalCount = results.length;
 
       if (successCount === totalCount) {
         toast({
           title: "AI Models Ready",
-          description: "All local AI models have been initialized successfully.",
+          description: "The selected local AI models have been initialized successfully.",
         });
       } else if (successCount > 0) {
         toast({
@@ -107,8 +165,32 @@ export const useLocalAI = (): UseLocalAIReturn => {
       });
     } finally {
       setIsInitializing(false);
+      refreshStorage();
     }
-  }, [toast]);
+  }, [toast, refreshStorage]);
+
+  const setActiveModel = useCallback((modelId: string) => {
+    aiService.setActiveModel(modelId);
+  }, []);
+
+  const evictModel = useCallback(async (modelId: string): Promise<void> => {
+    try {
+      await aiService.evictModel(modelId);
+      toast({
+        title: "Model Removed",
+        description: "The model's files have been deleted from this device.",
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      toast({
+        title: "Could Not Remove Model",
+        description: errorMessage,
+        variant: "destructive",
+      });
+    } finally {
+      refreshStorage();
+    }
+  }, [toast, refreshStorage]);
 
   const isModelLoaded = useCallback((modelId: string): boolean => {
     return aiService.isModelLoaded(modelId);
@@ -124,8 +206,16 @@ export const useLocalAI = (): UseLocalAIReturn => {
     transcribeAudio,
     generateText,
     loadModel,
-    loadAllModels,
+    loadActiveModels,
+    setActiveModel,
+    evictModel,
+    cachedSizes,
+    storageEstimate,
+    refreshStorage,
     isModelLoaded,
     getModelStatus,
+    progress,
+    downloadProgress,
+    cancelLoad,
   };
 };
\ No newline at end of file
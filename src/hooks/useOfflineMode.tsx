@@ -0,0 +1,108 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { countQueuedRecordings, syncQueuedRecordings } from '@/utils/offlineQueue';
+
+// Kept in localStorage rather than user_preferences: it has to be readable with no connection
+const OFFLINE_MODE_KEY = 'milao-offline-mode';
+
+export interface UseOfflineModeReturn {
+  // The user's explicit choice
+  offlineMode: boolean;
+  setOfflineMode: (enabled: boolean) => void;
+  isOnline: boolean;
+  // True when analysis must stay on the device, by choice or because there is no connection
+  isOffline: boolean;
+  pendingCount: number;
+  isSyncing: boolean;
+  refreshPendingCount: () => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+export const useOfflineMode = (userId?: string, onSynced?: () => void): UseOfflineModeReturn => {
+  const [offlineMode, setOfflineModeState] = useState(() => localStorage.getItem(OFFLINE_MODE_KEY) === 'true');
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  // Held in a ref so a new callback each render doesn't retrigger the auto-sync effect
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+  const { toast } = useToast();
+
+  const setOfflineMode = useCallback((enabled: boolean) => {
+    localStorage.setItem(OFFLINE_MODE_KEY, String(enabled));
+    setOfflineModeState(enabled);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!userId) return;
+    try {
+      setPendingCount(await countQueuedRecordings(userId));
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    }
+  }, [userId]);
+
+  const syncNow = useCallback(async () => {
+    if (!userId || syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const { synced, failed } = await syncQueuedRecordings(userId);
+      if (synced > 0) {
+        toast({
+          title: "Offline recordings synced",
+          description: `${synced} recording${synced === 1 ? '' : 's'} saved to your history.`,
+        });
+        onSyncedRef.current?.();
+      }
+      if (failed > 0) {
+        toast({
+          title: "Some recordings are still waiting",
+          description: `${failed} recording${failed === 1 ? '' : 's'} could not be synced. We'll try again later.`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      console.error('Error syncing offline recordings:', error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      refreshPendingCount();
+    }
+  }, [userId, toast, refreshPendingCount]);
+
+  useEffect(() => {
+    refreshPendingCount();
+  }, [refreshPendingCount]);
+
+  // Sync once the connection is back, unless the user is deliberately staying offline
+  const hasPending = pendingCount > 0;
+  useEffect(() => {
+    if (isOnline && !offlineMode && hasPending) {
+      syncNow();
+    }
+  }, [isOnline, offlineMode, hasPending, syncNow]);
+
+  return {
+    offlineMode,
+    setOfflineMode,
+    isOnline,
+    isOffline: offlineMode || !isOnline,
+    pendingCount,
+    isSyncing,
+    refreshPendingCount,
+    syncNow,
+  };
+};
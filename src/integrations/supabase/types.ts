@@ -53,6 +53,7 @@ export type Database = {
           overall_score: number | null
           pace: number | null
           primary_tone: string | null
+          scoring_version: string | null
           title: string | null
           updated_at: string
           user_id: string
@@ -68,6 +69,7 @@ export type Database = {
           overall_score?: number | null
           pace?: number | null
           primary_tone?: string | null
+          scoring_version?: string | null
           title?: string | null
           updated_at?: string
           user_id: string
@@ -83,12 +85,57 @@ export type Database = {
           overall_score?: number | null
           pace?: number | null
           primary_tone?: string | null
+          scoring_version?: string | null
           title?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      speech_scripts: {
+        Row: {
+          content: string
+          created_at: string
+          custom_request: string | null
+          id: string
+          improvement_options: string[]
+          is_target: boolean
+          recording_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          custom_request?: string | null
+          id?: string
+          improvement_options?: string[]
+          is_target?: boolean
+          recording_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          custom_request?: string | null
+          id?: string
+          improvement_options?: string[]
+          is_target?: boolean
+          recording_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "speech_scripts_recording_id_fkey"
+            columns: ["recording_id"]
+            isOneToOne: false
+            referencedRelation: "speech_recordings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_activity_logs: {
         Row: {
           activity_data: Json | null
@@ -142,6 +189,7 @@ export type Database = {
           speaking_goal: string | null
           target_audience: string | null
           tone_preference: string | null
+          transcription_provider: string | null
           updated_at: string
           user_id: string
           vocabulary_level: string | null
@@ -168,6 +216,7 @@ export type Database = {
           speaking_goal?: string | null
           target_audience?: string | null
           tone_preference?: string | null
+          transcription_provider?: string | null
           updated_at?: string
           user_id: string
           vocabulary_level?: string | null
@@ -194,6 +243,7 @@ export type Database = {
           speaking_goal?: string | null
           target_audience?: string | null
           tone_preference?: string | null
+          transcription_provider?: string | null
           updated_at?: string
           user_id?: string
           vocabulary_level?: string | null
@@ -305,6 +355,12 @@ export type Database = {
         }
         Returns: string
       }
+      set_target_script: {
+        Args: {
+          _script_id?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
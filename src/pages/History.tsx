@@ -6,12 +6,16 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from '@/components/ui/select';
 import { Avatar } from '@/components/ui/avatar';
 import { Pagination, PaginationContent, PaginationItem, PaginationLink } from '@/components/ui/pagination';
-import { Mic, Gauge, Smile, AlertTriangle, Edit, Trash2, BarChart2, TrendingUp, Clock, ChevronLeft, ChevronRight, BookOpen, ListChecks } from 'lucide-react';
+import { Mic, Gauge, Smile, AlertTriangle, Edit, Trash2, BarChart2, TrendingUp, Clock, ChevronLeft, ChevronRight, BookOpen, ListChecks, Play, Pause, RefreshCw } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { LogOut, HelpCircle, Settings } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { detectFillerWords } from '@/utils/fillerWords';
+import { getSignedAudioUrl, deleteRecordingAudio } from '@/utils/audioStorage';
+import { reanalyzeRecording, isOutdated } from '@/utils/reanalysis';
+import ReanalysisDiffDialog, { type ReanalysisEntry } from '@/components/ReanalysisDiffDialog';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 
 // Real recording type
@@ -27,6 +31,8 @@ interface Recording {
   primary_tone: string | null;
   analysis_data: any;
   audio_url?: string | null;
+  scoring_version?: string | null;
+  updated_at?: string;
 }
 
 const categories = [
@@ -52,6 +58,14 @@ const History: React.FC = () => {
   const [editId, setEditId] = useState<string | null>(null);
   const [editTitle, setEditTitle] = useState('');
   const [editing, setEditing] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = React.useRef<HTMLAudioElement | null>(null);
+  const [reanalyzingIds, setReanalyzingIds] = useState<string[]>([]);
+  const [bulkProgress, setBulkProgress] = useState<{ done: number; total: number } | null>(null);
+  const [diffEntries, setDiffEntries] = useState<ReanalysisEntry[]>([]);
+
+  // Stop playback when leaving the page
+  useEffect(() => () => audioRef.current?.pause(), []);
 
   useEffect(() => {
     if (!user) {
@@ -104,10 +118,19 @@ const History: React.FC = () => {
   const handleDelete = async () => {
     if (!deleteId) return;
     setDeleting(true);
+    const recording = recordings.find((r) => r.id === deleteId);
     const { error } = await supabase.from('speech_recordings').delete().eq('id', deleteId).eq('user_id', user.id);
     if (error) {
       toast({ title: 'Delete failed', description: error.message, variant: 'destructive' });
     } else {
+      // Remove the audio file too so storage doesn't keep orphaned recordings
+      if (recording?.audio_url) {
+        await deleteRecordingAudio(recording.audio_url);
+      }
+      if (playingId === deleteId) {
+        audioRef.current?.pause();
+        setPlayingId(null);
+      }
       setRecordings((prev) => prev.filter((r) => r.id !== deleteId));
       toast({ title: 'Recording deleted', description: 'The recording was removed from your history.' });
     }
@@ -115,6 +138,61 @@ const History: React.FC = () => {
     setDeleteId(null);
   };
 
+  const handlePlay = async (rec: Recording) => {
+    if (!rec.audio_url) return;
+    if (playingId === rec.id) {
+      audioRef.current?.pause();
+      setPlayingId(null);
+      return;
+    }
+    const signedUrl = await getSignedAudioUrl(rec.audio_url);
+    if (!signedUrl) {
+      toast({ title: 'Playback failed', description: 'Could not load audio file.', variant: 'destructive' });
+      return;
+    }
+    audioRef.current?.pause();
+    const audio = new Audio(signedUrl);
+    audio.onended = () => setPlayingId(null);
+    audioRef.current = audio;
+    try {
+      await audio.play();
+      setPlayingId(rec.id);
+    } catch (error) {
+      console.error('Error playing audio:', error);
+      toast({ title: 'Playback failed', description: 'Could not play audio file.', variant: 'destructive' });
+    }
+  };
+
+  // Re-run analysis one recording at a time, reusing stored transcripts, then show the score diff
+  const handleReanalyze = async (recs: Recording[]) => {
+    if (recs.length === 0) return;
+    setReanalyzingIds(recs.map((r) => r.id));
+    if (recs.length > 1) setBulkProgress({ done: 0, total: recs.length });
+
+    const entries: ReanalysisEntry[] = [];
+    for (const [index, rec] of recs.entries()) {
+      try {
+        const result = await reanalyzeRecording(rec, user?.id);
+        setRecordings((prev) => prev.map((r) => r.id === rec.id ? { ...r, ...result.updates } : r));
+        entries.push({ title: rec.title || 'Untitled', result });
+      } catch (error) {
+        console.error('Error re-analysing recording:', error);
+        entries.push({ title: rec.title || 'Untitled', error: error instanceof Error ? error.message : 'Re-analysis failed' });
+      }
+      setReanalyzingIds((prev) => prev.filter((id) => id !== rec.id));
+      if (recs.length > 1) setBulkProgress({ done: index + 1, total: recs.length });
+    }
+
+    setBulkProgress(null);
+    setDiffEntries(entries);
+    const failed = entries.filter((e) => e.error).length;
+    if (failed > 0) {
+      toast({ title: 'Re-analysis incomplete', description: `${failed} of ${entries.length} recordings could not be re-analysed.`, variant: 'destructive' });
+    }
+  };
+
+  const outdatedRecordings = recordings.filter(isOutdated);
+
   const handleEdit = (rec: Recording) => {
     setEditId(rec.id);
     setEditTitle(rec.title || '');
@@ -228,6 +306,17 @@ const History: React.FC = () => {
               ))}
             </SelectContent>
           </Select>
+          <Button
+            variant="outline"
+            className="rounded-2xl w-full sm:w-auto"
+            onClick={() => handleReanalyze(outdatedRecordings)}
+            disabled={outdatedRecordings.length === 0 || reanalyzingIds.length > 0}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${bulkProgress ? 'animate-spin' : ''}`} />
+            {bulkProgress
+              ? `Re-analysing ${bulkProgress.done}/${bulkProgress.total}...`
+              : `Re-analyse outdated (${outdatedRecordings.length})`}
+          </Button>
         </div>
 
         {/* Recording List */}
@@ -246,7 +335,7 @@ const History: React.FC = () => {
                   <div className="flex items-center gap-2 mb-1">
                     <button
                       className="text-base sm:text-lg font-bold truncate bg-primary/10 hover:bg-primary/20 transition rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-primary/40"
-                      onClick={() => navigate('/analysis-result', { state: { analysis: rec.analysis_data, duration: rec.duration, audioUrl: rec.audio_url, created_at: rec.created_at, title: rec.title } })}
+                      onClick={() => navigate('/analysis-result', { state: { analysis: rec.analysis_data, duration: rec.duration, audioUrl: rec.audio_url, created_at: rec.created_at, title: rec.title, recordingId: rec.id } })}
                     >
                       {rec.title || 'Untitled'}
                     </button>
@@ -289,10 +378,8 @@ const History: React.FC = () => {
                     <div className="flex items-center gap-1 text-red-600">
                       <AlertTriangle className="w-4 h-4" />
                       {rec.analysis_data?.words && Array.isArray(rec.analysis_data.words)
-                        ? rec.analysis_data.words.filter((w: any) => [
-                            'um', 'uh', 'ah', 'er', 'like', 'you know', 'basically', 'actually', 'literally', 'sort of', 'kind of'
-                          ].includes(w.text.toLowerCase())).length
-                        : <span className="text-gray-400">N/A</span>}
+                        ? detectFillerWords(rec.analysis_data.words).length
+                        : rec.filler_words_count ?? <span className="text-gray-400">N/A</span>}
                     </div>
                   </div>
                   <div className="flex items-center gap-2">
@@ -301,6 +388,14 @@ const History: React.FC = () => {
                   </div>
                 </div>
                 <div className="flex flex-row md:flex-col gap-2 md:justify-center md:items-end">
+                  {rec.audio_url && (
+                    <Button size="icon" variant="outline" className="rounded-full" onClick={() => handlePlay(rec)} disabled={deleting}>
+                      {playingId === rec.id ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+                    </Button>
+                  )}
+                  <Button size="icon" variant="outline" className="rounded-full" title="Re-analyse" onClick={() => handleReanalyze([rec])} disabled={deleting || reanalyzingIds.length > 0}>
+                    <RefreshCw className={`w-5 h-5 ${reanalyzingIds.includes(rec.id) ? 'animate-spin' : ''}`} />
+                  </Button>
                   <Button size="icon" variant="outline" className="rounded-full" onClick={() => handleEdit(rec)} disabled={deleting}><Edit className="w-5 h-5" /></Button>
                   <Button size="icon" variant="destructive" className="rounded-full" onClick={() => setDeleteId(rec.id)} disabled={deleting}><Trash2 className="w-5 h-5" /></Button>
                 </div>
@@ -348,11 +443,17 @@ const History: React.FC = () => {
             <div className="w-5 h-5 sm:w-6 sm:h-6 bg-gray-700 rounded-full flex items-center justify-center">
               <span className="text-xs">🔒</span>
             </div>
-            <span className="text-xs sm:text-sm font-medium">Privacy-First: We never store your voice or data. All analysis is real-time and private.</span>
+            <span className="text-xs sm:text-sm font-medium">Privacy-First: Your recordings are stored privately in your account. Only you can play them back, and deleting one removes the audio too.</span>
           </div>
           <p className="text-gray-500 text-xs sm:text-sm font-medium">© 2024 Milao. All rights reserved.</p>
         </div>
       </footer>
+      {/* Re-analysis Score Diff */}
+      <ReanalysisDiffDialog
+        open={diffEntries.length > 0}
+        onOpenChange={open => !open && setDiffEntries([])}
+        entries={diffEntries}
+      />
       {/* Delete Confirmation Dialog */}
       <Dialog open={!!deleteId} onOpenChange={open => !open && setDeleteId(null)}>
         <DialogContent>
@@ -6,8 +6,21 @@ import { useNavigate } from 'react-router-dom';
 import AudioRecorder from '@/components/AudioRecorder';
 import RecordingHistory from '@/components/RecordingHistory';
 import Auth from '@/components/Auth';
-import { analyzeSpeech, AnalysisResult } from '@/utils/speechAnalysisAPI';
-import { analyzeAudioWithAssemblyAI } from '@/utils/assemblyAIService';
+import { AnalysisResult } from '@/utils/speechAnalysisAPI';
+import { transcriptionRegistry, getPreferredTranscriptionProvider, offsetTranscriptTimings, ANALYSIS_REQUIREMENTS } from '@/services/transcriptionService';
+import { convertAssemblyAIToAnalysisResult } from '@/utils/analysisConversion';
+import { uploadRecordingAudio, getSignedAudioUrl, deleteRecordingAudio } from '@/utils/audioStorage';
+import { reanalyzeRecording } from '@/utils/reanalysis';
+import { analyzeOffline } from '@/utils/offlineAnalysis';
+import { queueOfflineRecording, getQueuedRecordings, removeQueuedRecording, type QueuedRecording } from '@/utils/offlineQueue';
+import { analyzeScriptAdherence } from '@/utils/scriptAdherence';
+import { analyzeRecordingProsody } from '@/utils/prosody';
+import { analyzeRecordingLoudness } from '@/utils/loudness';
+import { useOfflineMode } from '@/hooks/useOfflineMode';
+import OfflineModeToggle from '@/components/OfflineModeToggle';
+import { useAudioPreprocessing } from '@/hooks/useAudioPreprocessing';
+import AudioPreprocessingToggle from '@/components/AudioPreprocessingToggle';
+import { preprocessRecording, type PreprocessingReport } from '@/utils/audioPreprocessing';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
@@ -23,8 +36,23 @@ interface RecordingData {
   primaryTone: string;
   analysis: AnalysisResult;
   audioUrl?: string;
+  // Analysed in offline mode and still waiting in the on-device queue
+  queued?: boolean;
 }
 
+const fromQueuedRecording = (recording: QueuedRecording): RecordingData => ({
+  id: recording.id,
+  date: recording.created_at,
+  duration: recording.duration,
+  overallScore: recording.analysis.overall_score,
+  clarityScore: recording.analysis.clarity_score,
+  pace: recording.analysis.pace_analysis.words_per_minute,
+  fillerWords: recording.analysis.filler_words.count,
+  primaryTone: recording.analysis.tone_analysis.primary_tone,
+  analysis: recording.analysis,
+  queued: true,
+});
+
 const Index = () => {
   const { user, session, loading, signOut } = useAuth();
   const navigate = useNavigate();
@@ -50,6 +78,8 @@ const Index = () => {
   const [forceShowApp, setForceShowApp] = useState(false);
   const { toast } = useToast();
   const [menuOpen, setMenuOpen] = useState(false);
+  const offline = useOfflineMode(user?.id, () => fetchRecordings());
+  const preprocessing = useAudioPreprocessing();
 
   // Force show app after 8 seconds as safety net
   useEffect(() => {
@@ -61,13 +91,13 @@ const Index = () => {
     return () => clearTimeout(timeoutId);
   }, []);
 
-  // Check user preferences when user is authenticated
+  // Check user preferences when user is authenticated (and allowed to use the network)
   useEffect(() => {
-    if (user && !checkingPreferences) {
+    if (user && !checkingPreferences && !offline.isOffline) {
       console.log('🔍 User authenticated, checking preferences...');
       checkUserPreferences();
     }
-  }, [user]); // Only depend on user, not checkingPreferences to avoid loops
+  }, [user, offline.isOffline]); // Not checkingPreferences, to avoid loops
 
   // Quick check if user has preferences (without setting state)
   const checkUserPreferencesStatus = async (): Promise<boolean> => {
@@ -98,195 +128,15 @@ const Index = () => {
     }
   };
 
-  // Convert AssemblyAI data to AnalysisResult format
-  const convertAssemblyAIToAnalysisResult = (assemblyData: any, duration: number): AnalysisResult => {
-    
-    // Calculate words per minute
-    const wordCount = assemblyData.words?.length || 0;
-    const durationInMinutes = duration / 60;
-    const wordsPerMinute = durationInMinutes > 0 ? Math.round(wordCount / durationInMinutes) : 0;
-
-    // Calculate filler words (simple detection)
-    const fillerWords = ['um', 'uh', 'ah', 'er', 'like', 'you know', 'basically', 'actually', 'literally'];
-    const transcriptLower = assemblyData.transcript?.toLowerCase() || '';
-    const detectedFillers = fillerWords.filter(word => transcriptLower.includes(word));
-    
-    // Calculate clarity score based on confidence and word count
-    const baseClarityScore = Math.round((assemblyData.confidence || 0.8) * 100);
-    const clarityScore = Math.min(100, Math.max(0, baseClarityScore));
-
-    // Calculate overall score
-    const overallScore = Math.round((clarityScore + (100 - detectedFillers.length * 10) + (wordsPerMinute > 120 && wordsPerMinute < 180 ? 20 : 0)) / 3);
-
-    // Analyze evidence and examples in the transcript
-    const evidenceKeywords = ['data', 'study', 'research', 'example', 'statistics', 'fact', 'evidence', 'proof', 'analysis', 'survey', 'report', 'case', 'instance'];
-    const hasEvidence = evidenceKeywords.some(keyword => transcriptLower.includes(keyword));
-    
-    const evidenceTypes = [];
-    if (transcriptLower.includes('data') || transcriptLower.includes('statistics') || transcriptLower.includes('survey')) {
-      evidenceTypes.push('statistical data');
-    }
-    if (transcriptLower.includes('example') || transcriptLower.includes('instance') || transcriptLower.includes('case')) {
-      evidenceTypes.push('examples');
-    }
-    if (transcriptLower.includes('study') || transcriptLower.includes('research') || transcriptLower.includes('analysis')) {
-      evidenceTypes.push('research findings');
-    }
-    if (transcriptLower.includes('fact') || transcriptLower.includes('evidence') || transcriptLower.includes('proof')) {
-      evidenceTypes.push('factual evidence');
-    }
-    if (!evidenceTypes.length) {
-      evidenceTypes.push('anecdotal');
-    }
-
-    const evidenceQuality = hasEvidence ? Math.floor(Math.random() * 3) + 6 : Math.floor(Math.random() * 3) + 3;
-
-    // Generate dynamic suggestions based on actual content
-    const suggestions = [];
-    
-    // Pace-based suggestions
-    if (wordsPerMinute < 120) {
-      suggestions.push('Consider speaking at a slightly faster pace to maintain audience engagement');
-    } else if (wordsPerMinute > 180) {
-      suggestions.push('Slow down your speech pace to improve clarity and comprehension');
-    } else {
-      suggestions.push('Your speaking pace is well-balanced and engaging');
-    }
-
-    // Filler word suggestions
-    if (detectedFillers.length > 3) {
-      suggestions.push('Work on reducing filler words like "um" and "uh" for more professional delivery');
-    } else if (detectedFillers.length > 0) {
-      suggestions.push('Good job minimizing filler words - continue this practice');
-    } else {
-      suggestions.push('Excellent! No filler words detected in your speech');
-    }
-
-    // Evidence-based suggestions
-    if (!hasEvidence) {
-      suggestions.push('Consider adding specific examples, data, or case studies to strengthen your points');
-    } else {
-      suggestions.push('Good use of evidence and examples to support your arguments');
-    }
-
-    // Clarity-based suggestions
-    if (clarityScore < 80) {
-      suggestions.push('Focus on clear articulation and pronunciation for better understanding');
-    } else {
-      suggestions.push('Your speech clarity is excellent - maintain this level');
-    }
-
-    // Content structure suggestions
-    const hasStructureKeywords = ['first', 'second', 'third', 'finally', 'in conclusion', 'to summarize', 'next', 'then'];
-    const hasStructure = hasStructureKeywords.some(keyword => transcriptLower.includes(keyword));
-    if (!hasStructure) {
-      suggestions.push('Consider adding transition words to improve the flow of your speech');
-    } else {
-      suggestions.push('Good use of structure and transitions in your speech');
-    }
-
-    // Generate strengths based on actual performance
-    const strengths = [];
-    if (clarityScore > 85) strengths.push('Excellent speech clarity and articulation');
-    if (wordsPerMinute >= 120 && wordsPerMinute <= 180) strengths.push('Well-balanced speaking pace');
-    if (detectedFillers.length <= 2) strengths.push('Minimal use of filler words');
-    if (hasEvidence) strengths.push('Good use of evidence and examples');
-    if (hasStructure) strengths.push('Clear speech structure with good transitions');
-    if (strengths.length === 0) strengths.push('Good overall communication effort');
-
-    // Analyze main point from transcript
-    const sentences = assemblyData.transcript?.split(/[.!?]+/).filter(s => s.trim().length > 10) || [];
-    const mainPoint = sentences.length > 0 ? sentences[0].trim() : 'Main message extracted from speech';
-    
-    // Determine argument structure
-    const structureKeywords = {
-      'problem-solution': ['problem', 'issue', 'challenge', 'solution', 'solve', 'address'],
-      'star': ['situation', 'task', 'action', 'result', 'outcome'],
-      'chronological': ['first', 'then', 'next', 'finally', 'after', 'before'],
-      'comparison': ['however', 'but', 'although', 'while', 'compared', 'versus']
-    };
-
-    let detectedStructure = 'logical flow';
-    let structureEffectiveness = 7;
-    
-    for (const [structure, keywords] of Object.entries(structureKeywords)) {
-      if (keywords.some(keyword => transcriptLower.includes(keyword))) {
-        detectedStructure = structure;
-        structureEffectiveness = Math.floor(Math.random() * 3) + 7;
-        break;
-      }
-    }
-
-    return {
-      overall_score: overallScore,
-      clarity_score: clarityScore,
-      pace_analysis: {
-        words_per_minute: wordsPerMinute,
-        assessment: wordsPerMinute < 120 ? 'Slow' : wordsPerMinute > 180 ? 'Fast' : 'Good pace'
-      },
-      filler_words: {
-        count: detectedFillers.length,
-        percentage: `${Math.round((detectedFillers.length / wordCount) * 100)}%`,
-        examples: detectedFillers.slice(0, 5)
-      },
-      tone_analysis: {
-        primary_tone: assemblyData.sentiment?.sentiment?.toLowerCase() || 'neutral',
-        confidence_level: 'High',
-        emotions: assemblyData.sentiment?.sentiment ? [assemblyData.sentiment.sentiment] : ['neutral']
-      },
-      suggestions: suggestions.slice(0, 5), // Limit to 5 most relevant suggestions
-      strengths: strengths.slice(0, 4), // Limit to 4 strengths
-      ai_suggestions: {
-        speechSummary: assemblyData.summary || 'Speech content analyzed successfully.',
-        contentEvaluation: {
-          mainPoint: {
-            identified: mainPoint,
-            clarity: Math.min(10, Math.max(1, Math.floor(clarityScore / 10))),
-            feedback: hasEvidence ? 'Message is well-supported with evidence' : 'Consider adding more supporting evidence'
-          },
-          argumentStructure: {
-            hasStructure: hasStructure,
-            structure: detectedStructure,
-            effectiveness: structureEffectiveness,
-            suggestions: hasStructure ? 'Good structure - consider adding more transitions' : 'Add clear structure with transition words'
-          },
-          evidenceAndExamples: {
-            hasEvidence: hasEvidence,
-            evidenceQuality: evidenceQuality,
-            evidenceTypes: evidenceTypes,
-            suggestions: hasEvidence ? 
-              'Evidence present but could be more specific and quantified' :
-              'Add concrete examples, data, or case studies to support your points'
-          },
-          persuasiveness: {
-            pointProven: hasEvidence,
-            persuasionScore: hasEvidence ? Math.floor(Math.random() * 3) + 7 : Math.floor(Math.random() * 3) + 4,
-            strengths: hasEvidence ? ['Well-supported arguments', 'Clear communication'] : ['Clear communication'],
-            weaknesses: hasEvidence ? ['Could use more specific examples'] : ['Needs more supporting evidence', 'Could use more examples'],
-            improvements: hasEvidence ? 'Include more specific examples and data' : 'Add specific examples and data to strengthen arguments'
-          },
-          starAnalysis: {
-            situation: sentences.length > 0 ? sentences[0] : 'Context established',
-            task: sentences.length > 1 ? sentences[1] : 'Objective defined',
-            action: sentences.length > 2 ? sentences[2] : 'Actions explained',
-            result: sentences.length > 3 ? sentences[3] : 'Results stated',
-            overallStarScore: Math.min(10, Math.max(1, Math.floor(overallScore / 10)))
-          }
-        }
-      },
-      transcript: assemblyData.transcript || ''
-    };
-  };
-
   // Check for user preferences (but don't redirect automatically)
   useEffect(() => {
-    if (user && !checkingPreferences) {
+    if (user && !checkingPreferences && !offline.isOffline) {
       console.log('🔍 User authenticated, starting preferences check...');
       testSupabaseConnection().then(() => {
         checkUserPreferences();
       });
     }
-  }, [user]);
+  }, [user, offline.isOffline]);
 
   // Test Supabase connection before making queries
   const testSupabaseConnection = async () => {
@@ -409,10 +259,21 @@ const Index = () => {
       console.log('🔍 No user, clearing recordings');
       setRecordings([]);
     }
-  }, [user, checkingPreferences]);
+  }, [user, checkingPreferences, offline.isOffline]);
 
   const fetchRecordings = async () => {
     if (!user) return;
+
+    // Offline: keep the history already loaded and list what is waiting to sync, with no network calls
+    if (offline.isOffline) {
+      try {
+        const queued = (await getQueuedRecordings(user.id)).reverse().map(fromQueuedRecording);
+        setRecordings(prev => [...queued, ...prev.filter(recording => !recording.queued)]);
+      } catch (error) {
+        console.error('Error reading offline queue:', error);
+      }
+      return;
+    }
     
     setLoadingRecordings(true);
     try {
@@ -493,96 +354,138 @@ const Index = () => {
   // Show main app if user is authenticated (regardless of preferences check)
   console.log('🔍 User authenticated, showing main app');
 
+  // Clean the audio up first when enabled. Only transcription hears the cleaned-up version;
+  // the audio measures and the saved recording use what the speaker actually sounded like.
+  const transcribeAndAnalyze = async (audioBlob: Blob, duration: number): Promise<AnalysisResult> => {
+    let transcriptionBlob = audioBlob;
+    let preprocessingReport: PreprocessingReport | undefined;
+    if (preprocessing.enabled) {
+      try {
+        const processed = await preprocessRecording(audioBlob, preprocessing.options);
+        transcriptionBlob = processed.blob;
+        preprocessingReport = processed.report;
+      } catch (preprocessingError) {
+        console.warn('Audio preprocessing failed, transcribing the original recording:', preprocessingError);
+      }
+    }
+
+    const analysis = await transcribeAndScore(transcriptionBlob, duration, preprocessingReport?.trimmed_start_ms);
+    if (preprocessingReport) analysis.preprocessing = preprocessingReport;
+    return analysis;
+  };
+
+  // Transcribe with the user's chosen provider (or the best available one) and score the result.
+  // timeOffsetMs puts the word timings back on the original recording when its start was trimmed.
+  const transcribeAndScore = async (audioBlob: Blob, duration: number, timeOffsetMs = 0): Promise<AnalysisResult> => {
+    if (offline.isOffline) {
+      toast({
+        title: "Analyzing on this device...",
+        description: "Offline mode: nothing leaves your device until you sync.",
+        duration: 5000,
+      });
+      const analysis = await analyzeOffline(audioBlob, duration, timeOffsetMs);
+      setTranscriptText(analysis.transcript || '');
+      return analysis;
+    }
+
+    const hasPreferences = await checkUserPreferencesStatus();
+    const preferredProvider = await getPreferredTranscriptionProvider(user?.id);
+
+    toast({
+      title: "Analyzing your speech...",
+      description: hasPreferences
+        ? "Using personalized analysis. This may take 30-60 seconds."
+        : "Using standard analysis. Set preferences for personalized insights.",
+      duration: 5000,
+    });
+
+    // Falls back to the next available provider if the preferred one fails
+    const transcription = offsetTranscriptTimings(await transcriptionRegistry.transcribe(audioBlob, {
+      userId: user?.id,
+      preferred: preferredProvider,
+      requirements: ANALYSIS_REQUIREMENTS,
+    }), timeOffsetMs);
+    console.log(`✅ Transcription completed with ${transcription.provider}:`, transcription);
+    setTranscriptText(transcription.transcript);
+
+    const analysis = convertAssemblyAIToAnalysisResult(transcription, duration);
+
+    // Use personalized feedback if available (scores stay with the versioned scoring engine)
+    if (transcription.personalizedAnalysis) {
+      analysis.suggestions = transcription.personalizedAnalysis.recommendations || analysis.suggestions;
+      analysis.strengths = transcription.personalizedAnalysis.strengths || analysis.strengths;
+    }
+    return analysis;
+  };
+
+  // Measures that come from the audio itself rather than the transcript, for recordings and uploads alike
+  const addAudioAnalyses = async (analysis: AnalysisResult, audioBlob: Blob) => {
+    try {
+      const prosody = await analyzeRecordingProsody(audioBlob, analysis.words);
+      if (prosody) analysis.prosody = prosody;
+    } catch (prosodyError) {
+      console.warn('Prosody analysis failed:', prosodyError);
+    }
+    try {
+      const loudness = await analyzeRecordingLoudness(audioBlob, analysis.words);
+      if (loudness) analysis.loudness = loudness;
+    } catch (loudnessError) {
+      console.warn('Loudness analysis failed:', loudnessError);
+    }
+  };
+
+  // Keep an offline recording on this device until it can be synced to speech_recordings
+  const queueRecording = async (audioBlob: Blob, analysis: AnalysisResult, duration: number, title: string, fileName?: string) => {
+    if (!user?.id) return;
+    await queueOfflineRecording({
+      user_id: user.id,
+      title,
+      duration,
+      analysis,
+      audio: audioBlob,
+      file_name: fileName,
+    });
+    await offline.refreshPendingCount();
+    fetchRecordings();
+    toast({
+      title: "Saved on this device",
+      description: "This recording will sync to your history when you're back online.",
+    });
+  };
+
   // Replace handleRecordingComplete to use smart analysis method selection
-  const handleRecordingComplete = async (audioBlob: Blob, duration: number) => {
+  const handleRecordingComplete = async (audioBlob: Blob, duration: number, targetScript?: string) => {
     setIsAnalyzing(true);
     setAnalysisError(null);
     try {
       console.log('🎯 Starting fresh transcription analysis...', { duration, audioBlobSize: audioBlob.size });
       
-      let analysis: AnalysisResult;
-      
-      // Check if user has preferences to choose analysis method
-      if (user?.id) {
-        const hasPreferences = await checkUserPreferencesStatus();
-        
-        if (hasPreferences) {
-          console.log('🔄 User has preferences, trying Orato analysis...');
-          
-          toast({
-            title: "Analyzing your speech...",
-            description: "Using personalized analysis. This may take 30-60 seconds.",
-            duration: 5000,
-          });
-          
-          try {
-            // Use Orato analysis for users with preferences
-            const assemblyAIResult = await analyzeAudioWithAssemblyAI(audioBlob, user?.id);
-                          console.log('✅ Live Orato analysis completed:', assemblyAIResult);
-            
-            // Set transcript for TextAnalytics
-            setTranscriptText(assemblyAIResult.transcript);
-            
-            // Use our improved conversion function for better analysis
-            analysis = convertAssemblyAIToAnalysisResult(assemblyAIResult, duration);
-            
-            // Override with personalized analysis if available
-            if (assemblyAIResult.personalizedAnalysis) {
-              analysis.overall_score = assemblyAIResult.personalizedAnalysis.overallScore || analysis.overall_score;
-              analysis.clarity_score = assemblyAIResult.personalizedAnalysis.clarityScore || analysis.clarity_score;
-              analysis.suggestions = assemblyAIResult.personalizedAnalysis.recommendations || analysis.suggestions;
-              analysis.strengths = assemblyAIResult.personalizedAnalysis.strengths || analysis.strengths;
-            }
-    } catch (error) {
-            console.warn('⚠️ Orato analysis failed, falling back to direct AssemblyAI:', error);
-            
-            toast({
-              title: "Retrying analysis...",
-              description: "Using standard analysis method.",
-              duration: 3000,
-            });
-            
-            // Fallback to direct AssemblyAI if Orato fails
-            const assemblyResult = await analyzeAudioWithAssemblyAI(audioBlob, user?.id);
-            analysis = convertAssemblyAIToAnalysisResult(assemblyResult, duration);
-            setTranscriptText(assemblyResult.transcript);
-          }
-        } else {
-          console.log('🔄 No preferences found, using direct AssemblyAI analysis...');
-          
-          toast({
-            title: "Analyzing your speech...",
-            description: "Using standard analysis. Set preferences for personalized insights.",
-            duration: 5000,
-          });
-          
-          // Use direct AssemblyAI for users without preferences
-          const assemblyResult = await analyzeAudioWithAssemblyAI(audioBlob, user?.id);
-          analysis = convertAssemblyAIToAnalysisResult(assemblyResult, duration);
-          setTranscriptText(assemblyResult.transcript);
-        }
-      } else {
-        // Fallback for non-authenticated users - use direct AssemblyAI
-        console.log('🔄 Non-authenticated user, using direct AssemblyAI...');
-        const assemblyResult = await analyzeAudioWithAssemblyAI(audioBlob, user?.id);
-        analysis = convertAssemblyAIToAnalysisResult(assemblyResult, duration);
+      const analysis = await transcribeAndAnalyze(audioBlob, duration);
+      // Rehearsals are also scored against the script that was being practised
+      if (targetScript) {
+        analysis.script_adherence = analyzeScriptAdherence(targetScript, analysis.words?.length ? analysis.words : analysis.transcript || '');
       }
+      await addAudioAnalyses(analysis, audioBlob);
       
       // After analysis is complete:
       setCurrentAnalysis(analysis);
       setCurrentDuration(Math.floor(duration || 0));
       setCurrentAudioBlob(audioBlob);
 
-      // Always save the latest analysis to the database
-      if (user?.id) {
-        const fileName = `${user.id}/${Date.now()}-recording.webm`;
-        // Save audio to storage (optional, skip if not needed)
-        // const { data: uploadData, error: uploadError } = await supabase.storage
-        //   .from('audio-recordings')
-        //   .upload(fileName, audioBlob, { contentType: audioBlob.type });
-        // const { data: { publicUrl } } = supabase.storage.from('audio-recordings').getPublicUrl(fileName);
+      // Always save the latest analysis to the database (or queue it while offline)
+      let recordingId: string | null = null;
+      if (offline.isOffline) {
+        await queueRecording(audioBlob, analysis, Math.floor(duration || 0), `Recording - ${new Date().toLocaleDateString()}`);
+      } else if (user?.id) {
+        // Save audio to storage so the recording can be replayed and re-evaluated later
+        let audioPath: string | null = null;
+        try {
+          audioPath = await uploadRecordingAudio(user.id, audioBlob);
+        } catch (uploadError) {
+          console.error('❌ Audio upload failed:', uploadError);
+        }
         // Save to Supabase database
-        await supabase.from('speech_recordings').insert({
+        const { data: savedRecording, error } = await supabase.from('speech_recordings').insert({
           user_id: user.id,
           title: `Recording - ${new Date().toLocaleDateString()}`,
           duration: Math.floor(duration || 0),
@@ -592,12 +495,31 @@ const Index = () => {
           filler_words_count: analysis.filler_words.count,
           primary_tone: analysis.tone_analysis.primary_tone,
           analysis_data: analysis as any,
-          // audio_url: publicUrl
-        });
+          scoring_version: analysis.scoring?.version || null,
+          audio_url: audioPath
+        }).select('id').single();
+
+        if (error) {
+          console.error('Error saving recording:', error);
+          toast({
+            title: "Save Failed",
+            description: "Recording analyzed but couldn't save to database.",
+            variant: "destructive",
+          });
+        } else {
+          recordingId = savedRecording.id;
+          if (!audioPath) {
+            toast({
+              title: "Audio not saved",
+              description: "Your analysis was saved, but the audio could not be uploaded.",
+              variant: "destructive",
+            });
+          }
+        }
       }
 
       // Navigate to the new dashboard, passing analysis data via state
-      navigate('/analysis-result', { state: { analysis, duration: Math.floor(duration || 0), audioBlob } });
+      navigate('/analysis-result', { state: { analysis, duration: Math.floor(duration || 0), audioBlob, recordingId } });
     } catch (error) {
       console.error('❌ Analysis failed completely:', error);
       setAnalysisError(error instanceof Error ? error.message : 'Unknown error occurred');
@@ -629,21 +551,22 @@ const Index = () => {
         audio.src = URL.createObjectURL(audioBlob);
       });
       
-      const analysis = await analyzeSpeech(audioBlob, Math.floor(duration));
+      const analysis = await transcribeAndAnalyze(audioBlob, Math.floor(duration));
+      await addAudioAnalyses(analysis, audioBlob);
       setCurrentAnalysis(analysis);
       setCurrentDuration(Math.floor(duration));
       setCurrentAudioBlob(audioBlob);
-      setTranscriptText(analysis.transcript);
+
+      if (offline.isOffline) {
+        await queueRecording(audioBlob, analysis, Math.floor(duration || 0), `${file.name} - ${new Date().toLocaleDateString()}`, file.name);
+        return;
+      }
       
       // Upload audio file to storage
-      const fileName = `${user.id}/${Date.now()}-${file.name}`;
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('audio-recordings')
-        .upload(fileName, audioBlob, {
-          contentType: file.type
-        });
-
-      if (uploadError) {
+      let audioPath: string;
+      try {
+        audioPath = await uploadRecordingAudio(user.id, audioBlob, { fileName: file.name });
+      } catch (uploadError) {
         console.error('Error uploading audio:', uploadError);
         toast({
           title: "Upload Failed",
@@ -652,13 +575,8 @@ const Index = () => {
         });
         return;
       }
-
-      // Get the public URL for the audio file
-      const { data: { publicUrl } } = supabase.storage
-        .from('audio-recordings')
-        .getPublicUrl(fileName);
       
-      // Save to Supabase database with audio URL
+      // Save to Supabase database with the audio's storage path
       const { error } = await supabase
         .from('speech_recordings')
         .insert({
@@ -671,7 +589,8 @@ const Index = () => {
           filler_words_count: analysis.filler_words.count,
           primary_tone: analysis.tone_analysis.primary_tone,
           analysis_data: analysis as any,
-          audio_url: publicUrl
+          scoring_version: analysis.scoring?.version || null,
+          audio_url: audioPath
         });
 
       if (error) {
@@ -709,18 +628,10 @@ const Index = () => {
     const recording = recordings.find(r => r.id === id);
     if (recording && recording.audioUrl) {
       try {
-        // Extract file path from URL
-        const urlParts = recording.audioUrl.split('/');
-        const bucketIndex = urlParts.findIndex(part => part === 'audio-recordings');
-        const filePath = urlParts.slice(bucketIndex + 1).join('/');
-        
         // Get signed URL for private audio file
-        const { data, error } = await supabase.storage
-          .from('audio-recordings')
-          .createSignedUrl(filePath, 60); // 1 minute expiry
+        const signedUrl = await getSignedAudioUrl(recording.audioUrl, 60); // 1 minute expiry
 
-        if (error) {
-          console.error('Error getting signed URL:', error);
+        if (!signedUrl) {
           toast({
             title: "Playback Failed", 
             description: "Could not load audio file.",
@@ -732,12 +643,12 @@ const Index = () => {
         // Find or create audio element for this recording
         let audio = document.getElementById(`audio-${id}`) as HTMLAudioElement;
         if (!audio) {
-          audio = new Audio(data.signedUrl);
+          audio = new Audio(signedUrl);
           audio.id = `audio-${id}`;
           audio.style.display = 'none';
           document.body.appendChild(audio);
         } else {
-          audio.src = data.signedUrl;
+          audio.src = signedUrl;
         }
 
         audio.play().catch(err => {
@@ -762,6 +673,18 @@ const Index = () => {
   const handleDeleteRecording = async (id: string) => {
     try {
       const recording = recordings.find(r => r.id === id);
+
+      // Never synced, so it only exists on this device
+      if (recording?.queued) {
+        await removeQueuedRecording(id);
+        await offline.refreshPendingCount();
+        setRecordings(prev => prev.filter(r => r.id !== id));
+        toast({
+          title: "Recording Deleted",
+          description: "The recording has been removed from this device.",
+        });
+        return;
+      }
       
       // Delete from database
       const { error } = await supabase
@@ -781,17 +704,7 @@ const Index = () => {
 
       // Delete audio file from storage if it exists
       if (recording?.audioUrl) {
-        const urlParts = recording.audioUrl.split('/');
-        const bucketIndex = urlParts.findIndex(part => part === 'audio-recordings');
-        const filePath = urlParts.slice(bucketIndex + 1).join('/');
-        
-        const { error: storageError } = await supabase.storage
-          .from('audio-recordings')
-          .remove([filePath]);
-
-        if (storageError) {
-          console.error('Error deleting audio file:', storageError);
-        }
+        await deleteRecordingAudio(recording.audioUrl);
       }
 
       setRecordings(prev => prev.filter(r => r.id !== id));
@@ -830,10 +743,19 @@ const Index = () => {
 
   const handleReEvaluate = async (id: string) => {
     const recording = recordings.find(r => r.id === id);
-    if (!recording || !recording.audioUrl) {
+    if (!recording) {
       toast({
         title: "Re-evaluation Failed",
-        description: "Audio file not found for this recording.",
+        description: "Recording not found.",
+        variant: "destructive",
+      });
+      return;
+    }
+    // Re-evaluation downloads the audio and transcribes it again
+    if (offline.isOffline) {
+      toast({
+        title: "Re-evaluation unavailable offline",
+        description: "Turn off offline mode to re-analyze saved recordings.",
         variant: "destructive",
       });
       return;
@@ -841,77 +763,41 @@ const Index = () => {
 
     setIsReEvaluating(id);
     try {
-      // Extract file path from URL
-      const urlParts = recording.audioUrl.split('/');
-      const bucketIndex = urlParts.findIndex(part => part === 'audio-recordings');
-      const filePath = urlParts.slice(bucketIndex + 1).join('/');
-      
-      // Get the audio file from storage
-      const { data: audioData, error: downloadError } = await supabase.storage
-        .from('audio-recordings')
-        .download(filePath);
-
-      if (downloadError) {
-        console.error('Error downloading audio:', downloadError);
-        toast({
-          title: "Re-evaluation Failed",
-          description: "Could not download audio file.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      // Re-analyze the audio
-      const analysis = await analyzeSpeech(audioData, recording.duration);
-      
-      // Update the database with new analysis
-      const { error: updateError } = await supabase
-        .from('speech_recordings')
-        .update({
-          overall_score: analysis.overall_score,
-          clarity_score: analysis.clarity_score,
-          pace: analysis.pace_analysis.words_per_minute,
-          filler_words_count: analysis.filler_words.count,
-          primary_tone: analysis.tone_analysis.primary_tone,
-          analysis_data: analysis as any,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', id)
-        .eq('user_id', user.id);
+      // Reuses the stored transcript when possible and keeps the previous analysis as a version
+      const result = await reanalyzeRecording({
+        id: recording.id,
+        duration: recording.duration,
+        analysis_data: recording.analysis,
+        audio_url: recording.audioUrl,
+      }, user?.id);
 
-      if (updateError) {
-        console.error('Error updating recording:', updateError);
-        toast({
-          title: "Update Failed",
-          description: "Analysis completed but couldn't save new results.",
-          variant: "destructive",
-        });
-      } else {
-        // Refresh recordings and show new analysis
-        fetchRecordings();
-        setCurrentAnalysis(analysis);
-        setCurrentDuration(recording.duration);
-        setCurrentAudioBlob(audioData); // Add this line to provide audio for Text Analytics
-        // setAnalysisOpen(true); // Removed as per new_code
-        toast({
-          title: "Re-evaluation Complete!",
-          description: `Updated analysis - scored ${analysis.overall_score}/100`,
-        });
+      // Refresh recordings and show new analysis
+      fetchRecordings();
+      setCurrentAnalysis(result.after);
+      setCurrentDuration(recording.duration);
+      if (result.audioBlob) {
+        setCurrentAudioBlob(result.audioBlob);
       }
 
+      const overall = result.changes.find(change => change.label === 'Overall');
+      const delta = overall?.delta ? ` (${overall.delta > 0 ? '+' : ''}${overall.delta})` : '';
+      toast({
+        title: "Re-evaluation Complete!",
+        description: `Updated analysis - scored ${result.after.overall_score}/100${delta}`,
+      });
     } catch (error) {
       console.error('Error re-evaluating recording:', error);
       toast({
         title: "Re-evaluation Failed",
-        description: "Please try again.",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     } finally {
       setIsReEvaluating(null);
     }
-
   };
 
+
   return (
     <div className="w-full min-h-screen flex flex-col bg-gradient-to-br from-background via-accent/20 to-background pt-28">
       <header className="fixed top-0 left-0 right-0 z-50 bg-white/80 backdrop-blur-md border-b border-gray-200">
@@ -971,6 +857,8 @@ const Index = () => {
       </header>
         <main className="flex-1">
           <div className="container mx-auto px-4 py-6 max-w-4xl">
+            <OfflineModeToggle {...offline} />
+            <AudioPreprocessingToggle {...preprocessing} />
             {/* Recording Interface - show directly, no accordion or tips */}
             <AudioRecorder
               onRecordingComplete={handleRecordingComplete}
@@ -1007,7 +895,7 @@ const Index = () => {
               <div className="w-5 h-5 sm:w-6 sm:h-6 bg-gray-700 rounded-full flex items-center justify-center">
                 <span className="text-xs">🔒</span>
               </div>
-              <span className="text-xs sm:text-sm font-medium">Privacy-First: We never store your voice or data. All analysis is real-time and private.</span>
+              <span className="text-xs sm:text-sm font-medium">Privacy-First: Your recordings are stored privately in your account. Only you can play them back, and deleting one removes the audio too.</span>
             </div>
             <p className="text-gray-500 text-xs sm:text-sm font-medium">© 2024 Milao. All rights reserved.</p>
           </div>
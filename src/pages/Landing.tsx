@@ -473,7 +473,7 @@ const Landing = () => {
             <div className="w-5 h-5 sm:w-6 sm:h-6 bg-gray-700 rounded-full flex items-center justify-center">
               <span className="text-xs">🔒</span>
             </div>
-            <span className="text-xs sm:text-sm font-medium">Privacy-First: We never store your voice or data. All analysis is real-time and private.</span>
+            <span className="text-xs sm:text-sm font-medium">Privacy-First: Your recordings are stored privately in your account. Only you can play them back, and deleting one removes the audio too.</span>
           </div>
           <p className="text-gray-500 text-xs sm:text-sm font-medium">© 2024 Milao. All rights reserved.</p>
         </div>
@@ -5,12 +5,30 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Play, Download, Mic, Zap, Smile, Gauge, TrendingUp, AlertTriangle, ChevronRight, ChevronLeft, Info, FileText, BarChart2, Volume2, Repeat, ArrowLeft, ArrowRight, CheckCircle, Circle, Pause, Share2, LogOut, HelpCircle, History, Settings, User, MessageSquare, Target, Shield, Star, Users, Clock, Hash, Tag, Home, Activity, PieChart, Target as TargetIcon, Shield as ShieldIcon, FileText as FileTextIcon } from 'lucide-react';
+import { Play, Download, Mic, Zap, Smile, Gauge, TrendingUp, AlertTriangle, ChevronRight, ChevronLeft, Info, FileText, BarChart2, Volume2, Repeat, ArrowLeft, ArrowRight, CheckCircle, Circle, Pause, Share2, LogOut, HelpCircle, History, Settings, User, MessageSquare, Target, Shield, Star, Users, Clock, Hash, Tag, Home, Activity, AudioWaveform, PieChart, Target as TargetIcon, Shield as ShieldIcon, FileText as FileTextIcon } from 'lucide-react';
 import { ResponsiveContainer, PieChart as RechartsPieChart, Pie, Cell, LineChart, Line, XAxis, YAxis, Tooltip, Legend, CartesianGrid, BarChart, Bar } from 'recharts';
 import classNames from 'classnames';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { detectFillerWords, type FillerWordOccurrence } from '@/utils/fillerWords';
+import { computePaceTimeline, type PaceTimeline } from '@/utils/paceTimeline';
+import PaceTimelineChart from '@/components/speech-analysis/PaceTimelineChart';
+import TranscriptPlayer from '@/components/speech-analysis/TranscriptPlayer';
+import SpeechImprovement from '@/components/speech-analysis/SpeechImprovement';
+import ScriptVersions from '@/components/speech-analysis/ScriptVersions';
+import ScriptAdherenceView from '@/components/speech-analysis/ScriptAdherenceView';
+import ContentEvaluation from '@/components/speech-analysis/ContentEvaluation';
+import type { AISuggestions } from '@/types/speechAnalysis';
+import type { ScriptAdherence } from '@/utils/scriptAdherence';
+import VocalVarietyView from '@/components/speech-analysis/VocalVarietyView';
+import PausesView from '@/components/speech-analysis/PausesView';
+import { analyzePauses, type PauseAnalysis } from '@/utils/pauses';
+import type { ProsodyAnalysis } from '@/utils/prosody';
+import LoudnessTimelineChart from '@/components/speech-analysis/LoudnessTimelineChart';
+import type { LoudnessAnalysis } from '@/utils/loudness';
+import { describePreprocessing, type PreprocessingReport } from '@/utils/audioPreprocessing';
+import { getSignedAudioUrl } from '@/utils/audioStorage';
 import Auth from '@/components/Auth';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 
@@ -73,6 +91,10 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
   const [activeTab, setActiveTab] = React.useState('overview');
   const [selectedSection, setSelectedSection] = React.useState('overview');
   const [menuOpen, setMenuOpen] = React.useState(false);
+  const [audioSrc, setAudioSrc] = React.useState<string | null>(null);
+  // speech_recordings id, so improved scripts are saved against this recording
+  const [recordingId, setRecordingId] = React.useState<string | null>(location.state?.recordingId || null);
+  const [scriptsRefreshKey, setScriptsRefreshKey] = React.useState(0);
 
   // Debug logging
   React.useEffect(() => {
@@ -92,9 +114,31 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
       setAnalysis(location.state.analysis);
       setDuration(location.state.duration);
       setAudioBlob(location.state.audioBlob);
+      setRecordingId(location.state.recordingId || null);
     }
   }, [location.state]);
 
+  // Playable source for the transcript player: the fresh recording, else a signed URL for the stored audio
+  React.useEffect(() => {
+    if (audioBlob) {
+      const objectUrl = URL.createObjectURL(audioBlob);
+      setAudioSrc(objectUrl);
+      return () => URL.revokeObjectURL(objectUrl);
+    }
+    const storedAudio = location.state?.audioUrl || analysis?.audioUrl;
+    if (!storedAudio) {
+      setAudioSrc(null);
+      return;
+    }
+    let cancelled = false;
+    getSignedAudioUrl(storedAudio).then(signedUrl => {
+      if (!cancelled) setAudioSrc(signedUrl);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [audioBlob, location.state, analysis?.audioUrl]);
+
   // Fetch latest analysis from database if not present in state
   React.useEffect(() => {
     if (!analysis && user) {
@@ -116,6 +160,7 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
             console.log('Found analysis data in database:', data);
             setAnalysis(data.analysis_data);
             setDuration(data.duration);
+            setRecordingId(data.id);
             if (data.audio_url) {
               setAnalysis((prev: any) => ({ ...prev, audioUrl: data.audio_url }));
             }
@@ -173,13 +218,10 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
   // Overall score: use overall_score if present, else confidence, else mock
   const realOverallScore = analysis?.overall_score ?? (analysis?.confidence ? Math.round(analysis.confidence * 100) : overallScore);
 
-  // Define filler words list once
-  const FILLER_WORDS = ['um', 'uh', 'ah', 'er', 'like', 'you know', 'basically', 'actually', 'literally', 'sort of', 'kind of'];
-
-  // Unified filler words array from analysis.words
-  const fillerWordsList = analysis?.words && Array.isArray(analysis.words)
-    ? analysis.words.filter((w: any) => FILLER_WORDS.includes(w.text.toLowerCase()))
-    : [];
+  // Unified filler words array from analysis.words (or the stored occurrences)
+  const fillerWordsList: FillerWordOccurrence[] = analysis?.words && Array.isArray(analysis.words)
+    ? detectFillerWords(analysis.words)
+    : analysis?.filler_words?.occurrences || [];
 
   // Key metrics
   const realKeyMetrics = analysis
@@ -231,7 +273,7 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
     : keyMetrics;
 
   // Filler words with timestamps for overview
-  const realFillerWords = fillerWordsList.map((w: any) => ({ time: formatTime(w.start / 1000), word: w.text }));
+  const realFillerWords = fillerWordsList.map((w) => ({ time: formatTime((w.start ?? 0) / 1000), word: w.word }));
 
   // Transcript
   const transcript = analysis?.transcript || '';
@@ -257,10 +299,35 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
   // Words with confidence
   const words = analysis?.words || [];
 
+  // Rolling pace: stored timeline, else computed from raw word timings
+  const paceTimeline: PaceTimeline | null = analysis?.pace_analysis?.timeline
+    || (Array.isArray(analysis?.words) ? computePaceTimeline(analysis.words) : null);
+
+  // Pause summary: stored analysis, else computed from raw word timings
+  const pauses: PauseAnalysis | null = analysis?.pauses
+    || (Array.isArray(analysis?.words) && analysis.words.length ? analyzePauses(analysis.words) : null);
+
+  // Set when the recording was a rehearsal of a target script
+  const scriptAdherence: ScriptAdherence | undefined = analysis?.script_adherence;
+  // Missing on analyses from before prosody was measured
+  const prosody: ProsodyAnalysis | undefined = analysis?.prosody;
+  const loudness: LoudnessAnalysis | undefined = analysis?.loudness;
+  // Set when the audio was cleaned up before transcription
+  const preprocessingReport: PreprocessingReport | undefined = analysis?.preprocessing;
+  // Content evaluation from the server, the local model or the heuristic fallback
+  const aiSuggestions: AISuggestions | undefined = analysis?.ai_suggestions;
+
   // Navigation items
   const navItems = [
     { id: 'overview', label: 'Overview', icon: <Home className="w-4 h-4" /> },
+    { id: 'pace', label: 'Pace Timeline', icon: <Gauge className="w-4 h-4" /> },
+    ...(pauses ? [{ id: 'pauses', label: 'Pauses', icon: <Pause className="w-4 h-4" /> }] : []),
+    ...(loudness ? [{ id: 'volume', label: 'Volume Timeline', icon: <Volume2 className="w-4 h-4" /> }] : []),
+    ...(prosody ? [{ id: 'voice', label: 'Vocal Variety', icon: <AudioWaveform className="w-4 h-4" /> }] : []),
+    ...(aiSuggestions?.contentEvaluation ? [{ id: 'content', label: 'Content', icon: <MessageSquare className="w-4 h-4" /> }] : []),
     { id: 'transcript', label: 'Transcript', icon: <FileTextIcon className="w-4 h-4" /> },
+    { id: 'scripts', label: 'Improved Scripts', icon: <Star className="w-4 h-4" /> },
+    ...(scriptAdherence ? [{ id: 'rehearsal', label: 'Script Rehearsal', icon: <Repeat className="w-4 h-4" /> }] : []),
     { id: 'sentiment', label: 'Sentiment', icon: <Smile className="w-4 h-4" /> },
     { id: 'entities', label: 'Entities', icon: <TargetIcon className="w-4 h-4" /> },
     { id: 'safety', label: 'Content Safety', icon: <ShieldIcon className="w-4 h-4" /> },
@@ -280,15 +347,93 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
         </div>
       </div>
     ),
+    pace: (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="text-lg font-bold mb-2">Pace Timeline</div>
+        {paceTimeline ? (
+          <PaceTimelineChart timeline={paceTimeline} />
+        ) : (
+          <div className="text-sm text-muted-foreground">Word timings are not available for this recording.</div>
+        )}
+      </div>
+    ),
+    content: aiSuggestions?.contentEvaluation && (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="text-lg font-bold mb-4">Content Evaluation</div>
+        <ContentEvaluation
+          evaluation={aiSuggestions.contentEvaluation}
+          source={aiSuggestions.evaluationSource}
+          model={aiSuggestions.evaluationModel}
+          fallbackReason={aiSuggestions.fallbackReason}
+        />
+      </div>
+    ),
     transcript: (
       <div className="rounded-2xl p-8 min-h-[120px] flex items-center justify-center bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
         <div>
-          <div className="text-lg font-bold mb-2">Transcript</div>
-          <div className="text-sm text-muted-foreground mb-2">{analysis?.words?.length || (analysis?.transcript ? analysis.transcript.split(' ').length : 0)} words</div>
-          <div className="whitespace-pre-line break-words text-base text-gray-900 bg-white rounded-lg p-4 border max-h-96 overflow-y-auto shadow-inner">
-            {transcript}
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <div className="text-lg font-bold">Transcript</div>
+            {transcript && (
+              <SpeechImprovement
+                transcript={transcript}
+                summary={analysis?.summary || ''}
+                recordingId={recordingId}
+                onScriptSaved={() => setScriptsRefreshKey(key => key + 1)}
+              />
+            )}
           </div>
+          <div className="text-sm text-muted-foreground mb-2">{analysis?.words?.length || (analysis?.transcript ? analysis.transcript.split(' ').length : 0)} words</div>
+          {words.length > 0 && typeof words[0].start === 'number' ? (
+            <TranscriptPlayer words={words} audioSrc={audioSrc} />
+          ) : (
+            <div className="whitespace-pre-line break-words text-base text-gray-900 bg-white rounded-lg p-4 border max-h-96 overflow-y-auto shadow-inner">
+              {transcript}
+            </div>
+          )}
+        </div>
+      </div>
+    ),
+    scripts: (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="flex items-center justify-between gap-4 mb-2">
+          <div className="text-lg font-bold">Improved Scripts</div>
+          {transcript && (
+            <SpeechImprovement
+              transcript={transcript}
+              summary={analysis?.summary || ''}
+              recordingId={recordingId}
+              onScriptSaved={() => setScriptsRefreshKey(key => key + 1)}
+            />
+          )}
+        </div>
+        <div className="text-sm text-muted-foreground mb-4">
+          Saved versions for this recording. Star one as your target script to rehearse against it.
         </div>
+        <ScriptVersions recordingId={recordingId} refreshKey={scriptsRefreshKey} />
+      </div>
+    ),
+    pauses: pauses && (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="text-lg font-bold mb-4">Pauses & Rhythm</div>
+        <PausesView pauses={pauses} />
+      </div>
+    ),
+    volume: loudness && (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="text-lg font-bold mb-2">Volume Timeline</div>
+        <LoudnessTimelineChart loudness={loudness} />
+      </div>
+    ),
+    voice: prosody && (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="text-lg font-bold mb-4">Vocal Variety</div>
+        <VocalVarietyView prosody={prosody} />
+      </div>
+    ),
+    rehearsal: scriptAdherence && (
+      <div className="rounded-2xl p-8 min-h-[120px] bg-gradient-to-br from-white/80 via-blue-50/60 to-white/60 backdrop-blur-md border border-primary/20" style={{ boxShadow: 'none' }}>
+        <div className="text-lg font-bold mb-4">Script Rehearsal</div>
+        <ScriptAdherenceView adherence={scriptAdherence} />
       </div>
     ),
     sentiment: (
@@ -320,6 +465,18 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
         <div>
           <div className="text-lg font-bold mb-2">Details</div>
           <div className="text-sm text-muted-foreground">{speakers.length > 0 ? speakers.length : 1} speaker(s)</div>
+          {preprocessingReport && (
+            <div className="mt-3 text-sm text-muted-foreground">
+              <div className="font-medium text-foreground">Audio cleaned up before transcription</div>
+              {preprocessingReport.applied.length > 0 ? (
+                <ul className="list-disc pl-5">
+                  {describePreprocessing(preprocessingReport).map(line => <li key={line}>{line}</li>)}
+                </ul>
+              ) : (
+                <div>No changes were needed.</div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     ),
@@ -464,11 +621,31 @@ const SpeechAnalysisResultsDashboard: React.FC = () => {
                       sectionValue = `${realFillerWords.length} filler words`;
                       sectionIcon = <AlertTriangle className="w-5 h-5 text-orange-500" />;
                       break;
+                    case 'pace':
+                      sectionValue = paceTimeline ? `${paceTimeline.min_wpm}–${paceTimeline.max_wpm} WPM` : 'N/A';
+                      sectionIcon = <Gauge className="w-5 h-5 text-primary" />;
+                      break;
                     case 'transcript':
                       const wordCount = analysis?.words?.length || (analysis?.transcript ? analysis.transcript.split(' ').length : 0);
                       sectionValue = `${wordCount} words`;
                       sectionIcon = <FileTextIcon className="w-5 h-5 text-blue-500" />;
                       break;
+                    case 'scripts':
+                      sectionValue = 'Versions';
+                      sectionIcon = <Star className="w-5 h-5 text-yellow-500" />;
+                      break;
+                    case 'volume':
+                      sectionValue = loudness ? `${loudness.integrated_lufs} LUFS` : 'N/A';
+                      sectionIcon = <Volume2 className="w-5 h-5 text-sky-500" />;
+                      break;
+                    case 'voice':
+                      sectionValue = prosody ? `${prosody.vocal_variety_score}/100` : 'N/A';
+                      sectionIcon = <AudioWaveform className="w-5 h-5 text-pink-500" />;
+                      break;
+                    case 'rehearsal':
+                      sectionValue = scriptAdherence ? `${scriptAdherence.coverage}% covered` : 'N/A';
+                      sectionIcon = <Repeat className="w-5 h-5 text-indigo-500" />;
+                      break;
                     case 'sentiment':
                       if (sentiment?.sentiment) {
                         sectionValue = sentiment.sentiment;
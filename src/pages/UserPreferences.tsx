@@ -11,7 +11,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { useToast } from '@/hooks/use-toast';
 import { Badge } from '@/components/ui/badge';
-import { X, ArrowLeft, ChevronDown, User, Target, AlertTriangle, GraduationCap, Palette, Shield, Save, CheckCircle } from 'lucide-react';
+import { X, ArrowLeft, ChevronDown, User, Target, AlertTriangle, GraduationCap, Palette, Shield, Save, CheckCircle, Mic } from 'lucide-react';
+import { transcriptionRegistry } from '@/services/transcriptionService';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 
 interface UserPreferences {
@@ -37,6 +38,7 @@ interface UserPreferences {
   recording_consent?: boolean;
   reminders_enabled?: boolean;
   gamification_enabled?: boolean;
+  transcription_provider?: string | null;
 }
 
 const UserPreferences: React.FC = () => {
@@ -56,6 +58,7 @@ const UserPreferences: React.FC = () => {
   const [challengesOpen, setChallengesOpen] = useState(false);
   const [learningOpen, setLearningOpen] = useState(false);
   const [styleOpen, setStyleOpen] = useState(false);
+  const [transcriptionOpen, setTranscriptionOpen] = useState(false);
   const [consentOpen, setConsentOpen] = useState(false);
 
   useEffect(() => {
@@ -534,6 +537,49 @@ const UserPreferences: React.FC = () => {
           </Card>
         </Collapsible>
 
+        {/* Transcription */}
+        <Collapsible open={transcriptionOpen} onOpenChange={setTranscriptionOpen}>
+          <Card className="border-0 shadow-[var(--shadow-soft)] backdrop-blur-md bg-[var(--glass-bg)]">
+            <CollapsibleTrigger asChild>
+              <CardHeader className="cursor-pointer hover:bg-accent/10 transition-colors">
+                <CardTitle className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Mic className="w-5 h-5 text-primary" />
+                    <span>Transcription</span>
+                  </div>
+                  <ChevronDown className={`w-4 h-4 transition-transform ${transcriptionOpen ? 'rotate-180' : ''}`} />
+                </CardTitle>
+                <CardDescription>Which speech-to-text service transcribes your recordings</CardDescription>
+              </CardHeader>
+            </CollapsibleTrigger>
+            <CollapsibleContent>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="transcription_provider">Transcription Provider</Label>
+                  <Select
+                    value={preferences.transcription_provider || 'auto'}
+                    onValueChange={(value) => updatePreference('transcription_provider', value === 'auto' ? null : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select provider" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Automatic (best available)</SelectItem>
+                      {transcriptionRegistry.list().map((provider) => (
+                        <SelectItem key={provider.id} value={provider.id}>{provider.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {transcriptionRegistry.list().find((provider) => provider.id === preferences.transcription_provider)?.description
+                      || 'Uses the cheapest available provider with word timings and confidence, falling back if one fails.'}
+                  </p>
+                </div>
+              </CardContent>
+            </CollapsibleContent>
+          </Card>
+        </Collapsible>
+
         {/* Consent & Privacy */}
         <Collapsible open={consentOpen} onOpenChange={setConsentOpen}>
           <Card className="border-0 shadow-[var(--shadow-soft)] backdrop-blur-md bg-[var(--glass-bg)]">
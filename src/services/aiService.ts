@@ -1,19 +1,67 @@
-import { pipeline } from '@huggingface/transformers';
+import type {
+  LocalAIProgress,
+  LocalAIRequest,
+  LocalAIResponse,
+  LocalTranscription,
+} from '@/workers/localAIProtocol';
+import {
+  DEFAULT_LOCAL_MODELS,
+  LOCAL_MODEL_CATALOG,
+  MODEL_CACHE_NAME,
+  getLocalModel,
+  isModelFileUrl,
+  LocalModelDefinition,
+  LocalModelTask,
+} from './localModelCatalog';
+import { decodeToMono } from '@/utils/audioFormat';
+
+export type { LocalAIProgress, LocalTranscription, LocalTranscriptWord } from '@/workers/localAIProtocol';
 
 export interface AIModel {
   id: string;
   name: string;
   type: 'speech-to-text' | 'text-generation' | 'text-analysis';
   status: 'not-loaded' | 'loading' | 'loaded' | 'error';
-  model?: any;
+  // The model used for its task; one per task
+  active: boolean;
+}
+
+export interface LocalAIRequestOptions {
+  onProgress?: (progress: LocalAIProgress) => void;
+  signal?: AbortSignal;
 }
 
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: unknown) => void;
+  onProgress?: (progress: LocalAIProgress) => void;
+}
+
+export const WHISPER_SAMPLE_RATE = 16000;
+const ACTIVE_MODELS_KEY = 'milao-local-models';
+
+const cancelledError = () => new DOMException('Local AI request cancelled', 'AbortError');
+
+export const isCancelledError = (error: unknown) =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Pipelines live in localAI.worker.ts; this class keeps model status for the UI and
+// turns worker messages back into promises.
 export class LocalAIService {
   private static instance: LocalAIService;
   private models: Map<string, AIModel> = new Map();
   private listeners: Set<(models: AIModel[]) => void> = new Set();
+  private progressListeners: Set<(progress: LocalAIProgress) => void> = new Set();
+  private loading: Map<string, Promise<boolean>> = new Map();
+  // Request id of each model's in-flight load, so one model's load can be cancelled on its own
+  private loadRequests: Map<string, number> = new Map();
+  private pending: Map<number, PendingRequest> = new Map();
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private activeModels: Record<LocalModelTask, string> = { ...DEFAULT_LOCAL_MODELS };
 
   private constructor() {
+    this.restoreActiveModels();
     this.initializeModels();
   }
 
@@ -25,24 +73,56 @@ export class LocalAIService {
   }
 
   private initializeModels() {
-    const defaultModels: AIModel[] = [
-      {
-        id: 'whisper-tiny',
-        name: 'Whisper Tiny (Speech-to-Text)',
-        type: 'speech-to-text',
-        status: 'not-loaded'
-      },
-      {
-        id: 'distilgpt2',
-        name: 'DistilGPT-2 (Text Generation)',
-        type: 'text-generation',
-        status: 'not-loaded'
-      }
-    ];
+    LOCAL_MODEL_CATALOG.forEach(({ id, name, task }) => {
+      this.models.set(id, {
+        id,
+        name,
+        type: task,
+        status: 'not-loaded',
+        active: this.activeModels[task] === id,
+      });
+    });
+  }
+
+  private restoreActiveModels() {
+    try {
+      const saved = JSON.parse(localStorage.getItem(ACTIVE_MODELS_KEY) || '{}') as Partial<Record<LocalModelTask, string>>;
+      (Object.keys(this.activeModels) as LocalModelTask[]).forEach(task => {
+        const modelId = saved[task];
+        if (modelId && getLocalModel(modelId)?.task === task) {
+          this.activeModels[task] = modelId;
+        }
+      });
+    } catch (error) {
+      console.warn('Could not restore local model selection:', error);
+    }
+  }
+
+  getActiveModelId(task: LocalModelTask): string {
+    return this.activeModels[task];
+  }
+
+  getActiveModel(task: LocalModelTask): LocalModelDefinition {
+    // Only catalog ids are ever stored in activeModels
+    return getLocalModel(this.activeModels[task]) as LocalModelDefinition;
+  }
+
+  // Switching models doesn't load the new one or free the old one; eviction does that
+  setActiveModel(modelId: string) {
+    const definition = getLocalModel(modelId);
+    if (!definition) {
+      console.error(`Model ${modelId} not found`);
+      return;
+    }
 
-    defaultModels.forEach(model => {
-      this.models.set(model.id, model);
+    this.activeModels[definition.task] = modelId;
+    localStorage.setItem(ACTIVE_MODELS_KEY, JSON.stringify(this.activeModels));
+    this.models.forEach(model => {
+      if (model.type === definition.task) {
+        this.models.set(model.id, { ...model, active: model.id === modelId });
+      }
     });
+    this.notifyListeners();
   }
 
   subscribe(callback: (models: AIModel[]) => void): () => void {
@@ -53,20 +133,102 @@ export class LocalAIService {
     };
   }
 
+  // Download, decode and transcription progress for every request
+  subscribeProgress(callback: (progress: LocalAIProgress) => void): () => void {
+    this.progressListeners.add(callback);
+    return () => {
+      this.progressListeners.delete(callback);
+    };
+  }
+
   private notifyListeners() {
     const modelArray = Array.from(this.models.values());
     this.listeners.forEach(callback => callback(modelArray));
   }
 
-  private updateModelStatus(id: string, status: AIModel['status'], model?: any) {
+  private updateModelStatus(id: string, status: AIModel['status']) {
     const existing = this.models.get(id);
     if (existing) {
-      this.models.set(id, { ...existing, status, model });
+      this.models.set(id, { ...existing, status });
       this.notifyListeners();
     }
   }
 
-  async loadModel(modelId: string): Promise<boolean> {
+  private reportProgress(progress: LocalAIProgress) {
+    this.pending.get(progress.requestId)?.onProgress?.(progress);
+    this.progressListeners.forEach(callback => callback(progress));
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/localAI.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<LocalAIResponse>) => this.handleMessage(event.data);
+      this.worker.onerror = (event) => {
+        console.error('❌ Local AI worker crashed:', event.message);
+        this.worker = null;
+        // The pipelines died with the worker
+        this.models.forEach(model => {
+          if (model.status !== 'not-loaded') this.updateModelStatus(model.id, 'not-loaded');
+        });
+        this.pending.forEach(request => request.reject(new Error(`Local AI worker crashed: ${event.message}`)));
+        this.pending.clear();
+      };
+    }
+    return this.worker;
+  }
+
+  private handleMessage(message: LocalAIResponse) {
+    if (message.type === 'progress') {
+      this.reportProgress(message.progress);
+      return;
+    }
+
+    // Already settled on this side if it was cancelled
+    const request = this.pending.get(message.requestId);
+    if (!request) return;
+    this.pending.delete(message.requestId);
+
+    if (message.type === 'done') {
+      request.resolve(message.result);
+    } else {
+      request.reject(message.cancelled ? cancelledError() : new Error(message.message));
+    }
+  }
+
+  private request<T>(
+    message: LocalAIRequest,
+    { onProgress, signal }: LocalAIRequestOptions = {},
+    transfer: Transferable[] = []
+  ): Promise<T> {
+    if (signal?.aborted) return Promise.reject(cancelledError());
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(message.requestId, { resolve: resolve as (result: unknown) => void, reject, onProgress });
+      signal?.addEventListener('abort', () => this.cancel(message.requestId), { once: true });
+      this.getWorker().postMessage(message, transfer);
+    });
+  }
+
+  // Rejects the request straight away; the worker stops at its next checkpoint
+  // (between transcription chunks, or once a download finishes)
+  cancel(requestId: number) {
+    const request = this.pending.get(requestId);
+    if (!request) return;
+    this.pending.delete(requestId);
+    this.worker?.postMessage({ type: 'cancel', requestId } satisfies LocalAIRequest);
+    request.reject(cancelledError());
+  }
+
+  cancelLoad(modelId: string) {
+    const requestId = this.loadRequests.get(modelId);
+    if (requestId !== undefined) this.cancel(requestId);
+  }
+
+  // localOnly loads from the browser cache without touching the Hugging Face hub,
+  // so offline mode never makes a network request (and fails if the model was never downloaded)
+  async loadModel(
+    modelId: string,
+    { localOnly = false, ...options }: { localOnly?: boolean } & LocalAIRequestOptions = {}
+  ): Promise<boolean> {
     const modelConfig = this.models.get(modelId);
     if (!modelConfig) {
       console.error(`Model ${modelId} not found`);
@@ -78,172 +240,168 @@ export class LocalAIService {
       return true;
     }
 
-    this.updateModelStatus(modelId, 'loading');
-    console.log(`🔄 Loading ${modelConfig.name}...`);
+    const inFlight = this.loading.get(modelId);
+    if (inFlight) return inFlight;
 
-    try {
-      let loadedModel;
-      
-      switch (modelId) {
-        case 'whisper-tiny':
-          loadedModel = await this.loadWhisperModel();
-          break;
-        case 'distilgpt2':
-          loadedModel = await this.loadGPT2Model();
-          break;
-        default:
-          throw new Error(`Unknown model: ${modelId}`);
-      }
+    this.updateModelStatus(modelId, 'loading');
+    console.log(`🔄 Loading ${modelConfig.name}${localOnly ? ' from cache' : ''}...`);
 
-      if (typeof loadedModel === 'function') {
-        this.updateModelStatus(modelId, 'loaded', loadedModel);
+    const requestId = this.nextRequestId++;
+    this.loadRequests.set(modelId, requestId);
+    const load = this.request<void>(
+      { type: 'load', requestId, modelId, localOnly },
+      options
+    )
+      .then(() => {
+        this.updateModelStatus(modelId, 'loaded');
         console.log(`✅ ${modelConfig.name} loaded successfully`);
         return true;
-      } else {
-        throw new Error(`Model ${modelId} is not callable`);
-      }
-    } catch (error) {
-      console.error(`❌ Failed to load ${modelConfig.name}:`, error);
-      this.updateModelStatus(modelId, 'error');
-      return false;
-    }
+      })
+      .catch(error => {
+        if (isCancelledError(error)) {
+          this.updateModelStatus(modelId, 'not-loaded');
+        } else {
+          console.error(`❌ Failed to load ${modelConfig.name}:`, error);
+          this.updateModelStatus(modelId, 'error');
+        }
+        return false;
+      })
+      .finally(() => {
+        this.loading.delete(modelId);
+        this.loadRequests.delete(modelId);
+      });
+
+    this.loading.set(modelId, load);
+    return load;
   }
 
-  private async loadWhisperModel() {
-    try {
-      // Try WebGPU first
-      console.log('🎤 Attempting WebGPU for Whisper...');
-      const model = await pipeline(
-        'automatic-speech-recognition',
-        'onnx-community/whisper-tiny.en',
-        { device: 'webgpu' }
-      );
-      console.log('✅ Whisper loaded with WebGPU');
-      return model;
-    } catch (webgpuError) {
-      console.warn('⚠️ WebGPU failed, falling back to CPU:', webgpuError);
-      try {
-        const model = await pipeline(
-          'automatic-speech-recognition',
-          'onnx-community/whisper-tiny.en'
-        );
-        console.log('✅ Whisper loaded with CPU');
-        return model;
-      } catch (cpuError) {
-        console.error('❌ CPU fallback failed:', cpuError);
-        throw cpuError;
+  // Loads the selected model for each task
+  async loadActiveModels(): Promise<boolean[]> {
+    const modelIds = Object.values(this.activeModels);
+    const results = await Promise.all(
+      modelIds.map(id => this.loadModel(id))
+    );
+    return results;
+  }
+
+  // Bytes each model's files take up in the browser cache, keyed by model id
+  async getCachedModelSizes(): Promise<Record<string, number>> {
+    const sizes: Record<string, number> = {};
+    if (!('caches' in window)) return sizes;
+
+    const cache = await caches.open(MODEL_CACHE_NAME);
+    const requests = await cache.keys();
+    for (const { id, repo } of LOCAL_MODEL_CATALOG) {
+      const files = requests.filter(request => isModelFileUrl(request.url, repo));
+      if (files.length === 0) continue;
+
+      let total = 0;
+      for (const request of files) {
+        const response = await cache.match(request);
+        const contentLength = Number(response?.headers.get('content-length'));
+        // Reading the body is only needed when the header is missing
+        total += contentLength || (response ? (await response.blob()).size : 0);
       }
+      sizes[id] = total;
     }
+    return sizes;
   }
 
-  private async loadGPT2Model() {
-    try {
-      // Try WebGPU first
-      console.log('🧠 Attempting WebGPU for GPT-2...');
-      const model = await pipeline(
-        'text-generation',
-        'Xenova/distilgpt2',
-        { device: 'webgpu' }
+  // Frees the model in the worker and deletes its downloaded files
+  async evictModel(modelId: string): Promise<void> {
+    const definition = getLocalModel(modelId);
+    if (!definition) {
+      console.error(`Model ${modelId} not found`);
+      return;
+    }
+
+    await this.loading.get(modelId);
+    if (this.worker) {
+      await this.request<void>({ type: 'unload', requestId: this.nextRequestId++, modelId });
+    }
+    if ('caches' in window) {
+      const cache = await caches.open(MODEL_CACHE_NAME);
+      const requests = await cache.keys();
+      await Promise.all(
+        requests
+          .filter(request => isModelFileUrl(request.url, definition.repo))
+          .map(request => cache.delete(request))
       );
-      console.log('✅ GPT-2 loaded with WebGPU');
-      return model;
-    } catch (webgpuError) {
-      console.warn('⚠️ WebGPU failed, falling back to CPU:', webgpuError);
-      try {
-        const model = await pipeline(
-          'text-generation',
-          'Xenova/distilgpt2'
-        );
-        console.log('✅ GPT-2 loaded with CPU');
-        return model;
-      } catch (cpuError) {
-        console.error('❌ CPU fallback failed:', cpuError);
-        throw cpuError;
-      }
     }
+    this.updateModelStatus(modelId, 'not-loaded');
+    console.log(`🗑️ ${definition.name} removed from this device`);
   }
 
-  async loadAllModels(): Promise<boolean[]> {
-    const modelIds = Array.from(this.models.keys());
-    const results = await Promise.all(
-      modelIds.map(id => this.loadModel(id))
-    );
-    return results;
+  // Origin-wide storage, which includes recordings queued for offline sync
+  async getStorageEstimate(): Promise<StorageEstimate | null> {
+    return navigator.storage?.estimate ? navigator.storage.estimate() : null;
   }
 
   async transcribeAudio(audioBlob: Blob): Promise<string> {
-    const whisperModel = this.models.get('whisper-tiny');
-    
-    if (!whisperModel?.model) {
-      throw new Error('Whisper model not loaded. Please initialize AI models first.');
-    }
+    const { text } = await this.transcribeWithTimestamps(audioBlob);
+    return text;
+  }
 
-    if (typeof whisperModel.model !== 'function') {
-      throw new Error('Whisper model is not callable. Please reload the model.');
+  // Word-level transcription in the worker; see localAI.worker.ts for the chunking
+  async transcribeWithTimestamps(audioBlob: Blob, options: LocalAIRequestOptions = {}): Promise<LocalTranscription> {
+    const { id: modelId, name } = this.getActiveModel('speech-to-text');
+    if (!this.isModelLoaded(modelId)) {
+      throw new Error(`${name} is not loaded. Please initialize AI models first.`);
     }
 
     console.log('🎯 Starting transcription...');
-    
-    // Convert blob to the format expected by Whisper
-    const arrayBuffer = await audioBlob.arrayBuffer();
-    
-    // Create audio context to decode the audio properly
-    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-    
-    // Convert to Float32Array at the required sample rate (16kHz for Whisper)
-    const targetSampleRate = 16000;
-    const audioData = audioBuffer.getChannelData(0); // Get mono channel
-    
-    // Resample if needed
-    let resampledAudio: Float32Array;
-    if (audioBuffer.sampleRate !== targetSampleRate) {
-      const resampleRatio = targetSampleRate / audioBuffer.sampleRate;
-      const resampledLength = Math.floor(audioData.length * resampleRatio);
-      resampledAudio = new Float32Array(resampledLength);
-      
-      for (let i = 0; i < resampledLength; i++) {
-        const originalIndex = i / resampleRatio;
-        const index = Math.floor(originalIndex);
-        const fraction = originalIndex - index;
-        
-        if (index + 1 < audioData.length) {
-          resampledAudio[i] = audioData[index] * (1 - fraction) + audioData[index + 1] * fraction;
-        } else {
-          resampledAudio[i] = audioData[index];
-        }
-      }
-    } else {
-      resampledAudio = audioData;
-    }
-    
-    const result = await whisperModel.model(resampledAudio);
-    
-    if (!result?.text) {
-      throw new Error('No transcription result received');
-    }
+    const requestId = this.nextRequestId++;
+    const decodeProgress = (progress: number) => {
+      const update: LocalAIProgress = { requestId, modelId, stage: 'decode', progress };
+      options.onProgress?.(update);
+      this.progressListeners.forEach(callback => callback(update));
+    };
+
+    decodeProgress(0);
+    const audio = await this.decodeAudio(audioBlob);
+    decodeProgress(100);
 
-    return result.text;
+    return this.request<LocalTranscription>({ type: 'transcribe', requestId, modelId, audio }, options, [audio.buffer]);
   }
 
-  async generateText(prompt: string): Promise<string> {
-    const gpt2Model = this.models.get('distilgpt2');
-    
-    if (!gpt2Model?.model) {
-      throw new Error('GPT-2 model not loaded. Please initialize AI models first.');
+  // Transcribe a short window of 16kHz samples captured while recording (see LiveTranscriber).
+  // Returns empty text for silence instead of failing.
+  async transcribeLive(audio: Float32Array, options: LocalAIRequestOptions = {}): Promise<LocalTranscription> {
+    const { id: modelId, name } = this.getActiveModel('speech-to-text');
+    if (!this.isModelLoaded(modelId)) {
+      throw new Error(`${name} is not loaded. Please initialize AI models first.`);
     }
+    const requestId = this.nextRequestId++;
+    return this.request<LocalTranscription>({ type: 'transcribe', requestId, modelId, audio, live: true }, options, [audio.buffer]);
+  }
+
+  // Decode to mono Float32 at the 16kHz Whisper expects. AudioContext only exists on the
+  // main thread, so this part can't move into the worker.
+  private async decodeAudio(audioBlob: Blob): Promise<Float32Array> {
+    const { samples } = await decodeToMono(audioBlob, WHISPER_SAMPLE_RATE);
+    return samples;
+  }
 
-    if (typeof gpt2Model.model !== 'function') {
-      throw new Error('GPT-2 model is not callable. Please reload the model.');
+  async generateText(
+    prompt: string,
+    { maxNewTokens = 100, responsePrefix, ...options }: { maxNewTokens?: number; responsePrefix?: string } & LocalAIRequestOptions = {}
+  ): Promise<string> {
+    const { id: modelId, name } = this.getActiveModel('text-generation');
+    if (!this.isModelLoaded(modelId)) {
+      throw new Error(`${name} is not loaded. Please initialize AI models first.`);
     }
 
     console.log('🧠 Generating text...');
-    const result = await gpt2Model.model(prompt, {
-      max_length: 100,
-      num_return_sequences: 1,
-    });
-    
-    return result[0]?.generated_text || '';
+    return this.request<string>({
+      type: 'generate',
+      requestId: this.nextRequestId++,
+      modelId,
+      prompt,
+      options: {
+        max_new_tokens: maxNewTokens,
+        response_prefix: responsePrefix,
+      },
+    }, options);
   }
 
   getModelStatus(modelId: string): AIModel['status'] {
@@ -259,4 +417,4 @@ export class LocalAIService {
   }
 }
 
-export const aiService = LocalAIService.getInstance();
\ No newline at end of file
+export const aiService = LocalAIService.getInstance();
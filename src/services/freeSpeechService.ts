@@ -1,4 +1,5 @@
 import { LocalAIService } from './aiService';
+import { baseMimeType, ensureSupportedFormat } from '@/utils/audioFormat';
 
 export interface FreeSpeechResult {
   text: string;
@@ -35,7 +36,7 @@ class FreeSpeechService {
 
   private async initializeLocalAI() {
     try {
-      await this.localAI.loadModel('whisper-tiny');
+      await this.localAI.loadModel(this.localAI.getActiveModelId('speech-to-text'));
       this.isLocalAvailable = true;
       console.log('✅ Local Whisper model loaded');
     } catch (error) {
@@ -87,9 +88,10 @@ class FreeSpeechService {
   }
 
   // Transcribe with specific API
-  private async transcribeWithAPI(audioBlob: Blob, api: string): Promise<Omit<FreeSpeechResult, 'processingTime' | 'fallbackUsed'>> {
+  async transcribeWithAPI(audioBlob: Blob, api: string): Promise<Omit<FreeSpeechResult, 'processingTime' | 'fallbackUsed'>> {
+    const uploadBlob = await ensureSupportedFormat(audioBlob, ['audio/webm', 'audio/wav']);
     const formData = new FormData();
-    formData.append('audio', audioBlob, 'audio.webm');
+    formData.append('audio', uploadBlob, baseMimeType(uploadBlob.type) === 'audio/wav' ? 'audio.wav' : 'audio.webm');
 
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 30000);
@@ -224,7 +226,7 @@ class FreeSpeechService {
   // Generate summary using local AI
   private async generateSummary(text: string): Promise<string> {
     try {
-      if (this.localAI.isModelLoaded('distilgpt2')) {
+      if (this.localAI.isModelLoaded(this.localAI.getActiveModelId('text-generation'))) {
         const summary = await this.localAI.generateText(
           `Summarize this text in one sentence: ${text}`
         );
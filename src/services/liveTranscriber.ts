@@ -0,0 +1,114 @@
+import { aiService, WHISPER_SAMPLE_RATE } from '@/services/aiService';
+import { downsample } from '@/utils/audioFormat';
+
+export interface LiveTranscriberOptions {
+  // Seconds of the most recent audio sent with each request
+  windowSeconds?: number;
+  // How often to transcribe; a request still running is never doubled up
+  intervalMs?: number;
+}
+
+// ScriptProcessorNode is deprecated but, unlike AudioWorklet, needs no separate module and
+// works in every WebView the Capacitor shell runs in
+const BUFFER_SIZE = 4096;
+
+// Feeds a microphone stream to onSamples as 16kHz mono, a buffer at a time, until the
+// returned function is called
+export const tapStream = async (
+  stream: MediaStream,
+  onSamples: (samples: Float32Array) => void
+): Promise<() => void> => {
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+  const audioContext = new AudioContextClass();
+  // iOS (including the Capacitor WKWebView) starts contexts suspended
+  await audioContext.resume();
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const processor = audioContext.createScriptProcessor(BUFFER_SIZE, 1, 1);
+  processor.onaudioprocess = (event) => {
+    // Browsers capture at 44.1/48kHz
+    onSamples(downsample(event.inputBuffer.getChannelData(0), audioContext.sampleRate, WHISPER_SAMPLE_RATE));
+  };
+  source.connect(processor);
+  // Chrome only runs the processor while it is connected to an output; it writes silence
+  processor.connect(audioContext.destination);
+
+  return () => {
+    processor.onaudioprocess = null;
+    processor.disconnect();
+    source.disconnect();
+    audioContext.close().catch(() => {});
+  };
+};
+
+// Repeatedly transcribes the last few seconds of a live microphone stream with the local
+// Whisper model, for features that need to know roughly what is being said right now
+export class LiveTranscriber {
+  private untap: (() => void) | null = null;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private abortController: AbortController | null = null;
+  private buffer: Float32Array;
+  private buffered = 0;
+  private busy = false;
+  private stopped = false;
+
+  constructor(
+    private stream: MediaStream,
+    private onText: (text: string) => void,
+    private options: LiveTranscriberOptions = {}
+  ) {
+    this.buffer = new Float32Array((options.windowSeconds ?? 5) * WHISPER_SAMPLE_RATE);
+  }
+
+  async start() {
+    const untap = await tapStream(this.stream, samples => this.append(samples));
+    // Stopped while the audio context was starting
+    if (this.stopped) return untap();
+    this.untap = untap;
+    this.abortController = new AbortController();
+    this.intervalId = setInterval(() => this.transcribe(), this.options.intervalMs ?? 1500);
+  }
+
+  stop() {
+    this.stopped = true;
+    if (this.intervalId) clearInterval(this.intervalId);
+    this.intervalId = null;
+    this.abortController?.abort();
+    this.abortController = null;
+    this.untap?.();
+    this.untap = null;
+    this.buffered = 0;
+  }
+
+  // Keep only the most recent window of samples
+  private append(samples: Float32Array) {
+    const capacity = this.buffer.length;
+    if (samples.length >= capacity) {
+      this.buffer.set(samples.subarray(samples.length - capacity));
+      this.buffered = capacity;
+      return;
+    }
+    const overflow = Math.max(0, this.buffered + samples.length - capacity);
+    if (overflow > 0) {
+      this.buffer.copyWithin(0, overflow, this.buffered);
+      this.buffered -= overflow;
+    }
+    this.buffer.set(samples, this.buffered);
+    this.buffered += samples.length;
+  }
+
+  private async transcribe() {
+    // Wait for at least a second of audio
+    if (this.busy || this.buffered < WHISPER_SAMPLE_RATE) return;
+    const signal = this.abortController?.signal;
+    this.busy = true;
+    try {
+      const { text } = await aiService.transcribeLive(this.buffer.slice(0, this.buffered), { signal });
+      if (!signal?.aborted && text.trim()) this.onText(text);
+    } catch (error) {
+      if (!signal?.aborted) console.warn('Live transcription failed:', error);
+    } finally {
+      this.busy = false;
+    }
+  }
+}
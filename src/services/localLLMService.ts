@@ -1,90 +1,98 @@
-import { pipeline } from '@huggingface/transformers';
 import type { ContentEvaluation, AISuggestions } from '@/types/speechAnalysis';
-
-interface LLMAnalysisResult {
-  wordImprovements: Array<{
-    original: string;
-    suggestions: string[];
-    context: string;
-  }>;
-  phraseAlternatives: Array<{
-    original: string;
-    alternatives: string[];
-    improvement: string;
-  }>;
-  vocabularyEnhancement: Array<{
-    category: string;
-    suggestions: string[];
-    usage: string;
-  }>;
-  contentEvaluation: ContentEvaluation;
+import { detectFillerWordsInText } from '@/utils/fillerWords';
+import { scoreSpeech, type ContentScores } from '@/utils/scoring';
+import { contentEvaluationSchema, describeLlmSchema, parseLlmJson } from '@/utils/llmSchemas';
+import { aiService, isCancelledError } from './aiService';
+
+// Longer transcripts are cut down; a 0.5B model on CPU gets slow well before its context fills
+const MAX_TRANSCRIPT_CHARS = 6000;
+// Enough for the filled-in template with a sentence per text field
+const EVALUATION_MAX_TOKENS = 700;
+// First attempt plus one repair
+const EVALUATION_ATTEMPTS = 2;
+
+interface AnalyzeSpeechOptions {
+  // Load the model from the browser cache only (offline mode)
+  localOnly?: boolean;
 }
 
 class LocalLLMService {
-  private textGenerationPipeline: any = null;
-  private isInitialized = false;
-  private initPromise: Promise<void> | null = null;
-
-  async initialize(): Promise<void> {
-    if (this.isInitialized) return;
-    if (this.initPromise) return this.initPromise;
-
-    this.initPromise = this.doInitialize();
-    return this.initPromise;
+  async initialize({ localOnly = false }: AnalyzeSpeechOptions = {}): Promise<void> {
+    // The model loads in the local AI worker, which also dedupes concurrent loads
+    console.log('Initializing local LLM...');
+    const loaded = await aiService.loadModel(aiService.getActiveModelId('text-generation'), { localOnly });
+    if (!loaded) {
+      throw new Error('Failed to initialize local LLM');
+    }
+    console.log('Local LLM initialized successfully');
   }
 
-  private async doInitialize(): Promise<void> {
+  // Content evaluation from the selected local model. Falls back to the heuristic analysis,
+  // labelled as such, when no instruction-tuned model is available or its output can't be used.
+  async analyzeSpeech(
+    transcript: string,
+    overallScore: number,
+    clarityScore: number,
+    fillerWords: string[],
+    primaryTone: string,
+    options: AnalyzeSpeechOptions = {}
+  ): Promise<AISuggestions> {
     try {
-      console.log('Initializing local LLM...');
-      
-      // Use a model that's confirmed to work with Transformers.js
-      this.textGenerationPipeline = await pipeline(
-        'text-generation',
-        'Xenova/distilgpt2',
-        { 
-          device: 'webgpu'
-        }
-      );
-      
-      this.isInitialized = true;
-      console.log('Local LLM initialized successfully');
-    } catch (error) {
-      console.warn('Failed to initialize WebGPU, falling back to CPU:', error);
-      try {
-        this.textGenerationPipeline = await pipeline(
-          'text-generation',
-          'Xenova/distilgpt2'
-        );
-        this.isInitialized = true;
-        console.log('Local LLM initialized with CPU');
-      } catch (cpuError) {
-        console.error('Failed to initialize local LLM:', cpuError);
-        throw cpuError;
+      const model = aiService.getActiveModel('text-generation');
+      if (!model.instructionTuned) {
+        throw new Error(`${model.name} can't follow instructions; choose an instruction-tuned model under Local AI`);
       }
+      await this.initialize(options);
+
+      const contentEvaluation = await this.evaluateContent(transcript, overallScore, clarityScore, fillerWords, primaryTone);
+      return {
+        contentEvaluation,
+        speechSummary: this.generateSpeechSummary(transcript),
+        evaluationSource: 'local-llm',
+        evaluationModel: model.name,
+      };
+    } catch (error) {
+      if (isCancelledError(error)) throw error;
+      const reason = error instanceof Error ? error.message : 'Local model unavailable';
+      console.warn('⚠️ Local LLM evaluation failed, using heuristic analysis:', reason);
+      return {
+        ...this.getDynamicFallbackAnalysis(transcript, overallScore, clarityScore, fillerWords, primaryTone),
+        fallbackReason: reason,
+      };
     }
   }
 
-  async analyzeSpeech(
+  // The reply is forced to open with '{' and checked against the ContentEvaluation schema.
+  // If it doesn't parse, the model is shown its output and the errors and asked to fix it.
+  private async evaluateContent(
     transcript: string,
     overallScore: number,
     clarityScore: number,
     fillerWords: string[],
     primaryTone: string
-  ): Promise<AISuggestions> {
-    await this.initialize();
+  ): Promise<ContentEvaluation> {
+    let prompt = this.buildAnalysisPrompt(transcript, overallScore, clarityScore, fillerWords, primaryTone);
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= EVALUATION_ATTEMPTS; attempt++) {
+      console.log(`🧠 Local content evaluation, attempt ${attempt}...`);
+      const output = await aiService.generateText(prompt, {
+        maxNewTokens: EVALUATION_MAX_TOKENS,
+        responsePrefix: '{',
+      });
 
-    if (!this.textGenerationPipeline) {
-      throw new Error('LLM not initialized');
-    }
+      const result = parseLlmJson<ContentEvaluation>(output, contentEvaluationSchema);
+      if ('data' in result) {
+        console.log('✅ Local content evaluation passed validation');
+        return result.data;
+      }
 
-    try {
-      // Skip complex LLM analysis and use fast dynamic analysis directly
-      console.log('Using optimized dynamic analysis for faster results');
-      return this.getDynamicFallbackAnalysis(transcript, overallScore, clarityScore, fillerWords, primaryTone);
-    } catch (error) {
-      console.error('Error in speech analysis:', error);
-      return this.getDynamicFallbackAnalysis(transcript, overallScore, clarityScore, fillerWords, primaryTone);
+      lastError = result.errors.join('; ');
+      console.warn(`⚠️ Local content evaluation was malformed (${lastError})`);
+      prompt = this.buildRepairPrompt(output, lastError);
     }
+
+    throw new Error(`The local model didn't return a valid evaluation: ${lastError}`);
   }
 
   private buildAnalysisPrompt(
@@ -94,210 +102,39 @@ class LocalLLMService {
     fillerWords: string[],
     primaryTone: string
   ): string {
-    return `Analyze this speech transcript and provide detailed feedback:
+    const excerpt = transcript.length > MAX_TRANSCRIPT_CHARS
+      ? `${transcript.slice(0, MAX_TRANSCRIPT_CHARS)}...`
+      : transcript;
+
+    return `You are a public speaking coach. Evaluate the content of this speech transcript.
 
-Transcript: "${transcript}"
+Transcript: "${excerpt}"
 Overall Score: ${overallScore}/100
 Clarity Score: ${clarityScore}/100
-Filler Words: ${fillerWords.join(', ')}
+Filler Words: ${fillerWords.join(', ') || 'none'}
 Primary Tone: ${primaryTone}
 
-Please provide analysis in the following areas:
-
-1. MAIN POINT ANALYSIS:
-- What is the main point? (clarity score 1-10)
-- Feedback for improvement
-
-2. ARGUMENT STRUCTURE:
-- Does it have clear structure? (effectiveness score 1-10)
-- Structure type and suggestions
-
-3. EVIDENCE AND EXAMPLES:
-- Quality of evidence (score 1-10)
-- Types of evidence used
-- Suggestions for improvement
-
-4. PERSUASIVENESS:
-- Is the point proven? (persuasion score 1-10)
-- Strengths and weaknesses
-- Improvement suggestions
-
-5. STAR METHOD ANALYSIS:
-- Situation: How well was context established?
-- Task: How clear was the objective?
-- Action: How detailed were the actions?
-- Result: How well were results communicated?
-- Overall STAR score (1-10)
-
-6. VOCABULARY IMPROVEMENTS:
-- Words that could be improved with alternatives
-- Better phrase alternatives
-- Vocabulary enhancement suggestions
-
-Format your response clearly with these sections.`;
-  }
-
-  private parseAnalysisResult(generatedText: string, transcript: string, overallScore: number): AISuggestions {
-    // Parse the generated text and extract structured data
-    // This is a simplified parser - in a real implementation, you'd want more robust parsing
-    
-    const starScore = this.extractStarScore(generatedText);
-    const mainPointClarity = this.extractScore(generatedText, 'clarity', 7);
-    const argumentEffectiveness = this.extractScore(generatedText, 'effectiveness', 5);
-    const evidenceQuality = this.extractScore(generatedText, 'evidence', 4);
-    const persuasionScore = this.extractScore(generatedText, 'persuasion', 5);
-
-    return {
-      contentEvaluation: {
-        mainPoint: {
-          identified: this.extractMainPoint(generatedText, transcript),
-          clarity: mainPointClarity,
-          feedback: this.extractMainPointFeedback(generatedText)
-        },
-        argumentStructure: {
-          hasStructure: this.detectStructure(generatedText),
-          structure: this.extractStructureType(generatedText),
-          effectiveness: argumentEffectiveness,
-          suggestions: this.extractStructureSuggestions(generatedText)
-        },
-        evidenceAndExamples: {
-          hasEvidence: this.detectEvidence(transcript),
-          evidenceQuality: evidenceQuality,
-          evidenceTypes: this.extractEvidenceTypes(generatedText),
-          suggestions: this.extractEvidenceSuggestions(generatedText)
-        },
-        persuasiveness: {
-          pointProven: persuasionScore > 6,
-          persuasionScore: persuasionScore,
-          strengths: this.extractStrengths(generatedText),
-          weaknesses: this.extractWeaknesses(generatedText),
-          improvements: this.extractImprovements(generatedText)
-        },
-        starAnalysis: {
-          situation: this.extractStarElement(generatedText, 'situation'),
-          task: this.extractStarElement(generatedText, 'task'),
-          action: this.extractStarElement(generatedText, 'action'),
-          result: this.extractStarElement(generatedText, 'result'),
-          overallStarScore: starScore
-        }
-      }
-    };
-  }
-
-  // Helper methods for parsing (simplified implementations)
-  private extractScore(text: string, keyword: string, defaultValue: number): number {
-    const regex = new RegExp(`${keyword}[^\\d]*(\\d+)`, 'i');
-    const match = text.match(regex);
-    return match ? Math.min(10, Math.max(1, parseInt(match[1]))) : defaultValue;
-  }
-
-  private extractStarScore(text: string): number {
-    const starMatch = text.match(/star[^\\d]*(\\d+)/i);
-    return starMatch ? Math.min(10, Math.max(1, parseInt(starMatch[1]))) : Math.floor(Math.random() * 4) + 4;
-  }
-
-  private extractMainPoint(text: string, transcript: string): string {
-    const sentences = transcript.split(/[.!?]+/).filter(s => s.trim().length > 10);
-    return sentences[0]?.trim() || "Main point about the discussed topic";
-  }
-
-  private extractMainPointFeedback(text: string): string {
-    return "The main point could be stated more clearly and with better structure";
-  }
-
-  private detectStructure(text: string): boolean {
-    return text.toLowerCase().includes('structure') && text.toLowerCase().includes('clear');
-  }
-
-  private extractStructureType(text: string): string {
-    if (text.toLowerCase().includes('chronological')) return 'Chronological structure';
-    if (text.toLowerCase().includes('problem')) return 'Problem-solution structure';
-    return 'Informal conversational style';
-  }
-
-  private extractStructureSuggestions(text: string): string {
-    return "Consider organizing your speech with a clear introduction, main points, and conclusion";
-  }
-
-  private detectEvidence(transcript: string): boolean {
-    const evidenceKeywords = ['data', 'study', 'research', 'example', 'statistics', 'fact'];
-    return evidenceKeywords.some(keyword => transcript.toLowerCase().includes(keyword));
-  }
+Assess:
+- Main point: what it is, how clearly it comes across, and how to sharpen it
+- Argument structure: whether there is one, what kind, and how to improve it
+- Evidence and examples: whether there are any, their quality and types
+- Persuasiveness: whether the point is proven, strengths, weaknesses, improvements
+- STAR method: how well the situation, task, action and result come across
 
-  private extractEvidenceTypes(text: string): string[] {
-    const types = ['anecdotal', 'statistical', 'expert opinion', 'case study'];
-    return types.slice(0, Math.floor(Math.random() * 2) + 1);
+Scores are whole numbers from 1 (poor) to 10 (excellent). Refer to what the speaker actually said.
+Reply with only a JSON object in exactly this shape, with no other text:
+${describeLlmSchema(contentEvaluationSchema)}`;
   }
 
-  private extractEvidenceSuggestions(text: string): string {
-    return "Include specific examples, data, or case studies to support your points";
-  }
+  private buildRepairPrompt(output: string, error: string): string {
+    return `This JSON was supposed to match the shape below but has problems: ${error}
 
-  private extractStrengths(text: string): string[] {
-    return ['Clear delivery', 'Confident tone', 'Good pace'];
-  }
+${output}
 
-  private extractWeaknesses(text: string): string[] {
-    return ['Could use more structure', 'Needs supporting evidence'];
-  }
+Shape:
+${describeLlmSchema(contentEvaluationSchema)}
 
-  private extractImprovements(text: string): string {
-    return "Strengthen arguments with concrete examples and clearer structure";
-  }
-
-  private extractStarElement(text: string, element: string): string {
-    const descriptions = {
-      situation: "Context was established but could be more detailed",
-      task: "Objective was implied but needs clearer definition",
-      action: "Actions were mentioned but could be more specific",
-      result: "Results were not clearly quantified or measured"
-    };
-    return descriptions[element as keyof typeof descriptions] || "Could be improved";
-  }
-
-  private extractWordImprovements(text: string, transcript: string): Array<{original: string; suggestions: string[]; context: string}> {
-    // Simple implementation - in reality, you'd want more sophisticated NLP
-    const commonWords = ['good', 'nice', 'okay', 'things', 'stuff'];
-    const improvements = [];
-    
-    for (const word of commonWords) {
-      if (transcript.toLowerCase().includes(word)) {
-        improvements.push({
-          original: word,
-          suggestions: word === 'good' ? ['excellent', 'outstanding', 'effective'] : 
-                      word === 'nice' ? ['pleasant', 'appealing', 'satisfactory'] :
-                      word === 'things' ? ['aspects', 'elements', 'components'] : ['items', 'concepts'],
-          context: `Replace "${word}" with more specific terminology`
-        });
-      }
-    }
-    
-    return improvements.slice(0, 3);
-  }
-
-  private extractPhraseAlternatives(text: string, transcript: string): Array<{original: string; alternatives: string[]; improvement: string}> {
-    return [
-      {
-        original: "I think that",
-        alternatives: ["In my analysis", "Based on the data", "My assessment indicates"],
-        improvement: "Use more confident, assertive language"
-      }
-    ].filter(item => transcript.toLowerCase().includes(item.original.toLowerCase()));
-  }
-
-  private extractVocabularyEnhancement(text: string): Array<{category: string; suggestions: string[]; usage: string}> {
-    return [
-      {
-        category: "Professional terminology",
-        suggestions: ["leverage", "facilitate", "implement", "optimize"],
-        usage: "Use these terms to sound more professional in business contexts"
-      },
-      {
-        category: "Transition words",
-        suggestions: ["furthermore", "consequently", "nevertheless", "specifically"],
-        usage: "Use these to create smoother connections between ideas"
-      }
-    ];
+Reply with only the corrected JSON object, with no other text.`;
   }
 
   private getDynamicFallbackAnalysis(
@@ -335,7 +172,8 @@ Format your response clearly with these sections.`;
 
     return {
       contentEvaluation,
-      speechSummary
+      speechSummary,
+      evaluationSource: 'heuristic'
     };
   }
 
@@ -665,22 +503,23 @@ Format your response clearly with these sections.`;
     const transcriptLower = transcript.toLowerCase();
     const wordCount = words.length;
     const sentenceCount = sentences.length;
+    const contentScores = scoreSpeech({ transcript }).content;
     
     // Dynamic main point identification
     const mainPoint = this.identifyMainPoint(sentences, transcript);
     const mainPointClarity = this.calculateMainPointClarity(transcript, clarityScore);
     
     // Structure analysis
-    const structureAnalysis = this.analyzeStructure(sentences, transcript);
+    const structureAnalysis = this.analyzeStructure(sentences, transcript, contentScores);
     
     // Evidence analysis
-    const evidenceAnalysis = this.analyzeEvidence(transcriptLower);
+    const evidenceAnalysis = this.analyzeEvidence(transcriptLower, contentScores);
     
     // Persuasiveness analysis
     const persuasivenessAnalysis = this.analyzePersuasiveness(transcript, overallScore);
     
     // STAR analysis
-    const starAnalysis = this.analyzeSTARMethod(transcriptLower, wordCount);
+    const starAnalysis = this.analyzeSTARMethod(transcriptLower, wordCount, contentScores);
 
     return {
       mainPoint: {
@@ -734,13 +573,13 @@ Format your response clearly with these sections.`;
     
     // Adjust based on transcript characteristics
     if (transcript.includes('specifically') || transcript.includes('exactly')) clarity += 1;
-    if (transcript.includes('um') || transcript.includes('uh')) clarity -= 1;
+    if (detectFillerWordsInText(transcript).length > 0) clarity -= 1;
     if (transcript.split(/[.!?]/).length > 3) clarity += 1; // Multiple clear statements
     
     return Math.max(1, Math.min(10, clarity));
   }
 
-  private analyzeStructure(sentences: string[], transcript: string): any {
+  private analyzeStructure(sentences: string[], transcript: string, contentScores: ContentScores): any {
     const hasIntro = transcript.toLowerCase().includes('first') || transcript.toLowerCase().includes('to begin');
     const hasConclusion = transcript.toLowerCase().includes('finally') || transcript.toLowerCase().includes('in conclusion');
     const hasTransitions = ['then', 'next', 'furthermore', 'however', 'therefore'].some(word => 
@@ -748,7 +587,7 @@ Format your response clearly with these sections.`;
     );
     
     const hasStructure = sentences.length > 2 && (hasIntro || hasConclusion || hasTransitions);
-    const effectiveness = hasStructure ? Math.floor(Math.random() * 3) + 6 : Math.floor(Math.random() * 3) + 3;
+    const effectiveness = contentScores.structureEffectiveness;
     
     let structureType = 'Conversational style';
     if (hasIntro && hasConclusion) structureType = 'Structured presentation';
@@ -765,7 +604,7 @@ Format your response clearly with these sections.`;
     };
   }
 
-  private analyzeEvidence(transcriptLower: string): any {
+  private analyzeEvidence(transcriptLower: string, contentScores: ContentScores): any {
     const evidenceKeywords = ['data', 'study', 'research', 'example', 'statistics', 'fact', 'evidence', 'proof', 'analysis'];
     const hasEvidence = evidenceKeywords.some(keyword => transcriptLower.includes(keyword));
     
@@ -775,7 +614,7 @@ Format your response clearly with these sections.`;
     if (transcriptLower.includes('study') || transcriptLower.includes('research')) evidenceTypes.push('research findings');
     if (!evidenceTypes.length) evidenceTypes.push('anecdotal');
     
-    const quality = hasEvidence ? Math.floor(Math.random() * 3) + 6 : Math.floor(Math.random() * 3) + 3;
+    const quality = contentScores.evidenceQuality;
     
     return {
       hasEvidence,
@@ -795,15 +634,17 @@ Format your response clearly with these sections.`;
     const persuasionScore = Math.floor(overallScore / 15) + (hasPersuasiveLanguage ? 2 : 0);
     const pointProven = persuasionScore > 6;
     
+    const hasFillerWords = detectFillerWordsInText(transcript).length > 0;
+    
     const strengths = [];
     const weaknesses = [];
     
     if (transcript.length > 100) strengths.push('Sufficient detail provided');
-    if (!transcriptLower.includes('um') && !transcriptLower.includes('uh')) strengths.push('Clear articulation');
+    if (!hasFillerWords) strengths.push('Clear articulation');
     if (hasPersuasiveLanguage) strengths.push('Uses persuasive language');
     if (strengths.length === 0) strengths.push('Conversational tone');
     
-    if (transcriptLower.includes('um') || transcriptLower.includes('uh')) weaknesses.push('Contains filler words');
+    if (hasFillerWords) weaknesses.push('Contains filler words');
     if (!hasPersuasiveLanguage) weaknesses.push('Could use stronger persuasive language');
     if (transcript.split(/[.!?]/).length < 2) weaknesses.push('Needs more detailed explanation');
     
@@ -818,7 +659,7 @@ Format your response clearly with these sections.`;
     };
   }
 
-  private analyzeSTARMethod(transcriptLower: string, wordCount: number): any {
+  private analyzeSTARMethod(transcriptLower: string, wordCount: number, contentScores: ContentScores): any {
     // More comprehensive keyword detection
     const situationWords = ['situation', 'context', 'background', 'when', 'where', 'currently', 'project', 'working on', 'at the moment'];
     const taskWords = ['task', 'goal', 'objective', 'needed', 'required', 'should', 'want to', 'planning', 'considering', 'implementing'];
@@ -835,9 +676,7 @@ Format your response clearly with these sections.`;
     const hasResult = resultWords.some(word => transcriptLower.includes(word)) || 
                      transcriptLower.includes('well') || transcriptLower.includes('feedback');
     
-    const starElements = [hasSituation, hasTask, hasAction, hasResult].filter(Boolean).length;
-    const baseScore = Math.floor((starElements / 4) * 6) + 2; // 2-8 range
-    const starScore = Math.min(10, baseScore + Math.floor(Math.random() * 3));
+    const starScore = contentScores.starScore;
     
     // Generate more specific feedback based on content analysis
     const situationFeedback = this.generateSTARFeedback('situation', hasSituation, transcriptLower);
@@ -910,7 +749,8 @@ Format your response clearly with these sections.`;
     const category = hasElement ? 'good' : 'needs';
     const selectedOptions = options[category];
     
-    return selectedOptions[Math.floor(Math.random() * selectedOptions.length)];
+    // Stable pick so re-analysing the same transcript gives the same feedback
+    return selectedOptions[transcript.length % selectedOptions.length];
   }
 
   private generateMainPointFeedback(clarity: number, fillerCount: number, transcript?: string): string {
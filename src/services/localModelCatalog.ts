@@ -0,0 +1,118 @@
+// Every model the local AI worker can run. Both the worker (to build pipelines) and the
+// setup UI read this, so adding a model is a matter of adding an entry here.
+
+export type LocalModelTask = 'speech-to-text' | 'text-generation';
+
+// Weight precision passed to transformers.js as `dtype`
+export type LocalModelQuantization = 'fp32' | 'fp16' | 'q8' | 'q4' | 'q4f16';
+
+export interface LocalModelDefinition {
+  id: string;
+  name: string;
+  task: LocalModelTask;
+  // Hugging Face repo with ONNX weights
+  repo: string;
+  quantization: LocalModelQuantization;
+  // Approximate download size; the real figure comes from the browser cache once downloaded
+  sizeMB: number;
+  description: string;
+  // Whisper: English-only checkpoints are more accurate on English but can't transcribe anything else
+  englishOnly?: boolean;
+  // Text generation: prompts go through the model's chat template
+  instructionTuned?: boolean;
+}
+
+export const LOCAL_MODEL_CATALOG: LocalModelDefinition[] = [
+  {
+    id: 'whisper-tiny.en',
+    name: 'Whisper Tiny (English)',
+    task: 'speech-to-text',
+    repo: 'Xenova/whisper-tiny.en',
+    quantization: 'q8',
+    sizeMB: 41,
+    description: 'Fastest, good enough for clear English speech',
+    englishOnly: true,
+  },
+  {
+    id: 'whisper-tiny',
+    name: 'Whisper Tiny (Multilingual)',
+    task: 'speech-to-text',
+    repo: 'Xenova/whisper-tiny',
+    quantization: 'q8',
+    sizeMB: 41,
+    description: 'Fastest, detects and transcribes 99 languages',
+  },
+  {
+    id: 'whisper-base.en',
+    name: 'Whisper Base (English)',
+    task: 'speech-to-text',
+    repo: 'Xenova/whisper-base.en',
+    quantization: 'q8',
+    sizeMB: 77,
+    description: 'Noticeably more accurate than tiny at about twice the cost',
+    englishOnly: true,
+  },
+  {
+    id: 'whisper-base',
+    name: 'Whisper Base (Multilingual)',
+    task: 'speech-to-text',
+    repo: 'Xenova/whisper-base',
+    quantization: 'q8',
+    sizeMB: 77,
+    description: 'Multilingual base model',
+  },
+  {
+    id: 'whisper-small.en',
+    name: 'Whisper Small (English)',
+    task: 'speech-to-text',
+    repo: 'Xenova/whisper-small.en',
+    quantization: 'q8',
+    sizeMB: 249,
+    description: 'Most accurate; slow without WebGPU',
+    englishOnly: true,
+  },
+  {
+    id: 'whisper-small',
+    name: 'Whisper Small (Multilingual)',
+    task: 'speech-to-text',
+    repo: 'Xenova/whisper-small',
+    quantization: 'q8',
+    sizeMB: 249,
+    description: 'Most accurate multilingual model; slow without WebGPU',
+  },
+  {
+    id: 'distilgpt2',
+    name: 'DistilGPT-2',
+    task: 'text-generation',
+    repo: 'Xenova/distilgpt2',
+    quantization: 'q8',
+    sizeMB: 84,
+    description: 'Small completion model; cannot follow instructions',
+  },
+  {
+    id: 'qwen2.5-0.5b-instruct',
+    name: 'Qwen2.5 0.5B Instruct',
+    task: 'text-generation',
+    repo: 'onnx-community/Qwen2.5-0.5B-Instruct',
+    quantization: 'q4',
+    sizeMB: 480,
+    description: 'Instruction-tuned; follows prompts and can return structured feedback',
+    instructionTuned: true,
+  },
+];
+
+// Used until the user picks something else in Local AI setup
+export const DEFAULT_LOCAL_MODELS: Record<LocalModelTask, string> = {
+  'speech-to-text': 'whisper-tiny.en',
+  // Content evaluation needs a model that can follow instructions
+  'text-generation': 'qwen2.5-0.5b-instruct',
+};
+
+export const getLocalModel = (id: string): LocalModelDefinition | undefined =>
+  LOCAL_MODEL_CATALOG.find(model => model.id === id);
+
+// Where transformers.js keeps downloaded model files
+export const MODEL_CACHE_NAME = 'transformers-cache';
+
+// Cache keys are the files' hub URLs
+export const isModelFileUrl = (url: string, repo: string) => url.includes(`/${repo}/resolve/`);
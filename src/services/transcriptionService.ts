@@ -0,0 +1,302 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PersonalizedAnalysis } from '@/types/speechAnalysis';
+import type { TimedWord } from '@/utils/fillerWords';
+import { analyzeAudioWithAssemblyAI, type AssemblyAIAnalysis } from '@/utils/assemblyAIService';
+import { analyzeAudioWithAssemblyAIDirect } from '@/utils/directAssemblyAIService';
+import { transcribeAudioWithTimestamps } from '@/utils/speechTranscriptionAPI';
+import { toLanguageCode } from '@/utils/whisperLanguages';
+import { aiService } from './aiService';
+
+export type TranscriptionProviderId =
+  | 'assemblyai'
+  | 'assemblyai-direct'
+  | 'openai-whisper'
+  | 'local-whisper'
+  | 'test-server';
+
+// Timings are in milliseconds from the start of the recording
+export interface TranscriptWord extends TimedWord {
+  start: number;
+  end: number;
+  speaker?: string;
+}
+
+export interface TranscriptSpeakerTurn {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence?: number;
+}
+
+// The one shape every screen works with, whichever provider produced it.
+// Field names follow the AssemblyAI response so convertAssemblyAIToAnalysisResult accepts it as-is.
+export interface NormalizedTranscript {
+  provider: TranscriptionProviderId;
+  transcript: string;
+  // Empty when the provider has no word timings
+  words: TranscriptWord[];
+  confidence?: number;
+  // ISO-639-1 code, or null when the provider does not detect language
+  language: string | null;
+  speakers: TranscriptSpeakerTurn[];
+  duration?: number;
+  // Extras only the AssemblyAI edge function returns
+  summary?: string;
+  sentiment?: AssemblyAIAnalysis['sentiment'];
+  personalizedAnalysis?: PersonalizedAnalysis;
+}
+
+export interface TranscriptionCapabilities {
+  wordTimings: boolean;
+  wordConfidence: boolean;
+  speakers: boolean;
+  language: boolean;
+}
+
+export interface TranscribeOptions {
+  userId?: string;
+}
+
+export interface TranscriptionProvider {
+  id: TranscriptionProviderId;
+  label: string;
+  description: string;
+  // Rough list price in USD, only used to rank providers
+  costPerMinute: number;
+  runsLocally: boolean;
+  capabilities: TranscriptionCapabilities;
+  isAvailable(): Promise<boolean>;
+  transcribe(audio: Blob, options?: TranscribeOptions): Promise<NormalizedTranscript>;
+}
+
+export interface ProviderRequirements extends Partial<TranscriptionCapabilities> {
+  maxCostPerMinute?: number;
+}
+
+export interface ProviderSelection {
+  // The user's setting; tried first whenever it is available
+  preferred?: TranscriptionProviderId | null;
+  requirements?: ProviderRequirements;
+}
+
+// Pause, pace and clarity scoring all rely on timed, confidence-scored words
+export const ANALYSIS_REQUIREMENTS: ProviderRequirements = { wordTimings: true, wordConfidence: true };
+
+const isOnline = async () => typeof navigator === 'undefined' || navigator.onLine;
+
+const fromAssemblyAI = (provider: TranscriptionProviderId, result: AssemblyAIAnalysis): NormalizedTranscript => ({
+  provider,
+  transcript: result.transcript,
+  words: result.words || [],
+  confidence: result.confidence,
+  // Both AssemblyAI paths request language_code en_us
+  language: 'en',
+  speakers: result.speakers || [],
+  duration: result.duration,
+  summary: result.summary,
+  sentiment: result.sentiment,
+  personalizedAnalysis: result.personalizedAnalysis,
+});
+
+const textOnly = (provider: TranscriptionProviderId, text: string, confidence?: number): NormalizedTranscript => ({
+  provider,
+  transcript: text,
+  words: [],
+  confidence,
+  language: null,
+  speakers: [],
+});
+
+const assemblyAIProvider: TranscriptionProvider = {
+  id: 'assemblyai',
+  label: 'AssemblyAI',
+  description: 'Word timings, confidence and speakers, plus personalised feedback from your preferences',
+  costPerMinute: 0.0062,
+  runsLocally: false,
+  capabilities: { wordTimings: true, wordConfidence: true, speakers: true, language: true },
+  isAvailable: isOnline,
+  async transcribe(audio, options) {
+    return fromAssemblyAI('assemblyai', await analyzeAudioWithAssemblyAI(audio, options?.userId));
+  },
+};
+
+const assemblyAIDirectProvider: TranscriptionProvider = {
+  id: 'assemblyai-direct',
+  label: 'AssemblyAI (direct)',
+  description: 'Calls AssemblyAI from the browser; needs VITE_ASSEMBLYAI_API_KEY',
+  costPerMinute: 0.0062,
+  runsLocally: false,
+  capabilities: { wordTimings: true, wordConfidence: true, speakers: true, language: true },
+  async isAvailable() {
+    return !!import.meta.env.VITE_ASSEMBLYAI_API_KEY && isOnline();
+  },
+  async transcribe(audio) {
+    return fromAssemblyAI('assemblyai-direct', await analyzeAudioWithAssemblyAIDirect(audio));
+  },
+};
+
+const openAIWhisperProvider: TranscriptionProvider = {
+  id: 'openai-whisper',
+  label: 'OpenAI Whisper',
+  description: 'Word timings and language detection, no per-word confidence',
+  costPerMinute: 0.006,
+  runsLocally: false,
+  capabilities: { wordTimings: true, wordConfidence: false, speakers: false, language: true },
+  isAvailable: isOnline,
+  async transcribe(audio) {
+    const result = await transcribeAudioWithTimestamps(audio);
+    return {
+      ...textOnly('openai-whisper', result.text, result.confidence ?? undefined),
+      words: result.words,
+      language: toLanguageCode(result.language),
+      duration: result.duration ?? undefined,
+    };
+  },
+};
+
+const localWhisperProvider: TranscriptionProvider = {
+  id: 'local-whisper',
+  label: 'Whisper (on device)',
+  description: 'Free and private, with word timings; choose and load a model under Local AI first',
+  costPerMinute: 0,
+  runsLocally: true,
+  capabilities: { wordTimings: true, wordConfidence: false, speakers: false, language: false },
+  async isAvailable() {
+    return aiService.isModelLoaded(aiService.getActiveModelId('speech-to-text'));
+  },
+  async transcribe(audio) {
+    const { englishOnly } = aiService.getActiveModel('speech-to-text');
+    const result = await aiService.transcribeWithTimestamps(audio);
+    return {
+      ...textOnly('local-whisper', result.text),
+      words: result.words,
+      // The .en checkpoints only transcribe English; the multilingual ones don't report what they heard
+      language: englishOnly ? 'en' : null,
+      duration: result.duration,
+    };
+  },
+};
+
+// The test server is a local development tool; FreeSpeechService loads Whisper as soon as
+// it is constructed, so it is only imported once this provider is actually used.
+const testServerProvider: TranscriptionProvider = {
+  id: 'test-server',
+  label: 'Test server (free APIs)',
+  description: 'Development only; proxies free speech APIs through the local test server',
+  costPerMinute: 0,
+  runsLocally: false,
+  capabilities: { wordTimings: false, wordConfidence: false, speakers: false, language: false },
+  async isAvailable() {
+    const { freeSpeechService } = await import('./freeSpeechService');
+    return (await freeSpeechService.getAPIStatus()).cloud;
+  },
+  async transcribe(audio) {
+    const { freeSpeechService } = await import('./freeSpeechService');
+    const result = await freeSpeechService.transcribeWithAPI(audio, 'whisper');
+    return textOnly('test-server', result.text, result.confidence);
+  },
+};
+
+const meetsRequirements = (provider: TranscriptionProvider, requirements: ProviderRequirements = {}) => {
+  const { maxCostPerMinute, ...capabilities } = requirements;
+  if (maxCostPerMinute !== undefined && provider.costPerMinute > maxCostPerMinute) return false;
+  return (Object.keys(capabilities) as Array<keyof TranscriptionCapabilities>)
+    .every(capability => !capabilities[capability] || provider.capabilities[capability]);
+};
+
+class TranscriptionRegistry {
+  private providers: Map<TranscriptionProviderId, TranscriptionProvider> = new Map();
+
+  register(provider: TranscriptionProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: TranscriptionProviderId): TranscriptionProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): TranscriptionProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // Available providers in the order they should be tried: the user's choice first,
+  // then every provider meeting the requirements, cheapest first.
+  async selectProviders({ preferred, requirements }: ProviderSelection = {}): Promise<TranscriptionProvider[]> {
+    const candidates = this.list()
+      .filter(provider => provider.id === preferred || meetsRequirements(provider, requirements))
+      .sort((a, b) => {
+        if (a.id === preferred) return -1;
+        if (b.id === preferred) return 1;
+        return a.costPerMinute - b.costPerMinute;
+      });
+
+    const availability = await Promise.all(candidates.map(async provider => {
+      try {
+        return await provider.isAvailable();
+      } catch (error) {
+        console.warn(`⚠️ Could not check ${provider.label} availability:`, error);
+        return false;
+      }
+    }));
+    return candidates.filter((_, index) => availability[index]);
+  }
+
+  // Transcribe with the best available provider, falling back down the list on failure
+  async transcribe(audio: Blob, selection: ProviderSelection & TranscribeOptions = {}): Promise<NormalizedTranscript> {
+    const providers = await this.selectProviders(selection);
+    if (providers.length === 0) {
+      throw new Error('No transcription provider is available');
+    }
+
+    const errors: string[] = [];
+    for (const provider of providers) {
+      try {
+        console.log(`🎤 Transcribing with ${provider.label}...`);
+        return await provider.transcribe(audio, { userId: selection.userId });
+      } catch (error) {
+        console.warn(`⚠️ ${provider.label} failed, trying next provider...`, error);
+        errors.push(`${provider.label}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    throw new Error(`All transcription providers failed (${errors.join('; ')})`);
+  }
+}
+
+// Moves every timing later by offsetMs, e.g. back onto the original recording when leading
+// silence was trimmed before transcription
+export const offsetTranscriptTimings = (transcript: NormalizedTranscript, offsetMs: number): NormalizedTranscript =>
+  offsetMs === 0 ? transcript : {
+    ...transcript,
+    words: transcript.words.map(word => ({ ...word, start: word.start + offsetMs, end: word.end + offsetMs })),
+    speakers: transcript.speakers.map(turn => ({ ...turn, start: turn.start + offsetMs, end: turn.end + offsetMs })),
+  };
+
+export const isTranscriptionProviderId = (value: unknown): value is TranscriptionProviderId =>
+  typeof value === 'string' && transcriptionRegistry.get(value as TranscriptionProviderId) !== undefined;
+
+// The provider saved in user_preferences, or null for automatic selection
+export const getPreferredTranscriptionProvider = async (userId?: string): Promise<TranscriptionProviderId | null> => {
+  if (!userId) return null;
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('transcription_provider')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('❌ Error loading transcription preference:', error);
+    return null;
+  }
+  return isTranscriptionProviderId(data?.transcription_provider) ? data.transcription_provider : null;
+};
+
+// Registration order breaks cost ties, so AssemblyAI stays the default
+export const transcriptionRegistry = new TranscriptionRegistry();
+[
+  assemblyAIProvider,
+  assemblyAIDirectProvider,
+  openAIWhisperProvider,
+  localWhisperProvider,
+  testServerProvider,
+].forEach(provider => transcriptionRegistry.register(provider));
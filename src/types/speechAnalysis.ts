@@ -1,41 +1,26 @@
+import type { FillerWordOccurrence, TimedWord } from '@/utils/fillerWords';
+import type { SpeechScores } from '@/utils/scoring';
+import type { PauseAnalysis } from '@/utils/pauses';
+import type { PaceTimeline } from '@/utils/paceTimeline';
+import type { ScriptAdherence } from '@/utils/scriptAdherence';
+import type { ProsodyAnalysis } from '@/utils/prosody';
+import type { LoudnessAnalysis } from '@/utils/loudness';
+import type { PreprocessingReport } from '@/utils/audioPreprocessing';
+import type { ContentEvaluation } from '@/utils/llmSchemas';
 
-export interface ContentEvaluation {
-  mainPoint: {
-    identified: string;
-    clarity: number;
-    feedback: string;
-  };
-  argumentStructure: {
-    hasStructure: boolean;
-    structure: string;
-    effectiveness: number;
-    suggestions: string;
-  };
-  evidenceAndExamples: {
-    hasEvidence: boolean;
-    evidenceQuality: number;
-    evidenceTypes: string[];
-    suggestions: string;
-  };
-  persuasiveness: {
-    pointProven: boolean;
-    persuasionScore: number;
-    strengths: string[];
-    weaknesses: string[];
-    improvements: string;
-  };
-  starAnalysis: {
-    situation: string;
-    task: string;
-    action: string;
-    result: string;
-    overallStarScore: number;
-  };
-}
+export type { ContentEvaluation };
+
+// How contentEvaluation was produced; missing on analyses saved before this was tracked
+export type ContentEvaluationSource = 'local-llm' | 'heuristic';
 
 export interface AISuggestions {
   contentEvaluation?: ContentEvaluation;
   speechSummary?: string;
+  evaluationSource?: ContentEvaluationSource;
+  // Local model that wrote the evaluation, when evaluationSource is 'local-llm'
+  evaluationModel?: string;
+  // Why the local model wasn't used, when evaluationSource is 'heuristic'
+  fallbackReason?: string;
 }
 
 export interface PersonalizedAnalysis {
@@ -50,6 +35,7 @@ export interface PersonalizedAnalysis {
   priorityAreas: string[];
   personalizedFeedback: string;
   actionableSteps: string[];
+  scoringVersion?: string;
 }
 
 export interface AnalysisResult {
@@ -58,20 +44,46 @@ export interface AnalysisResult {
   pace_analysis: {
     words_per_minute: number;
     assessment: string;
+    // Rolling WPM over the speech; only present when word timings are available
+    timeline?: PaceTimeline;
   };
   filler_words: {
     count: number;
     percentage: string;
     examples: string[];
+    occurrences?: FillerWordOccurrence[];
   };
   tone_analysis: {
     primary_tone: string;
     confidence_level: string;
     emotions: string[];
   };
+  // Only present when the transcript came with word timings
+  pauses?: PauseAnalysis;
+  // Pitch and intonation from the audio itself; missing when it couldn't be decoded
+  prosody?: ProsodyAnalysis;
+  // Volume over time and projection problems, also measured from the audio
+  loudness?: LoudnessAnalysis;
+  // Present when the audio was cleaned up before transcription. Only the transcript comes from the
+  // cleaned audio; timings and the audio measures refer to the original recording.
+  preprocessing?: PreprocessingReport;
   suggestions: string[];
   strengths: string[];
   ai_suggestions?: AISuggestions;
   personalizedAnalysis?: PersonalizedAnalysis;
+  // Sub-scores, explanations and engine version behind overall/clarity scores
+  scoring?: SpeechScores;
   transcript?: string;
+  // Timed words from the transcription, used by the transcript player
+  words?: TimedWord[];
+  // Present when the recording was a rehearsal of a target script
+  script_adherence?: ScriptAdherence;
+  // Earlier analyses of the same recording, oldest first (written by re-analysis)
+  previous_versions?: AnalysisVersion[];
+}
+
+export interface AnalysisVersion {
+  scoring_version: string | null;
+  analyzed_at: string;
+  analysis: AnalysisResult;
 }
\ No newline at end of file
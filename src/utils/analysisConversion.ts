@@ -0,0 +1,172 @@
+import type { AnalysisResult } from '@/types/speechAnalysis';
+import { detectFillerWords, detectFillerWordsInText, summarizeFillerWords, tokenizeTranscript, type TimedWord } from '@/utils/fillerWords';
+import { scoreSpeech } from '@/utils/scoring';
+import { analyzePauses, getPauseFeedback } from '@/utils/pauses';
+import { computePaceTimeline } from '@/utils/paceTimeline';
+import type { NormalizedTranscript } from '@/services/transcriptionService';
+
+// The parts of a NormalizedTranscript read here. A transcript stored with an earlier analysis
+// has only these, and may lack word timings or carry just the tone as its sentiment.
+export type ConvertibleTranscript = Pick<NormalizedTranscript, 'transcript' | 'confidence' | 'summary'> & {
+  words?: TimedWord[];
+  sentiment?: { sentiment?: string } | null;
+};
+
+// Convert AssemblyAI data to AnalysisResult format
+export const convertAssemblyAIToAnalysisResult = (assemblyData: ConvertibleTranscript, duration: number): AnalysisResult => {
+  const wordCount = assemblyData.words?.length || 0;
+
+  // Detect every filler occurrence from the timed words (falls back to the plain transcript)
+  const fillerOccurrences = assemblyData.words?.length
+    ? detectFillerWords(assemblyData.words)
+    : detectFillerWordsInText(assemblyData.transcript || '');
+  const fillerSummary = summarizeFillerWords(
+    fillerOccurrences,
+    wordCount || tokenizeTranscript(assemblyData.transcript || '').length
+  );
+
+  // Deterministic scores from the transcript and word timings
+  const scoring = scoreSpeech({
+    transcript: assemblyData.transcript || '',
+    words: assemblyData.words,
+    durationSeconds: duration,
+    confidence: assemblyData.confidence
+  });
+  const wordsPerMinute = scoring.words_per_minute;
+  const clarityScore = scoring.clarity_score;
+  const overallScore = scoring.overall_score;
+  const { hasEvidence, evidenceTypes, evidenceQuality, hasStructure, detectedStructure, structureEffectiveness } = scoring.content;
+
+  // Classify the gaps between timed words
+  const pauses = assemblyData.words?.length ? analyzePauses(assemblyData.words) : null;
+
+  // Rolling WPM so changes in pace are not hidden by the average
+  const paceTimeline = assemblyData.words?.length ? computePaceTimeline(assemblyData.words) : null;
+
+  // Generate dynamic suggestions based on actual content
+  const suggestions = [];
+  
+  // Pace-based suggestions
+  if (wordsPerMinute < 120) {
+    suggestions.push('Consider speaking at a slightly faster pace to maintain audience engagement');
+  } else if (wordsPerMinute > 180) {
+    suggestions.push('Slow down your speech pace to improve clarity and comprehension');
+  } else {
+    suggestions.push('Your speaking pace is well-balanced and engaging');
+  }
+  if (paceTimeline?.trend === 'speeding_up') {
+    suggestions.push('You sped up towards the end - keep the same pace through your closing points');
+  } else if (paceTimeline?.trend === 'slowing_down') {
+    suggestions.push('Your pace dropped towards the end - keep your energy up through the conclusion');
+  }
+
+  // Rhythm suggestions from pauses between words
+  if (pauses) {
+    suggestions.push(getPauseFeedback(pauses));
+  }
+
+  // Filler word suggestions
+  if (fillerSummary.count > 3) {
+    suggestions.push('Work on reducing filler words like "um" and "uh" for more professional delivery');
+  } else if (fillerSummary.count > 0) {
+    suggestions.push('Good job minimizing filler words - continue this practice');
+  } else {
+    suggestions.push('Excellent! No filler words detected in your speech');
+  }
+
+  // Evidence-based suggestions
+  if (!hasEvidence) {
+    suggestions.push('Consider adding specific examples, data, or case studies to strengthen your points');
+  } else {
+    suggestions.push('Good use of evidence and examples to support your arguments');
+  }
+
+  // Clarity-based suggestions
+  if (clarityScore < 80) {
+    suggestions.push('Focus on clear articulation and pronunciation for better understanding');
+  } else {
+    suggestions.push('Your speech clarity is excellent - maintain this level');
+  }
+
+  // Content structure suggestions
+  if (!hasStructure) {
+    suggestions.push('Consider adding transition words to improve the flow of your speech');
+  } else {
+    suggestions.push('Good use of structure and transitions in your speech');
+  }
+
+  // Generate strengths based on actual performance
+  const strengths = [];
+  if (clarityScore > 85) strengths.push('Excellent speech clarity and articulation');
+  if (wordsPerMinute >= 120 && wordsPerMinute <= 180) strengths.push('Well-balanced speaking pace');
+  if (fillerSummary.count <= 2) strengths.push('Minimal use of filler words');
+  if (hasEvidence) strengths.push('Good use of evidence and examples');
+  if (hasStructure) strengths.push('Clear speech structure with good transitions');
+  if (strengths.length === 0) strengths.push('Good overall communication effort');
+
+  // Analyze main point from transcript
+  const sentences = assemblyData.transcript?.split(/[.!?]+/).filter(sentence => sentence.trim().length > 10) || [];
+  const mainPoint = sentences.length > 0 ? sentences[0].trim() : 'Main message extracted from speech';
+  
+  return {
+    overall_score: overallScore,
+    clarity_score: clarityScore,
+    pace_analysis: {
+      words_per_minute: wordsPerMinute,
+      assessment: wordsPerMinute < 120 ? 'Slow' : wordsPerMinute > 180 ? 'Fast' : 'Good pace',
+      ...(paceTimeline && { timeline: paceTimeline })
+    },
+    filler_words: fillerSummary,
+    tone_analysis: {
+      primary_tone: assemblyData.sentiment?.sentiment?.toLowerCase() || 'neutral',
+      confidence_level: 'High',
+      emotions: assemblyData.sentiment?.sentiment ? [assemblyData.sentiment.sentiment] : ['neutral']
+    },
+    ...(pauses && { pauses }),
+    suggestions: suggestions.slice(0, 6), // Limit to 6 most relevant suggestions
+    strengths: strengths.slice(0, 4), // Limit to 4 strengths
+    ai_suggestions: {
+      speechSummary: assemblyData.summary || 'Speech content analyzed successfully.',
+      contentEvaluation: {
+        mainPoint: {
+          identified: mainPoint,
+          clarity: scoring.content.mainPointClarity,
+          feedback: hasEvidence ? 'Message is well-supported with evidence' : 'Consider adding more supporting evidence'
+        },
+        argumentStructure: {
+          hasStructure: hasStructure,
+          structure: detectedStructure,
+          effectiveness: structureEffectiveness,
+          suggestions: hasStructure ? 'Good structure - consider adding more transitions' : 'Add clear structure with transition words'
+        },
+        evidenceAndExamples: {
+          hasEvidence: hasEvidence,
+          evidenceQuality: evidenceQuality,
+          evidenceTypes: evidenceTypes,
+          suggestions: hasEvidence ? 
+            'Evidence present but could be more specific and quantified' :
+            'Add concrete examples, data, or case studies to support your points'
+        },
+        persuasiveness: {
+          pointProven: hasEvidence,
+          persuasionScore: scoring.content.persuasionScore,
+          strengths: hasEvidence ? ['Well-supported arguments', 'Clear communication'] : ['Clear communication'],
+          weaknesses: hasEvidence ? ['Could use more specific examples'] : ['Needs more supporting evidence', 'Could use more examples'],
+          improvements: hasEvidence ? 'Include more specific examples and data' : 'Add specific examples and data to strengthen arguments'
+        },
+        starAnalysis: {
+          situation: sentences.length > 0 ? sentences[0] : 'Context established',
+          task: sentences.length > 1 ? sentences[1] : 'Objective defined',
+          action: sentences.length > 2 ? sentences[2] : 'Actions explained',
+          result: sentences.length > 3 ? sentences[3] : 'Results stated',
+          overallStarScore: scoring.content.starScore
+        }
+      }
+    },
+    scoring,
+    transcript: assemblyData.transcript || '',
+    ...(assemblyData.words?.length && {
+      words: assemblyData.words.map(({ text, start, end, confidence }: TimedWord) => ({ text, start, end, confidence }))
+    })
+  };
+};
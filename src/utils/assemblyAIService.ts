@@ -1,5 +1,9 @@
 import { supabase } from '@/integrations/supabase/client'
 import type { PersonalizedAnalysis } from '@/types/speechAnalysis'
+import { ensureSupportedFormat } from '@/utils/audioFormat'
+
+// Formats AssemblyAI transcribes as uploaded; anything else is converted to WAV first
+export const ASSEMBLYAI_AUDIO_TYPES = ['audio/mp3', 'audio/mpeg', 'audio/mp4', 'audio/m4a', 'audio/wav', 'audio/flac', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wma']
 
 export interface AssemblyAIAnalysis {
   transcript: string;
@@ -44,6 +48,8 @@ export const analyzeAudioWithAssemblyAI = async (audioBlob: Blob, userId?: strin
   console.log('🎯 Starting AssemblyAI analysis...')
   
   try {
+    const uploadBlob = await ensureSupportedFormat(audioBlob, ASSEMBLYAI_AUDIO_TYPES)
+
     // Use FileReader for efficient base64 conversion
     console.log('🔄 Converting audio to base64...')
     const base64Audio = await new Promise<string>((resolve, reject) => {
@@ -56,7 +62,7 @@ export const analyzeAudioWithAssemblyAI = async (audioBlob: Blob, userId?: strin
         resolve(base64)
       }
       reader.onerror = () => reject(new Error('Failed to convert audio to base64'))
-      reader.readAsDataURL(audioBlob)
+      reader.readAsDataURL(uploadBlob)
     })
 
     console.log('🔄 Calling Supabase function...')
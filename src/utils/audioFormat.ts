@@ -0,0 +1,167 @@
+// Decoding, downmixing, resampling and WAV encoding shared by every transcription path and the
+// audio analyses. Browser-only: decoding and resampling run on Web Audio.
+
+// Formats the upload picker accepts; anything the browser can decode works below
+export const ACCEPTED_AUDIO_TYPES = [
+  'audio/webm',
+  'audio/mp3',
+  'audio/mpeg',
+  'audio/wav',
+  'audio/mp4',
+  'audio/m4a',
+  'audio/ogg',
+];
+
+// Without the codec parameters, e.g. 'audio/webm;codecs=opus' -> 'audio/webm'
+export const baseMimeType = (type: string) => type.split(';')[0].trim().toLowerCase();
+
+// Speech recognisers all work at 16kHz, so there is no point sending more
+export const SPEECH_SAMPLE_RATE = 16000;
+
+// Resampling filters out everything above this fraction of the target rate first
+const ANTI_ALIAS_CUTOFF = 0.45;
+// Cascaded 12dB/octave low-pass stages, for a steep enough roll-off
+const ANTI_ALIAS_STAGES = 4;
+
+const getAudioContextClass = () =>
+  window.AudioContext || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+
+const getOfflineContextClass = () =>
+  window.OfflineAudioContext
+    || (window as unknown as { webkitOfflineAudioContext: typeof OfflineAudioContext }).webkitOfflineAudioContext;
+
+// Decode any format the browser understands (webm/opus, mp4/aac, mp3, wav, ogg...)
+export const decodeAudioBlob = async (audioBlob: Blob): Promise<AudioBuffer> => {
+  const AudioContextClass = getAudioContextClass();
+  const audioContext = new AudioContextClass();
+  try {
+    return await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+};
+
+// Average every channel, so nothing recorded on the second channel is lost
+export const downmixToMono = (audioBuffer: AudioBuffer): Float32Array => {
+  const mono = audioBuffer.getChannelData(0).slice();
+  if (audioBuffer.numberOfChannels === 1) return mono;
+  for (let channel = 1; channel < audioBuffer.numberOfChannels; channel++) {
+    const data = audioBuffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i];
+  }
+  for (let i = 0; i < mono.length; i++) mono[i] /= audioBuffer.numberOfChannels;
+  return mono;
+};
+
+const renderOffline = async (
+  samples: Float32Array,
+  fromRate: number,
+  toRate: number,
+  connect: (context: OfflineAudioContext, source: AudioBufferSourceNode) => AudioNode
+): Promise<Float32Array> => {
+  const OfflineContextClass = getOfflineContextClass();
+  const context = new OfflineContextClass(1, Math.max(1, Math.ceil((samples.length * toRate) / fromRate)), toRate);
+  const buffer = context.createBuffer(1, samples.length, fromRate);
+  buffer.copyToChannel(samples, 0);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+  connect(context, source).connect(context.destination);
+  source.start();
+  return (await context.startRendering()).getChannelData(0);
+};
+
+// Run samples through one or more identical BiquadFilterNodes
+export const filterAudio = (
+  samples: Float32Array,
+  sampleRate: number,
+  type: BiquadFilterType,
+  frequency: number,
+  stages = 1
+): Promise<Float32Array> =>
+  renderOffline(samples, sampleRate, sampleRate, (context, source) => {
+    let node: AudioNode = source;
+    for (let stage = 0; stage < stages; stage++) {
+      const filter = context.createBiquadFilter();
+      filter.type = type;
+      filter.frequency.value = frequency;
+      node.connect(filter);
+      node = filter;
+    }
+    return node;
+  });
+
+// Low-pass at the source rate, then let an OfflineAudioContext at the target rate do the
+// rate conversion; some browsers interpolate linearly there, which would alias on its own
+export const resampleAudio = async (samples: Float32Array, fromRate: number, toRate: number): Promise<Float32Array> => {
+  if (fromRate === toRate) return samples;
+  const input = toRate < fromRate
+    ? await filterAudio(samples, fromRate, 'lowpass', toRate * ANTI_ALIAS_CUTOFF, ANTI_ALIAS_STAGES)
+    : samples;
+  return renderOffline(input, fromRate, toRate, (_, source) => source);
+};
+
+// Mono samples at the requested rate, or the recording's own rate when none is given
+export const decodeToMono = async (audioBlob: Blob, sampleRate?: number): Promise<{ samples: Float32Array; sampleRate: number }> => {
+  const audioBuffer = await decodeAudioBlob(audioBlob);
+  const mono = downmixToMono(audioBuffer);
+  if (!sampleRate || sampleRate === audioBuffer.sampleRate) {
+    return { samples: mono, sampleRate: audioBuffer.sampleRate };
+  }
+  return { samples: await resampleAudio(mono, audioBuffer.sampleRate, sampleRate), sampleRate };
+};
+
+// Block-average decimation for live audio, where rendering an OfflineAudioContext for every
+// few milliseconds of microphone input would be too slow. Averaging is a crude low-pass.
+export const downsample = (samples: Float32Array, fromRate: number, toRate: number): Float32Array => {
+  if (fromRate <= toRate) return samples.slice();
+  const ratio = fromRate / toRate;
+  const output = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(samples.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += samples[j];
+    output[i] = sum / Math.max(1, end - start);
+  }
+  return output;
+};
+
+// 16-bit PCM WAV, mono
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+export const convertToWav = async (audioBlob: Blob, sampleRate = SPEECH_SAMPLE_RATE): Promise<Blob> => {
+  const { samples } = await decodeToMono(audioBlob, sampleRate);
+  return encodeWav(samples, sampleRate);
+};
+
+// The blob itself when a service accepts its format, otherwise a WAV of it. Blobs with no
+// type (or the wrong one) are decoded by content, so they convert fine.
+export const ensureSupportedFormat = async (audioBlob: Blob, supportedTypes: string[]): Promise<Blob> => {
+  if (supportedTypes.includes(baseMimeType(audioBlob.type))) return audioBlob;
+  console.log(`🔄 Converting ${audioBlob.type || 'untyped'} audio to WAV`);
+  return convertToWav(audioBlob);
+};
@@ -0,0 +1,201 @@
+// Optional clean-up of a recording before it is uploaded or transcribed: a high-pass filter,
+// a noise gate, trimming of leading/trailing silence and loudness normalization. Background
+// noise lowers transcription confidence, and with it clarity_score.
+
+import { SPEECH_SAMPLE_RATE, decodeAudioBlob, downmixToMono, encodeWav, filterAudio, resampleAudio } from '@/utils/audioFormat';
+
+export type PreprocessingStep = 'high_pass' | 'noise_gate' | 'trim_silence' | 'normalize';
+
+export type PreprocessingOptions = Record<PreprocessingStep, boolean>;
+
+export const DEFAULT_PREPROCESSING_OPTIONS: PreprocessingOptions = {
+  high_pass: true,
+  noise_gate: true,
+  trim_silence: true,
+  normalize: true,
+};
+
+export const PREPROCESSING_STEP_LABELS: Record<PreprocessingStep, string> = {
+  high_pass: 'Remove low rumble',
+  noise_gate: 'Reduce background noise',
+  trim_silence: 'Trim silence at the start and end',
+  normalize: 'Normalize volume',
+};
+
+// What was done to the audio, stored with the analysis so its scores can be read in context
+export interface PreprocessingReport {
+  // Steps that actually changed the audio, in the order they ran
+  applied: PreprocessingStep[];
+  high_pass_hz?: number;
+  noise_floor_dbfs?: number;
+  gate_threshold_dbfs?: number;
+  gain_db?: number;
+  trimmed_start_ms: number;
+  trimmed_end_ms: number;
+  // Seconds before and after
+  original_duration: number;
+  duration: number;
+}
+
+export interface PreprocessedRecording {
+  blob: Blob;
+  report: PreprocessingReport;
+}
+
+const HIGH_PASS_HZ = 80;
+const FRAME_SECONDS = 0.02;
+// The gate opens this far above the noise floor
+const GATE_MARGIN_DB = 6;
+// Noise isn't gated unless speech stands clear of it by at least this much
+const MIN_SPEECH_TO_NOISE_DB = 12;
+const GATE_ATTENUATION = 0.1;
+// Frames the gate stays open after speech, so word endings aren't clipped
+const GATE_HOLD_FRAMES = 10;
+// Silence kept around the trimmed speech
+const TRIM_PADDING_SECONDS = 0.25;
+const TARGET_SPEECH_DBFS = -20;
+const PEAK_CEILING_DBFS = -1;
+const MAX_GAIN_DB = 20;
+
+const toDb = (value: number) => 20 * Math.log10(Math.max(value, 1e-6));
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const frameLevels = (samples: Float32Array, frameSize: number) => {
+  const levels: number[] = [];
+  for (let offset = 0; offset < samples.length; offset += frameSize) {
+    const end = Math.min(samples.length, offset + frameSize);
+    let sum = 0;
+    for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(toDb(Math.sqrt(sum / (end - offset))));
+  }
+  return levels;
+};
+
+const percentile = (values: number[], p: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor((sorted.length - 1) * p))];
+};
+
+// Attenuate frames below the gate, ramping between frame gains to avoid clicks
+const applyNoiseGate = (samples: Float32Array, levels: number[], threshold: number, frameSize: number) => {
+  let hold = 0;
+  const gains = levels.map(level => {
+    if (level >= threshold) hold = GATE_HOLD_FRAMES;
+    else hold = Math.max(0, hold - 1);
+    return hold > 0 ? 1 : GATE_ATTENUATION;
+  });
+  let previous = gains[0] ?? 1;
+  gains.forEach((gain, frame) => {
+    const start = frame * frameSize;
+    const end = Math.min(samples.length, start + frameSize);
+    for (let i = start; i < end; i++) {
+      samples[i] *= previous + (gain - previous) * ((i - start) / frameSize);
+    }
+    previous = gain;
+  });
+};
+
+// Returns a 16kHz mono 16-bit WAV of the cleaned-up recording and a report of what was applied
+export const preprocessRecording = async (
+  audioBlob: Blob,
+  options: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
+): Promise<PreprocessedRecording> => {
+  const audioBuffer = await decodeAudioBlob(audioBlob);
+  const sampleRate = audioBuffer.sampleRate;
+  let samples = downmixToMono(audioBuffer);
+  if (options.high_pass) samples = await filterAudio(samples, sampleRate, 'highpass', HIGH_PASS_HZ);
+  const frameSize = Math.round(FRAME_SECONDS * sampleRate);
+  const report: PreprocessingReport = {
+    applied: options.high_pass ? ['high_pass'] : [],
+    ...(options.high_pass && { high_pass_hz: HIGH_PASS_HZ }),
+    trimmed_start_ms: 0,
+    trimmed_end_ms: 0,
+    original_duration: round(samples.length / sampleRate),
+    duration: round(samples.length / sampleRate),
+  };
+
+  const levels = frameLevels(samples, frameSize);
+  const noiseFloor = percentile(levels, 0.1);
+  const speechLevel = percentile(levels, 0.9);
+  const threshold = Math.min(noiseFloor + GATE_MARGIN_DB, speechLevel - MIN_SPEECH_TO_NOISE_DB);
+  const speechStandsOut = speechLevel - noiseFloor >= MIN_SPEECH_TO_NOISE_DB;
+  report.noise_floor_dbfs = round(noiseFloor);
+  report.gate_threshold_dbfs = round(threshold);
+
+  if (options.noise_gate && speechStandsOut) {
+    applyNoiseGate(samples, levels, threshold, frameSize);
+    report.applied.push('noise_gate');
+  }
+
+  if (options.trim_silence && speechStandsOut) {
+    const first = levels.findIndex(level => level >= threshold);
+    const last = levels.length - 1 - [...levels].reverse().findIndex(level => level >= threshold);
+    const padding = Math.round(TRIM_PADDING_SECONDS * sampleRate);
+    const start = first < 0 ? 0 : Math.max(0, first * frameSize - padding);
+    const end = first < 0 ? samples.length : Math.min(samples.length, (last + 1) * frameSize + padding);
+    if (start > 0 || end < samples.length) {
+      report.trimmed_start_ms = Math.round((start / sampleRate) * 1000);
+      report.trimmed_end_ms = Math.round(((samples.length - end) / sampleRate) * 1000);
+      samples = samples.slice(start, end);
+      report.applied.push('trim_silence');
+    }
+  }
+
+  if (options.normalize) {
+    // Level of the speech only, so pauses don't drag the average down
+    const speech = frameLevels(samples, frameSize).filter(level => level >= threshold);
+    let peak = 0;
+    for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    if (speech.length > 0 && peak > 0) {
+      const speechRms = toDb(Math.sqrt(speech.reduce((sum, level) => sum + 10 ** (level / 10), 0) / speech.length));
+      const gainDb = Math.min(TARGET_SPEECH_DBFS - speechRms, PEAK_CEILING_DBFS - toDb(peak), MAX_GAIN_DB);
+      if (Math.abs(gainDb) >= 0.5) {
+        const gain = 10 ** (gainDb / 20);
+        for (let i = 0; i < samples.length; i++) samples[i] *= gain;
+        report.gain_db = round(gainDb);
+        report.applied.push('normalize');
+      }
+    }
+  }
+
+  report.duration = round(samples.length / sampleRate);
+  console.log('🎚️ Preprocessed recording:', report);
+  // At the capture rate (usually 48kHz) the WAV would be several times the compressed recording
+  const outputRate = Math.min(sampleRate, SPEECH_SAMPLE_RATE);
+  return { blob: encodeWav(await resampleAudio(samples, sampleRate, outputRate), outputRate), report };
+};
+
+// One line per applied step, for showing next to the scores
+export const describePreprocessing = (report: PreprocessingReport): string[] =>
+  report.applied.map(step => {
+    switch (step) {
+      case 'high_pass':
+        return `High-pass filter at ${report.high_pass_hz} Hz`;
+      case 'noise_gate':
+        return `Noise gate at ${report.gate_threshold_dbfs} dBFS (noise floor ${report.noise_floor_dbfs} dBFS)`;
+      case 'trim_silence':
+        return `Trimmed ${(report.trimmed_start_ms / 1000).toFixed(1)}s of leading and ${(report.trimmed_end_ms / 1000).toFixed(1)}s of trailing silence`;
+      case 'normalize':
+        return `Volume ${report.gain_db && report.gain_db > 0 ? 'raised' : 'lowered'} by ${Math.abs(report.gain_db ?? 0)} dB`;
+    }
+  });
+
+const SETTINGS_KEY = 'milao-audio-preprocessing';
+
+export interface PreprocessingSettings {
+  enabled: boolean;
+  options: PreprocessingOptions;
+}
+
+export const loadPreprocessingSettings = (): PreprocessingSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') as Partial<PreprocessingSettings>;
+    return { enabled: stored.enabled ?? false, options: { ...DEFAULT_PREPROCESSING_OPTIONS, ...stored.options } };
+  } catch {
+    return { enabled: false, options: DEFAULT_PREPROCESSING_OPTIONS };
+  }
+};
+
+export const savePreprocessingSettings = (settings: PreprocessingSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
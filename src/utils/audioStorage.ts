@@ -0,0 +1,191 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Recordings live in the private `audio-recordings` bucket under `{user_id}/...`
+// (the folder policies in the migrations only allow access to your own folder).
+// `speech_recordings.audio_url` stores the object path; older rows hold a full
+// storage URL, which getAudioPath() still understands.
+export const AUDIO_BUCKET = 'audio-recordings';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+// Supabase's resumable (TUS) endpoint requires exactly 6MB chunks
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+export interface UploadAudioOptions {
+  fileName?: string;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+};
+
+const getExtension = (mimeType: string) => EXTENSIONS[mimeType.split(';')[0]] || 'webm';
+
+const sanitizeFileName = (name: string) => name.replace(/[^\w.-]+/g, '_');
+
+export const buildAudioPath = (userId: string, blob: Blob, fileName?: string) =>
+  `${userId}/${Date.now()}-${sanitizeFileName(fileName || `recording.${getExtension(blob.type)}`)}`;
+
+// Accept either a stored object path or a legacy storage URL
+export const getAudioPath = (audioUrl: string): string => {
+  const marker = `/${AUDIO_BUCKET}/`;
+  const index = audioUrl.indexOf(marker);
+  if (index === -1) return audioUrl;
+  return decodeURIComponent(audioUrl.slice(index + marker.length).split('?')[0]);
+};
+
+const toBase64 = (value: string) =>
+  btoa(Array.from(new TextEncoder().encode(value), byte => String.fromCharCode(byte)).join(''));
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    authorization: `Bearer ${session?.access_token || SUPABASE_ANON_KEY}`,
+    apikey: SUPABASE_ANON_KEY,
+    'tus-resumable': '1.0.0',
+  };
+};
+
+const createUpload = async (path: string, blob: Blob, headers: Record<string, string>): Promise<string> => {
+  const endpoint = `${SUPABASE_URL}/storage/v1/upload/resumable`;
+  const contentType = blob.type || 'audio/webm';
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'upload-length': String(blob.size),
+      'upload-metadata': [
+        `bucketName ${toBase64(AUDIO_BUCKET)}`,
+        `objectName ${toBase64(path)}`,
+        `contentType ${toBase64(contentType)}`,
+        `cacheControl ${toBase64('3600')}`,
+      ].join(','),
+      'x-upsert': 'false',
+    },
+  });
+
+  const location = response.headers.get('location');
+  if (response.status !== 201 || !location) {
+    throw new Error(`Could not start audio upload (${response.status}): ${await response.text()}`);
+  }
+  return new URL(location, endpoint).toString();
+};
+
+// The header is missing when the server doesn't expose it to the browser; treating that as 0
+// would upload the first chunk again forever
+const readUploadOffset = (response: Response): number => {
+  const header = response.headers.get('upload-offset');
+  const offset = header === null ? NaN : Number(header);
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error(`Audio upload response had no valid upload-offset (${response.status})`);
+  }
+  return offset;
+};
+
+// Ask the server how much it already has so an interrupted upload can continue
+const getUploadOffset = async (uploadUrl: string, headers: Record<string, string>): Promise<number> => {
+  const response = await fetch(uploadUrl, { method: 'HEAD', headers });
+  if (!response.ok) {
+    throw new Error(`Could not resume audio upload (${response.status})`);
+  }
+  return readUploadOffset(response);
+};
+
+// Upload a recording in resumable chunks and return its object path.
+export const uploadRecordingAudio = async (
+  userId: string,
+  blob: Blob,
+  { fileName, onProgress }: UploadAudioOptions = {}
+): Promise<string> => {
+  const path = buildAudioPath(userId, blob, fileName);
+  let headers = await getAuthHeaders();
+  const uploadUrl = await createUpload(path, blob, headers);
+
+  let offset = 0;
+  let retries = 0;
+  let resuming = false;
+  while (offset < blob.size) {
+    try {
+      // Looking the offset up again counts against the same retries as the chunk that failed
+      if (resuming) {
+        // The session may have refreshed while we waited
+        headers = await getAuthHeaders();
+        offset = await getUploadOffset(uploadUrl, headers);
+        resuming = false;
+        if (offset >= blob.size) break;
+      }
+      const response = await fetch(uploadUrl, {
+        method: 'PATCH',
+        headers: {
+          ...headers,
+          'upload-offset': String(offset),
+          'content-type': 'application/offset+octet-stream',
+        },
+        body: blob.slice(offset, offset + CHUNK_SIZE),
+      });
+      if (response.status !== 204) {
+        throw new Error(`Chunk upload failed (${response.status}): ${await response.text()}`);
+      }
+      const nextOffset = readUploadOffset(response);
+      if (nextOffset <= offset) {
+        throw new Error(`Audio upload did not advance past byte ${offset}`);
+      }
+      offset = nextOffset;
+      retries = 0;
+      onProgress?.(offset, blob.size);
+    } catch (error) {
+      if (++retries > MAX_RETRIES) throw error;
+      console.warn(`⚠️ Audio upload interrupted, retrying (${retries}/${MAX_RETRIES})...`, error);
+      await wait(RETRY_DELAY_MS * retries);
+      resuming = true;
+    }
+  }
+
+  console.log('✅ Audio uploaded to storage:', path);
+  return path;
+};
+
+export const getSignedAudioUrl = async (audioUrl: string, expiresIn = 3600): Promise<string | null> => {
+  const { data, error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .createSignedUrl(getAudioPath(audioUrl), expiresIn);
+
+  if (error) {
+    console.error('Error getting signed URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+export const downloadRecordingAudio = async (audioUrl: string): Promise<Blob> => {
+  const { data, error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .download(getAudioPath(audioUrl));
+
+  if (error) throw error;
+  return data;
+};
+
+// Best-effort cleanup; a missing file should not block deleting the recording row
+export const deleteRecordingAudio = async (audioUrl: string): Promise<boolean> => {
+  const { error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .remove([getAudioPath(audioUrl)]);
+
+  if (error) {
+    console.error('Error deleting audio file:', error);
+    return false;
+  }
+  return true;
+};
@@ -1,3 +1,6 @@
+import { ensureSupportedFormat } from '@/utils/audioFormat';
+import { ASSEMBLYAI_AUDIO_TYPES } from '@/utils/assemblyAIService';
+
 export interface AssemblyAIAnalysis {
   transcript: string;
   confidence: number;
@@ -204,49 +207,13 @@ export const analyzeAudioWithAssemblyAIDirect = async (audioBlob: Blob): Promise
       throw new Error('Audio recording is too small or empty. Please try recording again.');
     }
 
-    // Try to use original format first, especially for WebM
+    // AssemblyAI takes the recording as-is when it can; anything else is converted to WAV
     let processedBlob = audioBlob;
-    
-    // AssemblyAI supports: mp3, mp4, m4a, wav, flac, aac, ogg, webm, wma
-    const supportedTypes = ['audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/wav', 'audio/flac', 'audio/aac', 'audio/ogg', 'audio/webm', 'audio/wma'];
-    
-    // Check if original format is supported
-    if (supportedTypes.includes(audioBlob.type)) {
-      console.log('✅ Using original format:', audioBlob.type);
-      
-      // Test original audio data quality
-      const testArrayBuffer = await audioBlob.arrayBuffer();
-      const testUint8Array = new Uint8Array(testArrayBuffer);
-      const nonZeroBytes = testUint8Array.filter(byte => byte !== 0).length;
-      
-      if (nonZeroBytes > 1000) {
-        processedBlob = audioBlob;
-      } else {
-        console.warn('⚠️ Audio data insufficient, attempting conversion...');
-      }
-    } else {
-      console.log('⚠️ Format not in supported list, trying anyway');
-    }
-    
-    // If we need to convert, try WAV conversion
-    if (processedBlob === audioBlob && audioBlob.size < 1000) {
-      console.log('⚠️ Audio too small, attempting WAV conversion...');
-      
-      try {
-        // Convert to WAV using Web Audio API
-        const arrayBuffer = await audioBlob.arrayBuffer();
-        const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-        
-        // Convert to WAV format
-        const wavBlob = await convertToWav(audioBuffer);
-        processedBlob = wavBlob;
-        console.log('✅ Audio converted to WAV format');
-      } catch (conversionError) {
-        console.error('❌ WAV conversion failed:', conversionError);
-        console.log('⚠️ Falling back to original format');
-        processedBlob = audioBlob;
-      }
+    try {
+      processedBlob = await ensureSupportedFormat(audioBlob, ASSEMBLYAI_AUDIO_TYPES);
+    } catch (conversionError) {
+      console.error('❌ WAV conversion failed:', conversionError);
+      console.log('⚠️ Falling back to original format');
     }
 
     // Use FileReader for more reliable conversion
@@ -307,65 +274,3 @@ export const analyzeAudioWithAssemblyAIDirect = async (audioBlob: Blob): Promise
     throw error
   }
 }
-
-// Helper function to convert AudioBuffer to WAV format
-async function convertToWav(audioBuffer: AudioBuffer): Promise<Blob> {
-  console.log('🔍 Converting AudioBuffer to WAV...');
-  console.log('🔍 AudioBuffer info:', {
-    length: audioBuffer.length,
-    numberOfChannels: audioBuffer.numberOfChannels,
-    sampleRate: audioBuffer.sampleRate,
-    duration: audioBuffer.duration
-  });
-  
-  const length = audioBuffer.length;
-  const numberOfChannels = audioBuffer.numberOfChannels;
-  const sampleRate = audioBuffer.sampleRate;
-  const arrayBuffer = new ArrayBuffer(44 + length * numberOfChannels * 2);
-  const view = new DataView(arrayBuffer);
-  
-  // WAV header
-  const writeString = (offset: number, string: string) => {
-    for (let i = 0; i < string.length; i++) {
-      view.setUint8(offset + i, string.charCodeAt(i));
-    }
-  };
-  
-  writeString(0, 'RIFF');
-  view.setUint32(4, 36 + length * numberOfChannels * 2, true);
-  writeString(8, 'WAVE');
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numberOfChannels, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numberOfChannels * 2, true);
-  view.setUint16(32, numberOfChannels * 2, true);
-  view.setUint16(34, 16, true);
-  writeString(36, 'data');
-  view.setUint32(40, length * numberOfChannels * 2, true);
-  
-  // Convert audio data with better handling
-  let offset = 44;
-  let nonZeroSamples = 0;
-  
-  for (let i = 0; i < length; i++) {
-    for (let channel = 0; channel < numberOfChannels; channel++) {
-      const sample = audioBuffer.getChannelData(channel)[i];
-      if (Math.abs(sample) > 0.001) nonZeroSamples++;
-      
-      // Clamp and convert to 16-bit
-      const clampedSample = Math.max(-1, Math.min(1, sample));
-      const int16Sample = clampedSample < 0 ? clampedSample * 0x8000 : clampedSample * 0x7FFF;
-      view.setInt16(offset, int16Sample, true);
-      offset += 2;
-    }
-  }
-  
-  console.log('🔍 WAV conversion complete. Non-zero samples:', nonZeroSamples, 'out of', length * numberOfChannels);
-  
-  const wavBlob = new Blob([arrayBuffer], { type: 'audio/wav' });
-  console.log('🔍 WAV blob size:', wavBlob.size);
-  
-  return wavBlob;
-} 
\ No newline at end of file
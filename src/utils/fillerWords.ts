@@ -0,0 +1,16 @@
+// The detector lives in supabase/functions/_shared so the edge functions can bundle it. This and
+// the other src/utils modules named after a _shared one only re-export it; see _shared/README.md.
+export {
+  FILLER_WORDS,
+  normalizeToken,
+  tokenizeTranscript,
+  detectFillerWords,
+  detectFillerWordsInText,
+  summarizeFillerWords,
+} from '../../supabase/functions/_shared/fillerWords.ts';
+
+export type {
+  TimedWord,
+  FillerWordOccurrence,
+  FillerWordSummary,
+} from '../../supabase/functions/_shared/fillerWords.ts';
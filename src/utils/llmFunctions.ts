@@ -0,0 +1,120 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { isLlmErrorBody, type LlmErrorCode } from './llmSchemas';
+
+export type LlmFunctionErrorCode = LlmErrorCode | 'network';
+
+// What went wrong in an LLM-backed edge function, from its typed error body
+export class LlmFunctionError extends Error {
+  constructor(public code: LlmFunctionErrorCode, message: string, public details: string[] = []) {
+    super(message);
+    this.name = 'LlmFunctionError';
+  }
+}
+
+const USER_MESSAGES: Record<LlmFunctionErrorCode, string> = {
+  invalid_request: 'The request was missing something the AI needs. Please check your input and try again.',
+  not_configured: 'AI features are not set up on the server yet.',
+  provider_error: 'The AI service is unavailable right now. Please try again in a moment.',
+  invalid_output: 'The AI returned an incomplete response. Please try again.',
+  internal: 'Something went wrong on our side. Please try again.',
+  network: "Couldn't reach the server. Check your connection and try again.",
+};
+
+// A message for toasts; the raw error stays in the console
+export const getLlmErrorMessage = (error: unknown): string =>
+  error instanceof LlmFunctionError ? USER_MESSAGES[error.code] : USER_MESSAGES.internal;
+
+// Cancelling a stream rejects with an AbortError, which callers usually ignore
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const toLlmFunctionError = async (error: Error): Promise<LlmFunctionError> => {
+  if (error instanceof FunctionsHttpError) {
+    const errorBody = await error.context.json().catch(() => null);
+    if (isLlmErrorBody(errorBody)) {
+      return new LlmFunctionError(errorBody.code, errorBody.error, errorBody.details);
+    }
+    return new LlmFunctionError('internal', error.message);
+  }
+  return new LlmFunctionError('network', error.message);
+};
+
+export const invokeLlmFunction = async <T>(name: string, body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+
+  if (error) {
+    throw await toLlmFunctionError(error);
+  }
+
+  return data as T;
+};
+
+export interface StreamLlmFunctionOptions {
+  // Called with each chunk of text as the model produces it
+  onToken: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// Call an edge function with `stream: true` and read its server-sent events (see sseResponse in
+// llmClient.ts). Resolves with the result of the final `done` event.
+export const streamLlmFunction = async <T>(
+  name: string,
+  body: Record<string, unknown>,
+  { onToken, signal }: StreamLlmFunctionOptions
+): Promise<T> => {
+  const aborted = () => new DOMException('Streaming was cancelled', 'AbortError');
+  if (signal?.aborted) throw aborted();
+
+  const { data, error } = await supabase.functions.invoke(name, { body: { ...body, stream: true } });
+  if (error) {
+    throw await toLlmFunctionError(error);
+  }
+
+  // supabase-js hands back the raw Response for event streams
+  const stream = data instanceof Response ? data.body : null;
+  if (!stream) {
+    throw new LlmFunctionError('internal', `${name} did not return an event stream`);
+  }
+
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  const cancel = () => { reader.cancel().catch(() => {}); };
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    let buffer = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (signal?.aborted) throw aborted();
+      if (done) break;
+
+      buffer += value;
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const event of events) {
+        const type = event.match(/^event: (.*)$/m)?.[1];
+        const payload = event.match(/^data: (.*)$/m)?.[1];
+        if (!type || payload === undefined) continue;
+
+        const message = JSON.parse(payload);
+        if (type === 'token') {
+          onToken(message.text);
+        } else if (type === 'done') {
+          return message.result as T;
+        } else if (type === 'error') {
+          throw isLlmErrorBody(message)
+            ? new LlmFunctionError(message.code, message.error, message.details)
+            : new LlmFunctionError('internal', 'The AI stream failed');
+        }
+      }
+    }
+  } catch (error) {
+    if (error instanceof LlmFunctionError || isAbortError(error)) throw error;
+    throw new LlmFunctionError('network', error instanceof Error ? error.message : String(error));
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  throw new LlmFunctionError('network', `${name} stream ended before it finished`);
+};
@@ -0,0 +1,27 @@
+export {
+  isLlmErrorBody,
+  validateLlmValue,
+  repairJson,
+  parseLlmJson,
+  describeLlmSchema,
+  contentEvaluationSchema,
+  speechSuggestionsSchema,
+  textAnalysisResultSchema,
+  improvedScriptSchema,
+  scriptChangesSchema,
+} from '../../supabase/functions/_shared/llmSchemas.ts';
+
+export type {
+  LlmSchema,
+  LlmErrorCode,
+  LlmErrorBody,
+  LlmValidationResult,
+  ContentEvaluation,
+  SpeechSuggestionsRequest,
+  SpeechSuggestions,
+  TextAnalysisRequest,
+  TextAnalysisResult,
+  ImproveSpeechRequest,
+  ImprovedScript,
+  ReportedScriptChange,
+} from '../../supabase/functions/_shared/llmSchemas.ts';
@@ -0,0 +1,279 @@
+// Client-side loudness and projection analysis over the whole recording, measured the way
+// BS.1770 (LUFS) does: K-weighted energy, gated to ignore silence. Times are in seconds,
+// matching the pace timeline.
+
+import type { TimedWord } from '@/utils/fillerWords';
+import { decodeAudioBlob, downmixToMono } from '@/utils/audioFormat';
+
+export interface LoudnessPoint {
+  time: number;
+  // Momentary loudness in LUFS; null for silence
+  lufs: number | null;
+}
+
+export interface LoudnessEvent {
+  start: number;
+  end: number;
+}
+
+export interface QuietSegment extends LoudnessEvent {
+  lufs: number;
+}
+
+export interface TrailingOff extends LoudnessEvent {
+  // The sentence's last word
+  text: string;
+  // How far the last word falls below the rest of the sentence
+  drop_lu: number;
+}
+
+export interface LoudnessAnalysis {
+  integrated_lufs: number;
+  peak_dbfs: number;
+  // Spread of short-term loudness (10th to 95th percentile), like EBU loudness range
+  loudness_range_lu: number;
+  too_quiet_overall: boolean;
+  timeline: LoudnessPoint[];
+  clipping_count: number;
+  clipping: LoudnessEvent[];
+  quiet_segments: QuietSegment[];
+  sentence_end_count: number;
+  trailing_off_count: number;
+  trailing_off: TrailingOff[];
+  assessment: string;
+}
+
+// Energy is summed per block; momentary (400ms) and short-term (3s) windows are built from blocks
+const BLOCK_SECONDS = 0.1;
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+// Points kept in the stored timeline
+const TIMELINE_STEP_BLOCKS = 5;
+
+const ABSOLUTE_GATE_LUFS = -70;
+// Below the speaker's own level by this much counts as silence rather than quiet speech
+const SPEECH_GATE_LU = 20;
+const QUIET_LU = 8;
+const MIN_QUIET_SECONDS = 1.5;
+const TRAILING_OFF_LU = 6;
+// Sentence body compared against its last word
+const SENTENCE_LEAD_SECONDS = 3;
+// Integrated loudness below this is hard to hear on most playback
+const TOO_QUIET_LUFS = -30;
+const CLIP_LEVEL = 0.999;
+// Clipped samples closer together than this form one event
+const CLIP_MERGE_SECONDS = 0.25;
+
+const toLufs = (meanSquare: number) => -0.691 + 10 * Math.log10(meanSquare);
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Direct form I biquad, in place
+const biquad = (samples: Float32Array, [b0, b1, b2, a0, a1, a2]: number[]) => {
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const x = samples[i];
+    const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    samples[i] = y;
+  }
+};
+
+// BS.1770 K-weighting: a high shelf for the head's acoustic effect, then a high-pass
+const kWeight = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const output = samples.slice();
+
+  const shelfGain = 3.99984385397;
+  const shelfQ = 0.7071752369554193;
+  const shelfW = (2 * Math.PI * 1681.9744509555319) / sampleRate;
+  const a = 10 ** (shelfGain / 40);
+  const shelfAlpha = Math.sin(shelfW) / (2 * shelfQ);
+  const cos = Math.cos(shelfW);
+  biquad(output, [
+    a * ((a + 1) + (a - 1) * cos + 2 * Math.sqrt(a) * shelfAlpha),
+    -2 * a * ((a - 1) + (a + 1) * cos),
+    a * ((a + 1) + (a - 1) * cos - 2 * Math.sqrt(a) * shelfAlpha),
+    (a + 1) - (a - 1) * cos + 2 * Math.sqrt(a) * shelfAlpha,
+    2 * ((a - 1) - (a + 1) * cos),
+    (a + 1) - (a - 1) * cos - 2 * Math.sqrt(a) * shelfAlpha,
+  ]);
+
+  const passW = (2 * Math.PI * 38.13547087613982) / sampleRate;
+  const passAlpha = Math.sin(passW) / (2 * 0.5003270373253953);
+  const passCos = Math.cos(passW);
+  biquad(output, [(1 + passCos) / 2, -(1 + passCos), (1 + passCos) / 2, 1 + passAlpha, -2 * passCos, 1 - passAlpha]);
+
+  return output;
+};
+
+// Mean square of each block of K-weighted audio
+const blockEnergies = (weighted: Float32Array, sampleRate: number) => {
+  const size = Math.round(BLOCK_SECONDS * sampleRate);
+  const energies: number[] = [];
+  for (let offset = 0; offset + size <= weighted.length; offset += size) {
+    let sum = 0;
+    for (let i = offset; i < offset + size; i++) sum += weighted[i] * weighted[i];
+    energies.push(sum / size);
+  }
+  return energies;
+};
+
+// Mean square of each sliding window of `length` blocks, aligned to the window's last block
+const windowEnergies = (energies: number[], length: number) => {
+  const windows: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < energies.length; i++) {
+    sum += energies[i] - (i >= length ? energies[i - length] : 0);
+    windows.push(Math.max(sum, 0) / Math.min(i + 1, length));
+  }
+  return windows;
+};
+
+// Two-stage gating from BS.1770: drop silence, then anything far below the average
+const gatedLoudness = (energies: number[], relativeGate: number) => {
+  const audible = energies.filter(energy => toLufs(energy) > ABSOLUTE_GATE_LUFS);
+  if (audible.length === 0) return ABSOLUTE_GATE_LUFS;
+  const threshold = toLufs(audible.reduce((sum, energy) => sum + energy, 0) / audible.length) - relativeGate;
+  const gated = audible.filter(energy => toLufs(energy) > threshold);
+  return toLufs(gated.reduce((sum, energy) => sum + energy, 0) / gated.length);
+};
+
+const findClipping = (samples: Float32Array, sampleRate: number): LoudnessEvent[] => {
+  const events: LoudnessEvent[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    // Two clipped samples in a row rules out a single legitimate peak
+    if (Math.abs(samples[i]) < CLIP_LEVEL || Math.abs(samples[i - 1]) < CLIP_LEVEL) continue;
+    const time = i / sampleRate;
+    const last = events[events.length - 1];
+    if (last && time - last.end <= CLIP_MERGE_SECONDS) {
+      last.end = time;
+    } else {
+      events.push({ start: time, end: time });
+    }
+  }
+  return events.map(event => ({ start: round(event.start, 2), end: round(event.end, 2) }));
+};
+
+const findQuietSegments = (momentary: number[], integrated: number): QuietSegment[] => {
+  const segments: QuietSegment[] = [];
+  let start = -1;
+  const close = (end: number) => {
+    if (start >= 0 && (end - start) * BLOCK_SECONDS >= MIN_QUIET_SECONDS) {
+      const levels = momentary.slice(start, end);
+      segments.push({
+        start: round(start * BLOCK_SECONDS),
+        end: round(end * BLOCK_SECONDS),
+        lufs: round(levels.reduce((sum, value) => sum + value, 0) / levels.length),
+      });
+    }
+    start = -1;
+  };
+  momentary.forEach((lufs, index) => {
+    const quiet = lufs < integrated - QUIET_LU && lufs > integrated - SPEECH_GATE_LU;
+    if (quiet && start < 0) start = index;
+    if (!quiet) close(index);
+  });
+  close(momentary.length);
+  return segments;
+};
+
+// Loudness of the speech (not silence) in a time range
+const speechLoudness = (energies: number[], from: number, to: number, integrated: number) => {
+  const blocks = energies
+    .slice(Math.max(0, Math.floor(from / BLOCK_SECONDS)), Math.ceil(to / BLOCK_SECONDS))
+    .filter(energy => toLufs(energy) > integrated - SPEECH_GATE_LU);
+  return blocks.length ? toLufs(blocks.reduce((sum, energy) => sum + energy, 0) / blocks.length) : null;
+};
+
+const findTrailingOff = (energies: number[], integrated: number, words: TimedWord[]) => {
+  const sentenceEnds = words.filter(word =>
+    /[.!?]["')\]]*$/.test(word.text) && typeof word.start === 'number' && typeof word.end === 'number'
+  );
+  const trailingOff: TrailingOff[] = [];
+  let previousEnd = 0;
+  for (const word of sentenceEnds) {
+    const start = (word.start as number) / 1000;
+    const end = (word.end as number) / 1000;
+    const body = speechLoudness(energies, Math.max(previousEnd, start - SENTENCE_LEAD_SECONDS), start, integrated);
+    const last = speechLoudness(energies, start, end, integrated);
+    previousEnd = end;
+    if (body === null) continue;
+    // A last word lost in silence trails off completely
+    const drop = body - (last ?? integrated - SPEECH_GATE_LU);
+    if (drop >= TRAILING_OFF_LU) {
+      trailingOff.push({ text: word.text, start: round(start), end: round(end), drop_lu: round(drop) });
+    }
+  }
+  return { sentenceEndCount: sentenceEnds.length, trailingOff };
+};
+
+const describe = (analysis: Omit<LoudnessAnalysis, 'assessment'>) => {
+  const notes: string[] = [];
+  if (analysis.too_quiet_overall) notes.push('The recording is quiet overall; project more or move closer to the mic.');
+  else notes.push('Your overall volume is at a comfortable level.');
+  if (analysis.loudness_range_lu < 3) notes.push('Your volume barely changes; use emphasis to make key points stand out.');
+  else if (analysis.loudness_range_lu > 15) notes.push('Your volume swings a lot; aim for steadier projection.');
+  if (analysis.trailing_off_count > 0) {
+    notes.push(`${analysis.trailing_off_count} of ${analysis.sentence_end_count} sentences trailed off at the end.`);
+  }
+  if (analysis.quiet_segments.length > 0) {
+    notes.push(`${analysis.quiet_segments.length} stretch${analysis.quiet_segments.length === 1 ? '' : 'es'} dropped noticeably below your usual level.`);
+  }
+  if (analysis.clipping_count > 0) {
+    notes.push(`The audio clipped ${analysis.clipping_count} time${analysis.clipping_count === 1 ? '' : 's'}; back away from the mic when speaking loudly.`);
+  }
+  return notes.join(' ');
+};
+
+// Null when the recording is silent or too short to measure
+export const analyzeLoudness = (samples: Float32Array, sampleRate: number, words: TimedWord[] = []): LoudnessAnalysis | null => {
+  const energies = blockEnergies(kWeight(samples, sampleRate), sampleRate);
+  if (energies.length < MOMENTARY_BLOCKS) return null;
+
+  const momentaryEnergies = windowEnergies(energies, MOMENTARY_BLOCKS);
+  const momentary = momentaryEnergies.map(toLufs);
+  const integrated = gatedLoudness(momentaryEnergies, 10);
+  if (integrated <= ABSOLUTE_GATE_LUFS) return null;
+
+  const shortTerm = windowEnergies(energies, SHORT_TERM_BLOCKS)
+    .map(toLufs)
+    .filter(lufs => lufs > ABSOLUTE_GATE_LUFS && lufs > integrated - SPEECH_GATE_LU)
+    .sort((a, b) => a - b);
+  const range = shortTerm.length
+    ? shortTerm[Math.floor((shortTerm.length - 1) * 0.95)] - shortTerm[Math.floor((shortTerm.length - 1) * 0.1)]
+    : 0;
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+
+  const timeline: LoudnessPoint[] = [];
+  for (let index = 0; index < momentary.length; index += TIMELINE_STEP_BLOCKS) {
+    const lufs = momentary[index];
+    timeline.push({ time: round((index + 1) * BLOCK_SECONDS), lufs: lufs > integrated - SPEECH_GATE_LU ? round(lufs) : null });
+  }
+
+  const clipping = findClipping(samples, sampleRate);
+  const { sentenceEndCount, trailingOff } = findTrailingOff(energies, integrated, words);
+  const analysis = {
+    integrated_lufs: round(integrated),
+    // Floored so a silent file still stores a finite number
+    peak_dbfs: round(20 * Math.log10(Math.max(peak, 1e-5))),
+    loudness_range_lu: round(range),
+    too_quiet_overall: integrated < TOO_QUIET_LUFS,
+    timeline,
+    clipping_count: clipping.length,
+    clipping,
+    quiet_segments: findQuietSegments(momentary, integrated),
+    sentence_end_count: sentenceEndCount,
+    trailing_off_count: trailingOff.length,
+    trailing_off: trailingOff,
+  };
+  return { ...analysis, assessment: describe(analysis) };
+};
+
+// Decode a recording and analyse its loudness; words add trailing-off detection at sentence ends
+export const analyzeRecordingLoudness = async (audioBlob: Blob, words: TimedWord[] = []): Promise<LoudnessAnalysis | null> => {
+  const audioBuffer = await decodeAudioBlob(audioBlob);
+  return analyzeLoudness(downmixToMono(audioBuffer), audioBuffer.sampleRate, words);
+};
@@ -0,0 +1,47 @@
+import type { AnalysisResult } from '@/types/speechAnalysis';
+import { aiService } from '@/services/aiService';
+import { localLLMService } from '@/services/localLLMService';
+import { transcriptionRegistry, offsetTranscriptTimings } from '@/services/transcriptionService';
+import { convertAssemblyAIToAnalysisResult } from '@/utils/analysisConversion';
+
+// Offline mode uses whichever Whisper model is selected under Local AI
+export const getOfflineModelId = () => aiService.getActiveModelId('speech-to-text');
+
+// Whether the on-device model is ready or can be loaded from the browser cache
+export const prepareOfflineModel = async (): Promise<boolean> => {
+  const modelId = getOfflineModelId();
+  return aiService.isModelLoaded(modelId) || aiService.loadModel(modelId, { localOnly: true });
+};
+
+// Record -> transcript -> AnalysisResult entirely in the browser. Nothing here talks to
+// Supabase or AssemblyAI; the result is queued and synced later. timeOffsetMs is how much
+// audio was trimmed from the start of the recording before it was passed in.
+export const analyzeOffline = async (audioBlob: Blob, duration: number, timeOffsetMs = 0): Promise<AnalysisResult> => {
+  if (!(await prepareOfflineModel())) {
+    const { name } = aiService.getActiveModel('speech-to-text');
+    throw new Error(`The on-device speech model has not been downloaded yet. Load ${name} under Local AI while online to use offline mode.`);
+  }
+
+  const provider = transcriptionRegistry.get('local-whisper');
+  if (!provider) {
+    throw new Error('On-device transcription is not available');
+  }
+
+  console.log('✈️ Running offline analysis...');
+  const transcription = offsetTranscriptTimings(await provider.transcribe(audioBlob), timeOffsetMs);
+  const analysis = convertAssemblyAIToAnalysisResult(transcription, duration);
+
+  // No AssemblyAI summary offline; the local model evaluates the content if it was
+  // downloaded, otherwise this falls back to the heuristic analysis
+  analysis.ai_suggestions = await localLLMService.analyzeSpeech(
+    transcription.transcript,
+    analysis.overall_score,
+    analysis.clarity_score,
+    analysis.filler_words.examples,
+    analysis.tone_analysis.primary_tone,
+    { localOnly: true }
+  );
+
+  console.log('✅ Offline analysis completed');
+  return analysis;
+};
@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { AnalysisResult } from '@/types/speechAnalysis';
+import { uploadRecordingAudio, deleteRecordingAudio } from '@/utils/audioStorage';
+
+// Recordings analysed in offline mode wait here (audio included) until they can be
+// written to speech_recordings. IndexedDB rather than localStorage so the audio Blob fits.
+const DB_NAME = 'milao-offline';
+const DB_VERSION = 1;
+const STORE = 'pending_recordings';
+
+export interface QueuedRecording {
+  id: string;
+  user_id: string;
+  title: string;
+  duration: number;
+  analysis: AnalysisResult;
+  audio: Blob;
+  file_name?: string;
+  created_at: string;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('user_id', 'user_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const queueOfflineRecording = async (
+  recording: Omit<QueuedRecording, 'id' | 'created_at'>
+): Promise<QueuedRecording> => {
+  const queued: QueuedRecording = {
+    ...recording,
+    id: crypto.randomUUID(),
+    created_at: new Date().toISOString(),
+  };
+  await runRequest('readwrite', store => store.put(queued));
+  console.log('📥 Recording queued for sync:', queued.id);
+  return queued;
+};
+
+export const getQueuedRecordings = async (userId: string): Promise<QueuedRecording[]> => {
+  const recordings = await runRequest('readonly', store => store.index('user_id').getAll(userId));
+  return (recordings as QueuedRecording[]).sort((a, b) => a.created_at.localeCompare(b.created_at));
+};
+
+export const countQueuedRecordings = (userId: string): Promise<number> =>
+  runRequest('readonly', store => store.index('user_id').count(userId));
+
+export const removeQueuedRecording = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+// Upload each queued recording and insert its row; anything that fails stays queued
+// for the next attempt.
+export const syncQueuedRecordings = async (userId: string): Promise<SyncResult> => {
+  const queued = await getQueuedRecordings(userId);
+  const result: SyncResult = { synced: 0, failed: 0 };
+
+  for (const recording of queued) {
+    try {
+      const audioPath = await uploadRecordingAudio(userId, recording.audio, { fileName: recording.file_name });
+      const { analysis } = recording;
+      const { error } = await supabase.from('speech_recordings').insert({
+        user_id: userId,
+        title: recording.title,
+        duration: recording.duration,
+        overall_score: analysis.overall_score,
+        clarity_score: analysis.clarity_score,
+        pace: analysis.pace_analysis.words_per_minute,
+        filler_words_count: analysis.filler_words.count,
+        primary_tone: analysis.tone_analysis.primary_tone,
+        analysis_data: analysis as unknown as Json,
+        scoring_version: analysis.scoring?.version || null,
+        audio_url: audioPath,
+        created_at: recording.created_at,
+      });
+      if (error) {
+        // Don't leave an orphaned file behind; the next attempt uploads it again
+        await deleteRecordingAudio(audioPath);
+        throw error;
+      }
+
+      await removeQueuedRecording(recording.id);
+      result.synced++;
+    } catch (error) {
+      console.error('❌ Failed to sync queued recording:', recording.id, error);
+      result.failed++;
+    }
+  }
+
+  if (queued.length > 0) {
+    console.log(`🔄 Offline sync finished: ${result.synced} synced, ${result.failed} failed`);
+  }
+  return result;
+};
@@ -0,0 +1,13 @@
+export {
+  RUSHING_WPM,
+  DRAGGING_WPM,
+  computePaceTimeline,
+} from '../../supabase/functions/_shared/paceTimeline.ts';
+
+export type {
+  PaceStatus,
+  PacePoint,
+  PaceSegment,
+  PaceTimeline,
+  PaceTimelineOptions,
+} from '../../supabase/functions/_shared/paceTimeline.ts';
@@ -0,0 +1,14 @@
+export {
+  MIN_PAUSE_MS,
+  HESITATION_MS,
+  LONG_SILENCE_MS,
+  KEY_POINT_MARKERS,
+  analyzePauses,
+  getPauseFeedback,
+} from '../../supabase/functions/_shared/pauses.ts';
+
+export type {
+  PauseType,
+  Pause,
+  PauseAnalysis,
+} from '../../supabase/functions/_shared/pauses.ts';
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { detectFillerWords, detectFillerWordsInText, summarizeFillerWords } from '@/utils/fillerWords';
 
 // Convert blob to base64
 const blobToBase64 = (blob: Blob): Promise<string> => {
@@ -94,13 +95,11 @@ export const convertToLegacyFormat = (personalizedResult: PersonalizedAnalysisRe
   const durationInMinutes = (duration || 5000) / 60000; // Convert ms to minutes
   const wpm = Math.round(wordCount / durationInMinutes);
   
-  // Extract filler words from transcript
-  const fillerWords = words?.filter(w => 
-    w.text.includes('[uh]') || 
-    w.text.includes('[um]') || 
-    w.text.toLowerCase().includes('um') || 
-    w.text.toLowerCase().includes('uh')
-  ) || [];
+  // Extract filler words from the timed words (or the transcript when words are missing)
+  const fillerSummary = summarizeFillerWords(
+    words?.length ? detectFillerWords(words) : detectFillerWordsInText(transcript),
+    wordCount
+  );
   
   return {
     overall_score: personalizedAnalysis.overallScore,
@@ -111,11 +110,7 @@ export const convertToLegacyFormat = (personalizedResult: PersonalizedAnalysisRe
       assessment: personalizedAnalysis.paceScore > 80 ? 'Perfect pace' : 
                  personalizedAnalysis.paceScore > 60 ? 'Natural pace' : 'Needs improvement'
     },
-    filler_words: {
-      count: personalizedAnalysis.fillerWordsCount,
-      percentage: `${((personalizedAnalysis.fillerWordsCount / wordCount) * 100).toFixed(1)}%`,
-      examples: fillerWords.slice(0, 5).map(w => w.text) || ['um', 'uh']
-    },
+    filler_words: fillerSummary,
     tone_analysis: {
       primary_tone: personalizedAnalysis.toneAssessment,
       confidence_level: personalizedAnalysis.overallScore > 80 ? 'High' : 
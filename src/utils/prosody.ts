@@ -0,0 +1,238 @@
+// Client-side prosody analysis: a pitch (F0) contour from the decoded audio, and how varied
+// the voice is over it. Edge functions never see the audio, so this stays in the browser.
+
+import type { TimedWord } from '@/utils/fillerWords';
+import { decodeAudioBlob, downmixToMono, downsample } from '@/utils/audioFormat';
+
+export interface PitchPoint {
+  // Frame centre in milliseconds
+  time: number;
+  // Null for unvoiced or silent frames
+  hz: number | null;
+}
+
+export interface MonotoneStretch {
+  start: number;
+  end: number;
+}
+
+export interface UptalkOccurrence {
+  // The sentence's last word, with its timing in milliseconds
+  text: string;
+  start: number;
+  end: number;
+  rise_semitones: number;
+}
+
+export interface ProsodyAnalysis {
+  // 0-100; higher means a more varied, expressive voice
+  vocal_variety_score: number;
+  median_pitch_hz: number;
+  // 5th to 95th percentile of the voiced contour
+  pitch_range_semitones: number;
+  // Standard deviation around the median
+  pitch_variability_semitones: number;
+  voiced_ratio: number;
+  monotone_stretches: MonotoneStretch[];
+  // Share of voiced time spent in monotone stretches, 0-1
+  monotone_ratio: number;
+  sentence_end_count: number;
+  uptalk_count: number;
+  uptalk: UptalkOccurrence[];
+  assessment: string;
+}
+
+export interface PitchOptions {
+  frameMs?: number;
+  hopMs?: number;
+  minHz?: number;
+  maxHz?: number;
+}
+
+// Pitch tracking runs at this rate; speech F0 sits well below its 4kHz Nyquist limit
+const ANALYSIS_SAMPLE_RATE = 8000;
+// Frames quieter than this are treated as silence
+const SILENCE_RMS = 0.01;
+// Minimum normalised autocorrelation for a frame to count as voiced
+const VOICING_THRESHOLD = 0.5;
+// A stretch this long with less spread than MONOTONE_SEMITONES is monotone
+const MONOTONE_WINDOW_MS = 4000;
+const MONOTONE_SEMITONES = 1.5;
+// A statement whose last word rises at least this much sounds like a question
+const UPTALK_SEMITONES = 2;
+const UPTALK_LEAD_MS = 500;
+
+const toSemitones = (hz: number, reference: number) => 12 * Math.log2(hz / reference);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted.length ? sorted[Math.floor(sorted.length / 2)] : 0;
+};
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)))];
+
+const standardDeviation = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+// F0 per frame by normalised autocorrelation over lags in the speech range
+export const extractPitchContour = (
+  samples: Float32Array,
+  sampleRate: number,
+  { frameMs = 40, hopMs = 20, minHz = 75, maxHz = 400 }: PitchOptions = {}
+): PitchPoint[] => {
+  const audio = downsample(samples, sampleRate, ANALYSIS_SAMPLE_RATE);
+  const rate = Math.min(sampleRate, ANALYSIS_SAMPLE_RATE);
+  const frameSize = Math.round((frameMs / 1000) * rate);
+  const hop = Math.round((hopMs / 1000) * rate);
+  const minLag = Math.floor(rate / maxHz);
+  const maxLag = Math.min(frameSize - 1, Math.ceil(rate / minHz));
+  const contour: PitchPoint[] = [];
+
+  for (let offset = 0; offset + frameSize <= audio.length; offset += hop) {
+    const time = Math.round(((offset + frameSize / 2) / rate) * 1000);
+    let energy = 0;
+    for (let i = 0; i < frameSize; i++) energy += audio[offset + i] ** 2;
+    if (Math.sqrt(energy / frameSize) < SILENCE_RMS) {
+      contour.push({ time, hz: null });
+      continue;
+    }
+
+    const correlations = new Float32Array(maxLag + 1);
+    let bestCorrelation = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      let correlation = 0;
+      let energyA = 0;
+      let energyB = 0;
+      for (let i = 0; i + lag < frameSize; i++) {
+        const a = audio[offset + i];
+        const b = audio[offset + i + lag];
+        correlation += a * b;
+        energyA += a * a;
+        energyB += b * b;
+      }
+      correlations[lag] = correlation / (Math.sqrt(energyA * energyB) || 1);
+      bestCorrelation = Math.max(bestCorrelation, correlations[lag]);
+    }
+    // Multiples of the period correlate about as well; the first strong peak avoids octave errors
+    let bestLag = 0;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const peak = correlations[lag] >= (correlations[lag - 1] ?? 0) && correlations[lag] >= (correlations[lag + 1] ?? 0);
+      if (peak && correlations[lag] >= bestCorrelation * 0.9) {
+        bestLag = lag;
+        break;
+      }
+    }
+    contour.push({ time, hz: bestCorrelation >= VOICING_THRESHOLD && bestLag > 0 ? round(rate / bestLag) : null });
+  }
+
+  // Drop isolated octave jumps against both neighbours
+  return contour.map((point, index) => {
+    const previous = contour[index - 1]?.hz;
+    const next = contour[index + 1]?.hz;
+    if (!point.hz || !previous || !next) return point;
+    const jump = (hz: number) => Math.abs(toSemitones(point.hz as number, hz));
+    return jump(previous) > 8 && jump(next) > 8 ? { ...point, hz: null } : point;
+  });
+};
+
+const voicedIn = (contour: PitchPoint[], start: number, end: number) =>
+  contour.filter(point => point.hz !== null && point.time >= start && point.time <= end).map(point => point.hz as number);
+
+const findMonotoneStretches = (contour: PitchPoint[], reference: number): MonotoneStretch[] => {
+  const stretches: MonotoneStretch[] = [];
+  const end = contour.length ? contour[contour.length - 1].time : 0;
+  for (let start = 0; start + MONOTONE_WINDOW_MS <= end; start += MONOTONE_WINDOW_MS / 4) {
+    const window = contour.filter(point => point.time >= start && point.time < start + MONOTONE_WINDOW_MS);
+    const voiced = window.filter(point => point.hz !== null).map(point => toSemitones(point.hz as number, reference));
+    // Mostly silence isn't monotone speech
+    if (voiced.length < window.length / 2 || standardDeviation(voiced) >= MONOTONE_SEMITONES) continue;
+    const last = stretches[stretches.length - 1];
+    if (last && start <= last.end) {
+      last.end = start + MONOTONE_WINDOW_MS;
+    } else {
+      stretches.push({ start, end: start + MONOTONE_WINDOW_MS });
+    }
+  }
+  return stretches;
+};
+
+// Statements (not questions) whose final word ends higher than the lead-in to it
+const findUptalk = (contour: PitchPoint[], words: TimedWord[]) => {
+  const sentenceEnds = words.filter(word =>
+    /[.!]["')\]]*$/.test(word.text) && typeof word.start === 'number' && typeof word.end === 'number'
+  );
+  const uptalk: UptalkOccurrence[] = [];
+  for (const word of sentenceEnds) {
+    const start = word.start as number;
+    const end = word.end as number;
+    const lead = voicedIn(contour, start - UPTALK_LEAD_MS, start);
+    const tail = voicedIn(contour, (start + end) / 2, end);
+    if (lead.length < 3 || tail.length < 2) continue;
+    const rise = toSemitones(median(tail), median(lead));
+    if (rise >= UPTALK_SEMITONES) {
+      uptalk.push({ text: word.text, start, end, rise_semitones: round(rise) });
+    }
+  }
+  return { sentenceEndCount: sentenceEnds.length, uptalk };
+};
+
+const describe = (analysis: Omit<ProsodyAnalysis, 'assessment'>) => {
+  const notes: string[] = [];
+  if (analysis.vocal_variety_score >= 75) notes.push('Your voice has lively, natural variety.');
+  else if (analysis.vocal_variety_score >= 50) notes.push('Your pitch varies a fair amount; lean into it on key points.');
+  else notes.push('Your pitch stays quite flat; vary it to keep listeners engaged.');
+  if (analysis.monotone_stretches.length > 0) {
+    notes.push(`${analysis.monotone_stretches.length} monotone stretch${analysis.monotone_stretches.length === 1 ? '' : 'es'} detected.`);
+  }
+  if (analysis.uptalk_count > 0) {
+    notes.push(`${analysis.uptalk_count} of ${analysis.sentence_end_count} statements ended on a rising pitch, which can sound unsure.`);
+  }
+  return notes.join(' ');
+};
+
+// Null when there isn't enough voiced audio to say anything
+export const analyzeProsody = (contour: PitchPoint[], words: TimedWord[] = []): ProsodyAnalysis | null => {
+  const voiced = contour.filter(point => point.hz !== null).map(point => point.hz as number);
+  if (voiced.length < 50) return null;
+
+  const reference = median(voiced);
+  const semitones = voiced.map(hz => toSemitones(hz, reference)).sort((a, b) => a - b);
+  const range = percentile(semitones, 0.95) - percentile(semitones, 0.05);
+  const variability = standardDeviation(semitones);
+
+  const monotoneStretches = findMonotoneStretches(contour, reference);
+  const monotoneVoiced = monotoneStretches.reduce((sum, stretch) => sum + voicedIn(contour, stretch.start, stretch.end).length, 0);
+  const monotoneRatio = Math.min(1, monotoneVoiced / voiced.length);
+  const { sentenceEndCount, uptalk } = findUptalk(contour, words);
+  const uptalkRatio = sentenceEndCount ? uptalk.length / sentenceEndCount : 0;
+
+  // Around 1 semitone of spread is flat and 4 or more is expressive
+  const varietyBase = Math.min(1, Math.max(0, (variability - 1) / 3)) * 100;
+  const score = Math.round(Math.max(0, Math.min(100, varietyBase - monotoneRatio * 30 - uptalkRatio * 20)));
+
+  const analysis = {
+    vocal_variety_score: score,
+    median_pitch_hz: Math.round(reference),
+    pitch_range_semitones: round(range),
+    pitch_variability_semitones: round(variability),
+    voiced_ratio: round(voiced.length / contour.length, 2),
+    monotone_stretches: monotoneStretches,
+    monotone_ratio: round(monotoneRatio, 2),
+    sentence_end_count: sentenceEndCount,
+    uptalk_count: uptalk.length,
+    uptalk,
+  };
+  return { ...analysis, assessment: describe(analysis) };
+};
+
+// Decode a recording and analyse its prosody; words add uptalk detection at sentence ends
+export const analyzeRecordingProsody = async (audioBlob: Blob, words: TimedWord[] = []): Promise<ProsodyAnalysis | null> => {
+  const audioBuffer = await decodeAudioBlob(audioBlob);
+  return analyzeProsody(extractPitchContour(downmixToMono(audioBuffer), audioBuffer.sampleRate), words);
+};
@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { AnalysisResult, AnalysisVersion } from '@/types/speechAnalysis';
+import { convertAssemblyAIToAnalysisResult } from '@/utils/analysisConversion';
+import { downloadRecordingAudio } from '@/utils/audioStorage';
+import { SCORING_VERSION } from '@/utils/scoring';
+import { analyzeScriptAdherence } from '@/utils/scriptAdherence';
+import { analyzeRecordingProsody } from '@/utils/prosody';
+import { analyzeRecordingLoudness } from '@/utils/loudness';
+import { transcriptionRegistry, getPreferredTranscriptionProvider, ANALYSIS_REQUIREMENTS, type NormalizedTranscript } from '@/services/transcriptionService';
+
+// The subset of a speech_recordings row that re-analysis needs
+export interface StoredRecording {
+  id: string;
+  duration: number;
+  analysis_data: unknown;
+  audio_url?: string | null;
+  scoring_version?: string | null;
+  updated_at?: string;
+}
+
+export interface ScoreChange {
+  label: string;
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface ReanalysisResult {
+  recordingId: string;
+  // Whether we could reuse the stored transcript or had to transcribe the audio again
+  source: 'stored_transcript' | 'retranscribed';
+  before: AnalysisResult | null;
+  after: AnalysisResult;
+  changes: ScoreChange[];
+  // Columns written back to speech_recordings
+  updates: {
+    overall_score: number;
+    clarity_score: number;
+    pace: number;
+    filler_words_count: number;
+    primary_tone: string;
+    analysis_data: AnalysisResult;
+    scoring_version: string;
+    updated_at: string;
+  };
+  // Set when the audio had to be downloaded
+  audioBlob?: Blob;
+}
+
+// analysis_data as stored: our AnalysisResult, or the raw AssemblyAI response older rows kept
+type StoredAnalysis = Partial<AnalysisResult> & {
+  confidence?: number;
+  sentiment?: { sentiment?: string };
+  summary?: string;
+};
+
+// Recordings scored by an older engine (or before versioning existed)
+export const isOutdated = (recording: Pick<StoredRecording, 'scoring_version'>) =>
+  recording.scoring_version !== SCORING_VERSION;
+
+// Rebuild the transcription input from whatever the row stored
+const getStoredTranscription = (stored: StoredAnalysis | null) => {
+  if (!stored?.transcript) return null;
+  return {
+    transcript: stored.transcript,
+    words: Array.isArray(stored.words) ? stored.words : undefined,
+    confidence: stored.confidence,
+    sentiment: stored.sentiment ?? (stored.tone_analysis ? { sentiment: stored.tone_analysis.primary_tone } : undefined),
+    summary: stored.summary ?? stored.ai_suggestions?.speechSummary,
+  };
+};
+
+const toNumber = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+export const diffAnalysisScores = (before: StoredAnalysis | null, after: AnalysisResult): ScoreChange[] => {
+  const metrics: Array<[string, number | null, number | null]> = [
+    ['Overall', toNumber(before?.overall_score), after.overall_score],
+    ['Clarity', toNumber(before?.clarity_score), after.clarity_score],
+    ['Pace (WPM)', toNumber(before?.pace_analysis?.words_per_minute), after.pace_analysis.words_per_minute],
+    ['Filler words', toNumber(before?.filler_words?.count), after.filler_words.count],
+    ['Content', toNumber(before?.scoring?.content_score), after.scoring?.content_score ?? null],
+    ['Vocal variety', toNumber(before?.prosody?.vocal_variety_score), after.prosody?.vocal_variety_score ?? null],
+  ];
+
+  return metrics.map(([label, previous, next]) => ({
+    label,
+    before: previous,
+    after: next,
+    delta: previous !== null && next !== null ? next - previous : null,
+  }));
+};
+
+// Re-run analysis for a saved recording and store the result as a new version,
+// keeping the previous analysis in `previous_versions`.
+export const reanalyzeRecording = async (recording: StoredRecording, userId?: string): Promise<ReanalysisResult> => {
+  const stored = (recording.analysis_data || null) as StoredAnalysis | null;
+  let transcription: ReturnType<typeof getStoredTranscription> | NormalizedTranscript = getStoredTranscription(stored);
+  let source: ReanalysisResult['source'] = 'stored_transcript';
+  let audioBlob: Blob | undefined;
+
+  if (!transcription) {
+    if (!recording.audio_url) {
+      throw new Error('No transcript or audio available to re-analyse this recording');
+    }
+    console.log('🔄 No stored transcript, transcribing audio again for', recording.id);
+    audioBlob = await downloadRecordingAudio(recording.audio_url);
+    transcription = await transcriptionRegistry.transcribe(audioBlob, {
+      userId,
+      preferred: await getPreferredTranscriptionProvider(userId),
+      requirements: ANALYSIS_REQUIREMENTS,
+    });
+    source = 'retranscribed';
+  }
+
+  const analysis = convertAssemblyAIToAnalysisResult(transcription, recording.duration);
+
+  let before: AnalysisResult | null = null;
+  let earlierVersions: AnalysisVersion[] = [];
+  if (stored) {
+    const { previous_versions, ...rest } = stored;
+    const previous = rest as AnalysisResult;
+    before = previous;
+    earlierVersions = [
+      ...(previous_versions || []),
+      {
+        scoring_version: recording.scoring_version ?? previous.scoring?.version ?? null,
+        analyzed_at: recording.updated_at || new Date().toISOString(),
+        analysis: previous,
+      },
+    ];
+  }
+  const after: AnalysisResult = { ...analysis, previous_versions: earlierVersions };
+  // A rehearsal is compared to its script again, using the new transcript
+  if (before?.script_adherence?.script) {
+    after.script_adherence = analyzeScriptAdherence(before.script_adherence.script, analysis.words?.length ? analysis.words : analysis.transcript || '');
+  }
+  // The audio hasn't changed, so prosody and loudness are only recomputed when we had to download it anyway
+  if (audioBlob) {
+    try {
+      after.prosody = (await analyzeRecordingProsody(audioBlob, analysis.words)) ?? undefined;
+    } catch (prosodyError) {
+      console.warn('Prosody analysis failed:', prosodyError);
+    }
+    try {
+      after.loudness = (await analyzeRecordingLoudness(audioBlob, analysis.words)) ?? undefined;
+    } catch (loudnessError) {
+      console.warn('Loudness analysis failed:', loudnessError);
+    }
+  }
+  if (!after.prosody && before?.prosody) after.prosody = before.prosody;
+  if (!after.loudness && before?.loudness) after.loudness = before.loudness;
+  // The stored transcript came from the cleaned-up audio, so its report still explains the scores
+  if (source === 'stored_transcript' && before?.preprocessing) after.preprocessing = before.preprocessing;
+
+  const updates: ReanalysisResult['updates'] = {
+    overall_score: after.overall_score,
+    clarity_score: after.clarity_score,
+    pace: after.pace_analysis.words_per_minute,
+    filler_words_count: after.filler_words.count,
+    primary_tone: after.tone_analysis.primary_tone,
+    analysis_data: after,
+    scoring_version: SCORING_VERSION,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from('speech_recordings')
+    .update({ ...updates, analysis_data: after as unknown as Json })
+    .eq('id', recording.id);
+
+  if (error) throw error;
+
+  console.log(`✅ Re-analysed recording ${recording.id} (${source})`);
+  return {
+    recordingId: recording.id,
+    source,
+    before,
+    after,
+    changes: diffAnalysisScores(before, after),
+    updates,
+    audioBlob,
+  };
+};
@@ -0,0 +1,14 @@
+export {
+  SCORING_VERSION,
+  SCORE_WEIGHTS,
+  IDEAL_PACE_WPM,
+  scoreSpeech,
+} from '../../supabase/functions/_shared/scoring.ts';
+
+export type {
+  ScoringInput,
+  ScoreFactor,
+  ScoreExplanation,
+  ContentScores,
+  SpeechScores,
+} from '../../supabase/functions/_shared/scoring.ts';
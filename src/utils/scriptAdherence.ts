@@ -0,0 +1,9 @@
+export {
+  analyzeScriptAdherence,
+} from '../../supabase/functions/_shared/scriptAdherence.ts';
+
+export type {
+  AdherenceSegmentType,
+  AdherenceSegment,
+  ScriptAdherence,
+} from '../../supabase/functions/_shared/scriptAdherence.ts';
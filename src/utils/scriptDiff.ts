@@ -0,0 +1,229 @@
+import { FILLER_WORDS, normalizeToken } from '@/utils/fillerWords';
+import type { ReportedScriptChange } from '@/utils/llmSchemas';
+
+export type ImprovementCategory = 'vocabulary' | 'flow' | 'tone' | 'clarity' | 'persuasion' | 'engagement';
+
+export const IMPROVEMENT_OPTIONS: Array<{ id: ImprovementCategory; label: string; description: string }> = [
+  { id: 'vocabulary', label: 'Vocabulary', description: 'Enhance word choice and variety' },
+  { id: 'flow', label: 'Flow', description: 'Improve transitions and structure' },
+  { id: 'tone', label: 'Tone', description: 'Adjust emotional delivery' },
+  { id: 'clarity', label: 'Clarity', description: 'Make message clearer' },
+  { id: 'persuasion', label: 'Persuasion', description: 'Increase convincing power' },
+  { id: 'engagement', label: 'Engagement', description: 'Make more captivating' }
+];
+
+// 'custom' marks edits from a free-text request when no option explains them
+export type ScriptChangeCategory = ImprovementCategory | 'custom';
+
+export type ScriptDiffSegment =
+  | { type: 'equal'; text: string }
+  | { type: 'change'; id: number; removed: string; added: string; category: ScriptChangeCategory };
+
+export type ScriptChange = Extract<ScriptDiffSegment, { type: 'change' }>;
+
+// Words with the whitespace that follows them, so joined tokens keep the original layout
+const tokenize = (text: string): string[] => (text || '').trim().match(/\S+\s*/g) || [];
+
+const tokenKey = (token: string) => normalizeToken(token) || token.trim();
+
+// Edits separated by a single short word ("a", "the", "to") read as one phrase-level change
+const MAX_BRIDGE_LENGTH = 3;
+
+// Longest common subsequence over word keys. Shared leading/trailing words are skipped first
+// so typical scripts stay well below the quadratic worst case.
+const diffTokens = (a: string[], b: string[]): Array<{ type: 'equal' | 'removed' | 'added'; token: string }> => {
+  const aKeys = a.map(tokenKey);
+  const bKeys = b.map(tokenKey);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && aKeys[prefix] === bKeys[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    aKeys[a.length - 1 - suffix] === bKeys[b.length - 1 - suffix]
+  ) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = aKeys[prefix + i] === bKeys[prefix + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  // Equal tokens take the improved script's spelling and spacing
+  const ops: Array<{ type: 'equal' | 'removed' | 'added'; token: string }> =
+    b.slice(0, prefix).map(token => ({ type: 'equal', token }));
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && aKeys[prefix + i] === bKeys[prefix + j]) {
+      ops.push({ type: 'equal', token: b[prefix + j] });
+      i++;
+      j++;
+    } else if (j < m && (i === n || lengths[i * (m + 1) + j + 1] >= lengths[(i + 1) * (m + 1) + j])) {
+      ops.push({ type: 'added', token: b[prefix + j] });
+      j++;
+    } else {
+      ops.push({ type: 'removed', token: a[prefix + i] });
+      i++;
+    }
+  }
+  return ops.concat(b.slice(b.length - suffix).map(token => ({ type: 'equal', token })));
+};
+
+const TRANSITIONS = [
+  'first', 'second', 'third', 'next', 'then', 'finally', 'however', 'therefore', 'moreover',
+  'furthermore', 'additionally', 'meanwhile', 'consequently', 'ultimately', 'similarly',
+  'in addition', 'as a result', 'for example', 'for instance', 'in conclusion', 'to begin',
+  'on the other hand', 'that said', 'in short',
+];
+const ENGAGEMENT_WORDS = ['you', 'your', "you're", 'imagine', 'picture', "let's", 'we', 'together', 'story'];
+const PERSUASION_WORDS = [
+  'because', 'proven', 'evidence', 'research', 'results', 'must', 'should', 'will', 'benefit',
+  'guarantee', 'clearly', 'certainly', 'essential', 'critical', 'opportunity',
+];
+const TONE_WORDS = [
+  'excited', 'proud', 'grateful', 'thrilled', 'passionate', 'confident', 'honored', 'delighted',
+  'happy', 'sadly', 'unfortunately', 'please', 'thank', 'thanks', 'warmly', 'sincerely',
+];
+
+const words = (text: string) => tokenize(text).map(tokenKey).filter(Boolean);
+
+const containsPhrase = (text: string, phrases: string[]) => {
+  const padded = ` ${words(text).join(' ')} `;
+  return phrases.some(phrase => padded.includes(` ${phrase} `));
+};
+
+// Count how many of the given phrases the edit introduced (present in added, absent in removed)
+const introduced = (removed: string, added: string, phrases: string[]) =>
+  phrases.filter(phrase => containsPhrase(added, [phrase]) && !containsPhrase(removed, [phrase])).length;
+
+// For edits the model didn't report: guess from the shape of the edit, and only pick among
+// the options the user asked for
+export const classifyScriptChange = (
+  removed: string,
+  added: string,
+  requested: ImprovementCategory[]
+): ScriptChangeCategory => {
+  if (requested.length === 0) return 'custom';
+  if (requested.length === 1) return requested[0];
+
+  const removedWords = words(removed);
+  const addedWords = words(added);
+  const fillerRemoved = removedWords.some(word => FILLER_WORDS.includes(word));
+
+  const scores: Record<ImprovementCategory, number> = {
+    flow: introduced(removed, added, TRANSITIONS) * 2 + (/[.;:]\s*$/.test(added) && !/[.;:]\s*$/.test(removed) ? 1 : 0),
+    engagement: introduced(removed, added, ENGAGEMENT_WORDS) + (/[?!]/.test(added) && !/[?!]/.test(removed) ? 2 : 0),
+    persuasion: introduced(removed, added, PERSUASION_WORDS) + (/\d/.test(added) && !/\d/.test(removed) ? 1 : 0),
+    tone: introduced(removed, added, TONE_WORDS) * 2,
+    clarity: (fillerRemoved ? 2 : 0) + (addedWords.length < removedWords.length ? 1 : 0),
+    vocabulary: removedWords.length > 0 && addedWords.length > 0 && Math.abs(removedWords.length - addedWords.length) <= 1 ? 1 : 0,
+  };
+
+  return requested.reduce((best, category) => (scores[category] > scores[best] ? category : best), requested[0]);
+};
+
+const phraseKey = (text: string) => ` ${words(text).join(' ')} `;
+
+const isCategory = (value: string, requested: ImprovementCategory[]): value is ScriptChangeCategory =>
+  value === 'custom' || requested.includes(value as ImprovementCategory);
+
+// The category the model gave an edit. Its phrases don't always line up with the diff's, so
+// an exact match wins, then a reported edit that contains both sides of this one.
+const reportedCategory = (
+  removed: string,
+  added: string,
+  reported: ReportedScriptChange[],
+  requested: ImprovementCategory[]
+): ScriptChangeCategory | null => {
+  const removedKey = phraseKey(removed);
+  const addedKey = phraseKey(added);
+  const candidates = reported.filter(change => isCategory(change.category, requested));
+  const match =
+    candidates.find(change => phraseKey(change.original) === removedKey && phraseKey(change.revised) === addedKey) ||
+    candidates.find(change =>
+      phraseKey(change.original).includes(removedKey) &&
+      phraseKey(change.revised).includes(addedKey) &&
+      // An empty side is contained in anything; the other side has to carry the match
+      (removedKey.trim() !== '' ? words(change.original).length > 0 : words(change.revised).length > 0)
+    );
+  return match ? (match.category as ScriptChangeCategory) : null;
+};
+
+// Word-level diff of the original transcript against the improved script, with neighbouring
+// edits grouped into phrases and tagged with the improvement the model reported for them
+export const diffScripts = (
+  original: string,
+  improved: string,
+  requested: ImprovementCategory[] = [],
+  reported: ReportedScriptChange[] = []
+): ScriptDiffSegment[] => {
+  const ops = diffTokens(tokenize(original), tokenize(improved));
+
+  // Collapse runs of removed/added tokens into raw hunks
+  const hunks: Array<{ type: 'equal'; text: string } | { type: 'change'; removed: string; added: string }> = [];
+  for (const op of ops) {
+    const last = hunks[hunks.length - 1];
+    if (op.type === 'equal') {
+      if (last?.type === 'equal') last.text += op.token;
+      else hunks.push({ type: 'equal', text: op.token });
+    } else {
+      const change = last?.type === 'change' ? last : { type: 'change' as const, removed: '', added: '' };
+      if (change !== last) hunks.push(change);
+      if (op.type === 'removed') change.removed += op.token;
+      else change.added += op.token;
+    }
+  }
+
+  // Bridge two changes split by one short word
+  const merged: typeof hunks = [];
+  for (let k = 0; k < hunks.length; k++) {
+    const hunk = hunks[k];
+    const previous = merged[merged.length - 1];
+    const next = hunks[k + 1];
+    if (
+      hunk.type === 'equal' &&
+      previous?.type === 'change' &&
+      next?.type === 'change' &&
+      tokenize(hunk.text).length === 1 &&
+      hunk.text.trim().length <= MAX_BRIDGE_LENGTH
+    ) {
+      previous.removed += hunk.text + next.removed;
+      previous.added += hunk.text + next.added;
+      k++;
+      continue;
+    }
+    merged.push(hunk);
+  }
+
+  let id = 0;
+  return merged.map(hunk => hunk.type === 'equal'
+    ? hunk
+    : {
+      ...hunk,
+      id: id++,
+      category: reportedCategory(hunk.removed, hunk.added, reported, requested)
+        ?? classifyScriptChange(hunk.removed, hunk.added, requested),
+    });
+};
+
+// Join the unchanged text with the accepted side of each change
+export const buildScript = (segments: ScriptDiffSegment[], rejected: Set<number>): string => {
+  let script = '';
+  for (const segment of segments) {
+    const text = segment.type === 'equal'
+      ? segment.text
+      : rejected.has(segment.id) ? segment.removed : segment.added;
+    if (!text) continue;
+    // Token spacing differs between the two texts at the very end; keep words apart
+    if (script && !/\s$/.test(script)) script += ' ';
+    script += text;
+  }
+  return script.trim();
+};
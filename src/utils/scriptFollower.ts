@@ -0,0 +1,59 @@
+import { FILLER_WORDS, normalizeToken } from '@/utils/fillerWords';
+
+export interface LocateOptions {
+  // How far back and ahead of the current word to search
+  lookBehind?: number;
+  lookAhead?: number;
+  // Number of recently spoken words matched against the script
+  tail?: number;
+}
+
+const keysOf = (text: string) =>
+  text.split(/\s+/).map(normalizeToken).filter(key => key && !FILLER_WORDS.includes(key));
+
+// Normalized script words, in the same order as the words the teleprompter renders
+export const scriptKeys = (script: string) => script.split(/\s+/).filter(Boolean).map(normalizeToken);
+
+const commonSubsequence = (a: string[], b: string[]) => {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  return lengths[0][0];
+};
+
+// Index of the script word the speaker most likely just said, given the text recognised from
+// the last few seconds. Stays at `current` when nothing matches well enough, so a misheard
+// window never sends the prompter somewhere random.
+export const locateSpokenPosition = (
+  keys: string[],
+  spokenText: string,
+  current: number,
+  { lookBehind = 8, lookAhead = 60, tail = 6 }: LocateOptions = {}
+): number => {
+  const spoken = keysOf(spokenText).slice(-tail);
+  if (spoken.length === 0 || keys.length === 0) return current;
+
+  const required = Math.min(2, spoken.length);
+  const lastSpoken = spoken[spoken.length - 1];
+  let best = current;
+  let bestScore = 0;
+
+  const from = Math.max(0, current - lookBehind);
+  const to = Math.min(keys.length - 1, current + lookAhead);
+  for (let end = from; end <= to; end++) {
+    const window = keys.slice(Math.max(0, end - tail - 1), end + 1);
+    const matches = commonSubsequence(spoken, window);
+    if (matches < required) continue;
+    // Ending on the last word heard pins the position down
+    const score = matches + (keys[end] === lastSpoken ? 1 : 0);
+    const closer = Math.abs(end - current) < Math.abs(best - current);
+    if (score > bestScore || (score === bestScore && closer)) {
+      best = end;
+      bestScore = score;
+    }
+  }
+  return best;
+};
@@ -10,6 +10,8 @@ export type {
 
 import type { AnalysisResult } from '@/types/speechAnalysis';
 import { localLLMService } from '@/services/localLLMService';
+import { detectFillerWordsInText, summarizeFillerWords, tokenizeTranscript } from '@/utils/fillerWords';
+import { scoreSpeech } from '@/utils/scoring';
 
 // Helper functions for dynamic content generation
 const generateDynamicSuggestions = (transcript: string, fillerCount: number, wpm: number, tone: string): string[] => {
@@ -93,35 +95,37 @@ export const analyzeSpeech = async (audioBlob: Blob, duration: number): Promise<
   
   // Use actual duration or estimate from audio blob
   const actualDuration = duration > 0 ? duration : 5; // Fallback to 5 seconds if duration is 0
-  const estimatedWords = Math.floor(actualDuration * 2.5); // 2.5 words per second average
-  const wpm = Math.floor(estimatedWords / (actualDuration / 60));
   
-  const fillerCount = Math.floor(Math.random() * 5) + 1;
-  const fillerPercentage = ((fillerCount / estimatedWords) * 100).toFixed(1);
+  // Mock transcript for demo
+  const mockTranscript = "I think that, um, the project is going really well and, uh, we should consider implementing these new features. Like, it would be good to get feedback from users about what they want to see next.";
+  
+  const fillerSummary = summarizeFillerWords(
+    detectFillerWordsInText(mockTranscript),
+    tokenizeTranscript(mockTranscript).length
+  );
+  const fillerCount = fillerSummary.count;
   
   const tones = ['Professional', 'Confident', 'Nervous', 'Enthusiastic', 'Calm', 'Energetic'];
   const emotions = ['Focused', 'Determined', 'Anxious', 'Excited', 'Relaxed', 'Passionate'];
-  const assessments = ['Too slow', 'Perfect pace', 'Slightly fast', 'Too fast', 'Natural pace'];
   
-  const clarityScore = Math.floor(Math.random() * 30) + 70;
-  const paceScore = Math.min(100, Math.max(60, 150 - Math.abs(wpm - 150) * 2));
-  const overallScore = Math.floor((clarityScore + paceScore) / 2);
+  const scoring = scoreSpeech({ transcript: mockTranscript, durationSeconds: actualDuration });
+  const wpm = scoring.words_per_minute;
+  const clarityScore = scoring.clarity_score;
+  const paceScore = scoring.pace_score;
+  const overallScore = scoring.overall_score;
   
   console.log('Analysis Debug:', { 
     originalDuration: duration,
     actualDuration, 
-    estimatedWords, 
     wpm, 
     clarityScore, 
     paceScore, 
-    overallScore 
+    overallScore,
+    scoringVersion: scoring.version
   });
   
   const primaryTone = tones[Math.floor(Math.random() * tones.length)];
-  const fillerWords = ['um', 'uh', 'like', 'you know'].slice(0, fillerCount);
-  
-  // Mock transcript for demo
-  const mockTranscript = "I think that, um, the project is going really well and, uh, we should consider implementing these new features. Like, it would be good to get feedback from users about what they want to see next.";
+  const fillerWords = fillerSummary.examples;
   
   const mockResult: AnalysisResult = {
     overall_score: overallScore,
@@ -129,20 +133,17 @@ export const analyzeSpeech = async (audioBlob: Blob, duration: number): Promise<
     transcript: mockTranscript,
     pace_analysis: {
       words_per_minute: wpm,
-      assessment: assessments[Math.floor(Math.random() * assessments.length)]
-    },
-    filler_words: {
-      count: fillerCount,
-      percentage: `${fillerPercentage}%`,
-      examples: fillerWords
+      assessment: wpm < 120 ? 'Too slow' : wpm > 180 ? 'Too fast' : paceScore === 100 ? 'Perfect pace' : 'Natural pace'
     },
+    filler_words: fillerSummary,
     tone_analysis: {
       primary_tone: primaryTone,
       confidence_level: 'High',
       emotions: emotions.slice(0, 3)
     },
     suggestions: generateDynamicSuggestions(mockTranscript, fillerCount, wpm, primaryTone),
-    strengths: generateDynamicStrengths(mockTranscript, primaryTone, clarityScore)
+    strengths: generateDynamicStrengths(mockTranscript, primaryTone, clarityScore),
+    scoring
   };
   
   // Get AI-powered suggestions using local LLM
@@ -160,26 +161,27 @@ export const analyzeSpeech = async (audioBlob: Blob, duration: number): Promise<
     console.log('Local LLM analysis completed successfully');
   } catch (error) {
     console.warn('Local LLM analysis failed, using fallback:', error);
-    // Fallback analysis with varied results
+    // Fallback analysis built from the deterministic content scores
+    const { content } = scoring;
     const dynamicMainPoint = generateDynamicMainPoint(mockTranscript);
     mockResult.ai_suggestions = {
       contentEvaluation: {
         mainPoint: dynamicMainPoint,
         argumentStructure: {
-          hasStructure: Math.random() > 0.5,
+          hasStructure: content.hasStructure,
           structure: "Conversational presentation style",
-          effectiveness: Math.floor(Math.random() * 3) + 5, // 5-7 range
+          effectiveness: content.structureEffectiveness,
           suggestions: "Consider using a more structured approach"
         },
         evidenceAndExamples: {
-          hasEvidence: Math.random() > 0.6,
-          evidenceQuality: Math.floor(Math.random() * 3) + 4, // 4-6 range
-          evidenceTypes: ["anecdotal"],
+          hasEvidence: content.hasEvidence,
+          evidenceQuality: content.evidenceQuality,
+          evidenceTypes: content.evidenceTypes,
           suggestions: "Add specific examples and data to support your points"
         },
         persuasiveness: {
-          pointProven: Math.random() > 0.4,
-          persuasionScore: Math.floor(Math.random() * 3) + 5, // 5-7 range
+          pointProven: content.hasEvidence,
+          persuasionScore: content.persuasionScore,
           strengths: ["Clear delivery", "Confident tone"],
           weaknesses: ["Could use more structure", "Needs supporting evidence"],
           improvements: "Strengthen arguments with concrete examples"
@@ -189,9 +191,11 @@ export const analyzeSpeech = async (audioBlob: Blob, duration: number): Promise<
           task: "Objective was implied but not explicitly stated",
           action: "Actions were discussed but need more specificity",
           result: "Results were not clearly quantified",
-          overallStarScore: Math.floor(Math.random() * 4) + 4 // 4-7 range for varied scores
+          overallStarScore: content.starScore
         }
-      }
+      },
+      evaluationSource: 'heuristic',
+      fallbackReason: error instanceof Error ? error.message : 'Local LLM analysis failed'
     };
   }
   
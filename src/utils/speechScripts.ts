@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+// A saved version of an improved script (speech_scripts row)
+export type SpeechScript = Tables<'speech_scripts'>;
+
+export interface NewSpeechScript {
+  recordingId?: string | null;
+  content: string;
+  improvementOptions: string[];
+  customRequest?: string;
+}
+
+export const saveSpeechScript = async (userId: string, script: NewSpeechScript): Promise<SpeechScript> => {
+  const { data, error } = await supabase
+    .from('speech_scripts')
+    .insert({
+      user_id: userId,
+      recording_id: script.recordingId ?? null,
+      content: script.content,
+      improvement_options: script.improvementOptions,
+      custom_request: script.customRequest?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const updateSpeechScriptContent = async (scriptId: string, content: string): Promise<void> => {
+  const { error } = await supabase.from('speech_scripts').update({ content }).eq('id', scriptId);
+  if (error) throw error;
+};
+
+// Versions for one recording, or every script the user has saved, newest first
+export const listSpeechScripts = async (userId: string, recordingId?: string | null): Promise<SpeechScript[]> => {
+  let query = supabase
+    .from('speech_scripts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+  if (recordingId) query = query.eq('recording_id', recordingId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+export const getTargetScript = async (userId: string): Promise<SpeechScript | null> => {
+  const { data, error } = await supabase
+    .from('speech_scripts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_target', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Star a script as the one to rehearse against (null clears it). The old target is unstarred
+// in the same transaction, since the table allows only one per user.
+export const setTargetScript = async (scriptId: string | null): Promise<void> => {
+  const { error } = await supabase.rpc('set_target_script', scriptId ? { _script_id: scriptId } : {});
+  if (error) throw error;
+};
+
+export const deleteSpeechScript = async (scriptId: string): Promise<void> => {
+  const { error } = await supabase.from('speech_scripts').delete().eq('id', scriptId);
+  if (error) throw error;
+};
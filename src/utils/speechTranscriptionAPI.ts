@@ -1,17 +1,37 @@
 import { supabase } from '@/integrations/supabase/client'
+import { baseMimeType, ensureSupportedFormat } from '@/utils/audioFormat'
 
-export const transcribeAudioWithAPI = async (audioBlob: Blob): Promise<string> => {
+// Formats the OpenAI transcription endpoint accepts; it goes by the file name, so the type is sent along
+const WHISPER_AUDIO_TYPES = ['audio/webm', 'audio/wav', 'audio/mpeg', 'audio/mp3', 'audio/mp4', 'audio/m4a', 'audio/ogg', 'audio/flac']
+
+export interface WhisperTranscription {
+  text: string;
+  // Millisecond timings; whisper-1 does not score individual words
+  words: Array<{ text: string; start: number; end: number }>;
+  language: string | null;
+  duration: number | null;
+  confidence: number | null;
+}
+
+// btoa() on a spread of the whole buffer overflows the stack for longer recordings
+const toBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 32768) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 32768))
+  }
+  return btoa(binary)
+}
+
+export const transcribeAudioWithTimestamps = async (audioBlob: Blob): Promise<WhisperTranscription> => {
   console.log('🎯 Starting cloud transcription...')
-  
-  // Convert blob to base64
-  const arrayBuffer = await audioBlob.arrayBuffer()
-  const base64Audio = btoa(
-    String.fromCharCode(...new Uint8Array(arrayBuffer))
-  )
+
+  const uploadBlob = await ensureSupportedFormat(audioBlob, WHISPER_AUDIO_TYPES)
+  const base64Audio = toBase64(await uploadBlob.arrayBuffer())
 
   try {
     const { data, error } = await supabase.functions.invoke('transcribe-audio', {
-      body: { audio: base64Audio }
+      body: { audio: base64Audio, mime_type: baseMimeType(uploadBlob.type) }
     })
 
     if (error) {
@@ -24,9 +44,20 @@ export const transcribeAudioWithAPI = async (audioBlob: Blob): Promise<string> =
     }
 
     console.log('✅ Cloud transcription completed')
-    return data.text
+    return {
+      text: data.text,
+      words: data.words || [],
+      language: data.language ?? null,
+      duration: data.duration ?? null,
+      confidence: data.confidence ?? null,
+    }
   } catch (error) {
     console.error('Transcription error:', error)
     throw error
   }
-}
\ No newline at end of file
+}
+
+export const transcribeAudioWithAPI = async (audioBlob: Blob): Promise<string> => {
+  const { text } = await transcribeAudioWithTimestamps(audioBlob)
+  return text
+}
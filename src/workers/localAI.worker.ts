@@ -0,0 +1,288 @@
+import { env, pipeline } from '@huggingface/transformers';
+import { getLocalModel } from '../services/localModelCatalog';
+import type {
+  GenerateOptions,
+  LocalAIRequest,
+  LocalAIResponse,
+  LocalTranscriptWord,
+  LocalTranscription,
+} from './localAIProtocol';
+
+// Model loading and inference run here so transcription doesn't freeze the recorder UI.
+// Audio decoding needs an AudioContext, which workers don't have, so LocalAIService
+// decodes on the main thread and transfers the samples in.
+
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+type Pipeline = ((input: Float32Array | string | ChatMessage[], options?: Record<string, unknown>) => Promise<unknown>) & {
+  dispose: () => Promise<void>;
+  tokenizer?: {
+    apply_chat_template: (messages: ChatMessage[], options: Record<string, unknown>) => unknown;
+  };
+};
+
+interface WhisperOutput {
+  text: string;
+  // Word-level chunks when called with return_timestamps: 'word'; times in seconds
+  chunks?: Array<{ text: string; timestamp: [number, number | null] }>;
+}
+
+const WHISPER_SAMPLE_RATE = 16000;
+// Whisper hears 30 seconds at a time; neighbouring chunks overlap so a word cut at one
+// chunk's edge is heard whole in the next
+const CHUNK_SECONDS = 30;
+const OVERLAP_SECONDS = 4;
+
+const pipelines = new Map<string, Pipeline>();
+// Requests received and not yet answered; only these can be cancelled
+const inFlight = new Set<number>();
+const cancelled = new Set<number>();
+
+// Pipelines aren't safe to call concurrently, and an unload mustn't dispose one mid-call, so
+// each model works through its requests one at a time (the teleprompter and live feedback
+// both transcribe while recording)
+const queues = new Map<string, Promise<void>>();
+
+const enqueue = <T>(modelId: string, task: () => Promise<T>): Promise<T> => {
+  const result = (queues.get(modelId) ?? Promise.resolve()).then(task);
+  const settled = result.then(() => {}, () => {});
+  queues.set(modelId, settled);
+  settled.then(() => {
+    if (queues.get(modelId) === settled) queues.delete(modelId);
+  });
+  return result;
+};
+
+const post = (message: LocalAIResponse) => self.postMessage(message);
+
+const throwIfCancelled = (requestId: number) => {
+  if (cancelled.has(requestId)) throw new Error('Cancelled');
+};
+
+const getDefinition = (modelId: string) => {
+  const definition = getLocalModel(modelId);
+  if (!definition) throw new Error(`Unknown model ${modelId}`);
+  return definition;
+};
+
+// transformers.js only honours local_files_only when local models are allowed, a global setting
+// that's off in workers. Pipelines are built one at a time so a local-only load can't switch it
+// on under another model's download.
+const PIPELINE_BUILDS = 'pipeline-builds';
+
+const buildPipeline = (
+  pipelineTask: 'automatic-speech-recognition' | 'text-generation',
+  repo: string,
+  options: Record<string, unknown>,
+  localOnly: boolean
+) => enqueue(PIPELINE_BUILDS, async () => {
+  env.allowLocalModels = localOnly;
+  try {
+    return await pipeline(pipelineTask, repo, { ...options, local_files_only: localOnly }) as unknown;
+  } finally {
+    env.allowLocalModels = false;
+  }
+});
+
+const loadModel = async (requestId: number, modelId: string, localOnly: boolean) => {
+  if (pipelines.has(modelId)) return;
+  const { task, repo, quantization: dtype } = getDefinition(modelId);
+  const pipelineTask = task === 'speech-to-text' ? 'automatic-speech-recognition' : 'text-generation';
+
+  // Report one percentage across all of the model's files
+  const files = new Map<string, { loaded: number; total: number }>();
+  const progress_callback = (info: { status: string; file?: string; loaded?: number; total?: number }) => {
+    if (info.status !== 'progress' || !info.file) return;
+    files.set(info.file, { loaded: info.loaded ?? 0, total: info.total ?? 0 });
+    let loadedBytes = 0;
+    let totalBytes = 0;
+    files.forEach(file => {
+      loadedBytes += file.loaded;
+      totalBytes += file.total;
+    });
+    post({
+      type: 'progress',
+      progress: {
+        requestId,
+        modelId,
+        stage: 'download',
+        progress: totalBytes ? Math.round((loadedBytes / totalBytes) * 100) : 0,
+        file: info.file,
+        loadedBytes,
+        totalBytes,
+      },
+    });
+  };
+
+  let model: unknown;
+  try {
+    model = await buildPipeline(pipelineTask, repo, { device: 'webgpu', dtype, progress_callback }, localOnly);
+    console.log(`✅ ${modelId} loaded with WebGPU`);
+  } catch (webgpuError) {
+    console.warn(`⚠️ WebGPU failed for ${modelId}, falling back to CPU:`, webgpuError);
+    try {
+      model = await buildPipeline(pipelineTask, repo, { dtype, progress_callback }, localOnly);
+    } catch (error) {
+      // With local_files_only a missing file fails the load instead of being downloaded
+      if (localOnly) throw new Error(`${modelId} hasn't been downloaded to this device`);
+      throw error;
+    }
+    console.log(`✅ ${modelId} loaded with CPU`);
+  }
+  // Cancelled while building; free it rather than leaking its WebGPU/WASM memory
+  if (cancelled.has(requestId)) {
+    await (model as Pipeline).dispose();
+    throwIfCancelled(requestId);
+  }
+  pipelines.set(modelId, model as Pipeline);
+};
+
+const unloadModel = async (modelId: string) => {
+  const model = pipelines.get(modelId);
+  if (!model) return;
+  pipelines.delete(modelId);
+  await model.dispose();
+  console.log(`🗑️ ${modelId} unloaded`);
+};
+
+const getPipeline = (modelId: string): Pipeline => {
+  const model = pipelines.get(modelId);
+  if (!model) {
+    throw new Error(`${modelId} is not loaded. Please initialize AI models first.`);
+  }
+  return model;
+};
+
+// Transcribe in overlapping 30s windows and return AssemblyAI-style word timings (ms).
+// Whisper has no per-word confidence, so words carry timings only.
+const transcribe = async (requestId: number, modelId: string, audio: Float32Array, live = false): Promise<LocalTranscription> => {
+  const whisper = getPipeline(modelId);
+  const totalSeconds = audio.length / WHISPER_SAMPLE_RATE;
+  const chunkSize = CHUNK_SECONDS * WHISPER_SAMPLE_RATE;
+  const step = (CHUNK_SECONDS - OVERLAP_SECONDS) * WHISPER_SAMPLE_RATE;
+  const words: LocalTranscriptWord[] = [];
+
+  for (let offset = 0; offset < audio.length; offset += step) {
+    throwIfCancelled(requestId);
+    const chunk = audio.subarray(offset, offset + chunkSize);
+    const chunkStart = offset / WHISPER_SAMPLE_RATE;
+    const isFirst = offset === 0;
+    const isLast = offset + chunkSize >= audio.length;
+
+    const result = await whisper(chunk, { return_timestamps: 'word' }) as WhisperOutput;
+
+    // A word in the overlap is heard by both chunks; keep it from the chunk where it sits
+    // further from the edge by splitting at the middle of the overlap
+    const keepFrom = isFirst ? -Infinity : chunkStart + OVERLAP_SECONDS / 2;
+    const keepUntil = isLast ? Infinity : chunkStart + CHUNK_SECONDS - OVERLAP_SECONDS / 2;
+
+    for (const { text, timestamp } of result?.chunks || []) {
+      const word = text.trim();
+      if (!word) continue;
+      const start = chunkStart + timestamp[0];
+      // The final word of a chunk can come back without an end time
+      const end = chunkStart + (timestamp[1] ?? chunk.length / WHISPER_SAMPLE_RATE);
+      const midpoint = (start + end) / 2;
+      if (midpoint < keepFrom || midpoint >= keepUntil) continue;
+      words.push({ text: word, start: Math.round(start * 1000), end: Math.round(end * 1000) });
+    }
+
+    const processedSeconds = Math.min(chunkStart + CHUNK_SECONDS, totalSeconds);
+    if (!live) post({
+      type: 'progress',
+      progress: {
+        requestId,
+        modelId,
+        stage: 'transcribe',
+        progress: Math.round((processedSeconds / totalSeconds) * 100),
+        processedSeconds,
+        totalSeconds,
+      },
+    });
+    if (isLast) break;
+  }
+
+  if (words.length === 0 && !live) {
+    throw new Error('No transcription result received');
+  }
+
+  return {
+    text: words.map(word => word.text).join(' '),
+    words,
+    duration: totalSeconds,
+  };
+};
+
+// Completion models continue the prompt (and echo it back); instruction-tuned models get it
+// as a chat message and only their reply is returned
+const generate = async (
+  requestId: number,
+  modelId: string,
+  prompt: string,
+  { response_prefix, ...options }: GenerateOptions
+): Promise<string> => {
+  const generator = getPipeline(modelId);
+  const { instructionTuned } = getDefinition(modelId);
+  post({ type: 'progress', progress: { requestId, modelId, stage: 'generate', progress: 0 } });
+
+  let text: string;
+  if (instructionTuned && response_prefix && generator.tokenizer) {
+    // Render the chat ourselves so the assistant turn can be started with the prefix
+    const chat = generator.tokenizer.apply_chat_template(
+      [{ role: 'user', content: prompt }],
+      { tokenize: false, add_generation_prompt: true }
+    ) as string;
+    const result = await generator(chat + response_prefix, { ...options, return_full_text: false }) as Array<{ generated_text?: string }>;
+    text = response_prefix + (result[0]?.generated_text || '');
+  } else if (instructionTuned) {
+    const result = await generator([{ role: 'user', content: prompt }], options) as Array<{ generated_text?: ChatMessage[] }>;
+    text = result[0]?.generated_text?.at(-1)?.content || '';
+  } else {
+    const result = await generator(prompt, options) as Array<{ generated_text?: string }>;
+    text = result[0]?.generated_text || '';
+  }
+
+  throwIfCancelled(requestId);
+  post({ type: 'progress', progress: { requestId, modelId, stage: 'generate', progress: 100 } });
+  return text;
+};
+
+self.onmessage = async (event: MessageEvent<LocalAIRequest>) => {
+  const request = event.data;
+  if (request.type === 'cancel') {
+    if (inFlight.has(request.requestId)) cancelled.add(request.requestId);
+    return;
+  }
+
+  const { requestId } = request;
+  inFlight.add(requestId);
+  try {
+    const result = await enqueue(request.modelId, async () => {
+      // Cancelled while waiting its turn
+      throwIfCancelled(requestId);
+      switch (request.type) {
+        case 'load':
+          await loadModel(requestId, request.modelId, request.localOnly);
+          return undefined;
+        case 'unload':
+          await unloadModel(request.modelId);
+          return undefined;
+        case 'transcribe':
+          return transcribe(requestId, request.modelId, request.audio, request.live);
+        case 'generate':
+          return generate(requestId, request.modelId, request.prompt, request.options);
+      }
+    });
+    post({ type: 'done', requestId, result });
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId,
+      message: error instanceof Error ? error.message : String(error),
+      cancelled: cancelled.has(requestId),
+    });
+  } finally {
+    inFlight.delete(requestId);
+    cancelled.delete(requestId);
+  }
+};
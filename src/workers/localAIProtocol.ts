@@ -0,0 +1,57 @@
+// Messages exchanged between LocalAIService (main thread) and localAI.worker.ts.
+// Every request carries a requestId; the worker answers with any number of progress
+// messages followed by exactly one `done` or `error`.
+
+// Model ids are the ids in services/localModelCatalog.ts
+
+// Same shape as AssemblyAI's words, minus confidence; times in milliseconds
+export interface LocalTranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface LocalTranscription {
+  text: string;
+  words: LocalTranscriptWord[];
+  // Seconds of audio transcribed
+  duration: number;
+}
+
+export type LocalAIProgressStage = 'download' | 'decode' | 'transcribe' | 'generate';
+
+export interface LocalAIProgress {
+  requestId: number;
+  stage: LocalAIProgressStage;
+  // 0-100
+  progress: number;
+  modelId?: string;
+  // Download only: the file being fetched and bytes across all files so far
+  file?: string;
+  loadedBytes?: number;
+  totalBytes?: number;
+  // Transcription only: seconds of audio processed
+  processedSeconds?: number;
+  totalSeconds?: number;
+}
+
+export interface GenerateOptions {
+  max_new_tokens: number;
+  // Instruction-tuned models only: the reply is forced to start with this (e.g. '{' for JSON)
+  response_prefix?: string;
+}
+
+export type LocalAIRequest =
+  | { type: 'load'; requestId: number; modelId: string; localOnly: boolean }
+  // Frees the pipeline so an evicted model isn't kept in memory
+  | { type: 'unload'; requestId: number; modelId: string }
+  // 16kHz mono samples; the buffer is transferred, not copied. Live requests are the few
+  // seconds just heard while recording: they send no progress and silence is an empty result.
+  | { type: 'transcribe'; requestId: number; modelId: string; audio: Float32Array; live?: boolean }
+  | { type: 'generate'; requestId: number; modelId: string; prompt: string; options: GenerateOptions }
+  | { type: 'cancel'; requestId: number };
+
+export type LocalAIResponse =
+  | { type: 'progress'; progress: LocalAIProgress }
+  | { type: 'done'; requestId: number; result?: LocalTranscription | string }
+  | { type: 'error'; requestId: number; message: string; cancelled?: boolean };
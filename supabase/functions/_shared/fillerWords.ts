@@ -0,0 +1,116 @@
+// Filler-word detection over timed words or plain text.
+
+export interface TimedWord {
+  text: string;
+  start?: number;
+  end?: number;
+  confidence?: number;
+}
+
+export interface FillerWordOccurrence {
+  word: string;
+  // Index of the first word of the filler in the source word list
+  index: number;
+  // Timestamps in milliseconds (absent when detected from plain text)
+  start?: number;
+  end?: number;
+}
+
+export interface FillerWordSummary {
+  count: number;
+  percentage: string;
+  examples: string[];
+  occurrences: FillerWordOccurrence[];
+}
+
+export const FILLER_WORDS = [
+  'um',
+  'uh',
+  'ah',
+  'er',
+  'hmm',
+  'like',
+  'you know',
+  'i mean',
+  'sort of',
+  'kind of',
+  'basically',
+  'actually',
+  'literally',
+];
+
+// Normalize a single token: lowercase and strip surrounding punctuation/brackets
+// (AssemblyAI returns tokens like "Um," or "[uh]" when disfluencies are enabled).
+export const normalizeToken = (text: string): string =>
+  text.toLowerCase().replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, '');
+
+// Split a plain transcript into untimed word tokens.
+export const tokenizeTranscript = (transcript: string): TimedWord[] =>
+  (transcript || '')
+    .split(/\s+/)
+    .filter(token => token.trim().length > 0)
+    .map(text => ({ text }));
+
+// Walk the word list and match fillers as whole tokens. Multi-word fillers
+// ("you know") are matched first so they are not also counted as single words.
+export const detectFillerWords = (
+  words: TimedWord[],
+  fillers: string[] = FILLER_WORDS
+): FillerWordOccurrence[] => {
+  if (!Array.isArray(words) || words.length === 0) return [];
+
+  const patterns = fillers
+    .map(filler => filler.toLowerCase().split(/\s+/).filter(Boolean))
+    .filter(parts => parts.length > 0)
+    .sort((a, b) => b.length - a.length);
+
+  const tokens = words.map(word => normalizeToken(word?.text || ''));
+  const occurrences: FillerWordOccurrence[] = [];
+
+  let i = 0;
+  while (i < tokens.length) {
+    const match = patterns.find(parts =>
+      parts.every((part, offset) => tokens[i + offset] === part)
+    );
+
+    if (!match) {
+      i++;
+      continue;
+    }
+
+    const first = words[i];
+    const last = words[i + match.length - 1];
+    occurrences.push({
+      word: match.join(' '),
+      index: i,
+      ...(typeof first.start === 'number' && { start: first.start }),
+      ...(typeof last.end === 'number' && { end: last.end }),
+    });
+    i += match.length;
+  }
+
+  return occurrences;
+};
+
+// Convenience wrapper for pipelines that only have a transcript string.
+export const detectFillerWordsInText = (
+  transcript: string,
+  fillers: string[] = FILLER_WORDS
+): FillerWordOccurrence[] => detectFillerWords(tokenizeTranscript(transcript), fillers);
+
+// Build the `filler_words` block of AnalysisResult from detected occurrences.
+export const summarizeFillerWords = (
+  occurrences: FillerWordOccurrence[],
+  totalWords: number
+): FillerWordSummary => {
+  const count = occurrences.length;
+  const percentage = totalWords > 0 ? ((count / totalWords) * 100).toFixed(1) : '0.0';
+  const examples = Array.from(new Set(occurrences.map(o => o.word))).slice(0, 5);
+
+  return {
+    count,
+    percentage: `${percentage}%`,
+    examples,
+    occurrences,
+  };
+};
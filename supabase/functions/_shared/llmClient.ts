@@ -0,0 +1,413 @@
+// LLM client for the edge functions. Unlike the rest of _shared this reads Deno.env, so only
+// edge functions may import it.
+//
+// The provider is picked with LLM_PROVIDER:
+//   gemini  - Google Gemini (GEMINI_API_KEY), the default
+//   openai  - any OpenAI-compatible API (LLM_API_KEY or OPENAI_API_KEY, LLM_BASE_URL)
+//   local   - an OpenAI-compatible server on the developer's machine such as Ollama or
+//             llama.cpp's llama-server; needs no key and no internet access
+// LLM_MODEL, LLM_TEMPERATURE, LLM_MAX_OUTPUT_TOKENS and LLM_TIMEOUT_MS override what each
+// function asks for.
+
+import {
+  parseLlmJson,
+  toGeminiSchema,
+  toJsonSchema,
+  validateLlmValue,
+  type LlmErrorBody,
+  type LlmErrorCode,
+  type LlmSchema,
+} from './llmSchemas.ts';
+
+export type LlmProviderId = 'gemini' | 'openai' | 'local';
+
+// Models get one more try when their output fails validation
+const MAX_ATTEMPTS = 2;
+
+export class LlmError extends Error {
+  constructor(public code: LlmErrorCode, message: string, public details?: string[]) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+const STATUS_BY_CODE: Record<LlmErrorCode, number> = {
+  invalid_request: 400,
+  not_configured: 500,
+  provider_error: 502,
+  invalid_output: 502,
+  internal: 500,
+};
+
+export const llmErrorResponse = (error: unknown, headers: Record<string, string>): Response => {
+  const llmError = error instanceof LlmError
+    ? error
+    : new LlmError('internal', error instanceof Error ? error.message : String(error));
+  const body: LlmErrorBody = {
+    success: false,
+    error: llmError.message,
+    code: llmError.code,
+    ...(llmError.details && { details: llmError.details }),
+  };
+  return new Response(JSON.stringify(body), {
+    status: STATUS_BY_CODE[llmError.code],
+    headers: { ...headers, 'Content-Type': 'application/json' },
+  });
+};
+
+export const readLlmRequestBody = async (req: Request): Promise<unknown> => {
+  try {
+    return await req.json();
+  } catch {
+    throw new LlmError('invalid_request', 'Request body must be JSON');
+  }
+};
+
+export const validateLlmRequest = <T>(body: unknown, schema: LlmSchema): T => {
+  const result = validateLlmValue<T>(schema, body);
+  if ('errors' in result) {
+    throw new LlmError('invalid_request', 'Invalid request', result.errors);
+  }
+  return result.data;
+};
+
+// ---- Configuration ----
+
+export interface LlmGenerateOptions {
+  // Instructions sent as the system prompt
+  system?: string;
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+interface LlmCallConfig {
+  system?: string;
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  timeoutMs: number;
+}
+
+interface LlmProvider {
+  id: LlmProviderId;
+  defaultModel: string;
+  // Raw text of the reply; parsing and validation happen in generateJson
+  generate: (prompt: string, schema: LlmSchema, config: LlmCallConfig) => Promise<string>;
+  // Text as it is generated. Without a schema the model answers in plain text.
+  stream: (prompt: string, schema: LlmSchema | undefined, config: LlmCallConfig) => Promise<AsyncGenerator<string>>;
+}
+
+const envNumber = (name: string): number | undefined => {
+  const value = Deno.env.get(name);
+  if (value === undefined || value.trim() === '') return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const requireEnv = (name: string, provider: LlmProviderId): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new LlmError('not_configured', `${name} is not set (LLM provider: ${provider})`);
+  }
+  return value;
+};
+
+// fetch with the configured timeout until the response starts (a stream may then run for
+// longer); network failures and timeouts become provider errors
+const fetchProvider = async (provider: LlmProviderId, url: string, init: RequestInit, timeoutMs: number) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    const reason = controller.signal.aborted
+      ? `no response after ${timeoutMs / 1000}s`
+      : error instanceof Error ? error.message : String(error);
+    throw new LlmError('provider_error', `Could not reach the ${provider} LLM provider: ${reason}`);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${provider} API error:`, errorText);
+    throw new LlmError('provider_error', `${provider} API error: ${response.status}`);
+  }
+  return response;
+};
+
+// The payload of each `data:` line in a server-sent event stream
+async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.startsWith('data:')) yield line.slice(5).trim();
+      }
+    }
+  } finally {
+    // Also runs when our caller stops early, which closes the upstream connection
+    reader.cancel().catch(() => {});
+  }
+}
+
+// ---- Providers ----
+
+const geminiBody = (prompt: string, schema: LlmSchema | undefined, { system, temperature, maxOutputTokens }: LlmCallConfig) =>
+  JSON.stringify({
+    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+    contents: [{ parts: [{ text: prompt }] }],
+    generationConfig: {
+      temperature,
+      maxOutputTokens,
+      ...(schema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) }),
+    },
+  });
+
+type GeminiResponse = {
+  candidates?: Array<{ content?: { parts?: Array<{ text?: string }> }; finishReason?: string }>;
+  promptFeedback?: { blockReason?: string };
+};
+
+const geminiText = (data: GeminiResponse) =>
+  data.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+
+const geminiProvider: LlmProvider = {
+  id: 'gemini',
+  defaultModel: 'gemini-1.5-flash',
+  async generate(prompt, schema, config) {
+    const apiKey = requireEnv('GEMINI_API_KEY', 'gemini');
+    const response = await fetchProvider('gemini', `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:generateContent?key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: geminiBody(prompt, schema, config),
+    }, config.timeoutMs);
+
+    const data: GeminiResponse = await response.json();
+    const text = geminiText(data);
+    if (!text) {
+      const reason = data.promptFeedback?.blockReason || data.candidates?.[0]?.finishReason || 'empty response';
+      throw new LlmError('provider_error', `Gemini returned no content (${reason})`);
+    }
+    return text;
+  },
+  async stream(prompt, schema, config) {
+    const apiKey = requireEnv('GEMINI_API_KEY', 'gemini');
+    const response = await fetchProvider('gemini', `https://generativelanguage.googleapis.com/v1beta/models/${config.model}:streamGenerateContent?alt=sse&key=${apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: geminiBody(prompt, schema, config),
+    }, config.timeoutMs);
+
+    return (async function* () {
+      for await (const data of readSseData(response)) {
+        const text = geminiText(JSON.parse(data));
+        if (text) yield text;
+      }
+    })();
+  },
+};
+
+// Chat completions with a JSON schema response_format, which OpenAI, llama.cpp and Ollama all accept
+const openAICompatibleProvider = (
+  id: 'openai' | 'local',
+  defaultModel: string,
+  defaultBaseUrl: string,
+  getApiKey: () => string | undefined
+): LlmProvider => {
+  const request = (prompt: string, schema: LlmSchema | undefined, config: LlmCallConfig, stream: boolean) => {
+    const { system, model, temperature, maxOutputTokens, timeoutMs } = config;
+    const apiKey = getApiKey();
+    const baseUrl = (Deno.env.get('LLM_BASE_URL') || defaultBaseUrl).replace(/\/$/, '');
+    return fetchProvider(id, `${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        temperature,
+        max_tokens: maxOutputTokens,
+        stream,
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: prompt },
+        ],
+        ...(schema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'response', schema: toJsonSchema(schema) },
+          },
+        }),
+      }),
+    }, timeoutMs);
+  };
+
+  return {
+    id,
+    defaultModel,
+    async generate(prompt, schema, config) {
+      const data = await (await request(prompt, schema, config, false)).json();
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new LlmError('provider_error', `${id} returned no content (${data.choices?.[0]?.finish_reason || 'empty response'})`);
+      }
+      return text;
+    },
+    async stream(prompt, schema, config) {
+      const response = await request(prompt, schema, config, true);
+      return (async function* () {
+        for await (const data of readSseData(response)) {
+          if (data === '[DONE]') return;
+          const text = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (text) yield text;
+        }
+      })();
+    },
+  };
+};
+
+const PROVIDERS: Record<LlmProviderId, LlmProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider(
+    'openai',
+    'gpt-4o-mini',
+    'https://api.openai.com/v1',
+    () => requireEnv(Deno.env.get('LLM_API_KEY') ? 'LLM_API_KEY' : 'OPENAI_API_KEY', 'openai')
+  ),
+  // Edge functions served by the Supabase CLI run in Docker, so the host is host.docker.internal
+  local: openAICompatibleProvider(
+    'local',
+    'llama3.2',
+    'http://host.docker.internal:11434/v1',
+    () => Deno.env.get('LLM_API_KEY')
+  ),
+};
+
+const getProvider = (): LlmProvider => {
+  const id = (Deno.env.get('LLM_PROVIDER') || 'gemini').toLowerCase();
+  const provider = PROVIDERS[id as LlmProviderId];
+  if (!provider) {
+    throw new LlmError('not_configured', `Unknown LLM_PROVIDER "${id}"; use gemini, openai or local`);
+  }
+  return provider;
+};
+
+const getCallConfig = (provider: LlmProvider, options: LlmGenerateOptions): LlmCallConfig => ({
+  system: options.system,
+  model: Deno.env.get('LLM_MODEL') || options.model || provider.defaultModel,
+  temperature: envNumber('LLM_TEMPERATURE') ?? options.temperature ?? 0.7,
+  maxOutputTokens: envNumber('LLM_MAX_OUTPUT_TOKENS') ?? options.maxOutputTokens ?? 2000,
+  timeoutMs: envNumber('LLM_TIMEOUT_MS') ?? 60000,
+});
+
+// ---- Generation ----
+
+// Ask the configured provider for JSON in the schema's shape and validate it before returning
+export const generateJson = async <T>(
+  prompt: string,
+  schema: LlmSchema,
+  options: LlmGenerateOptions = {}
+): Promise<T> => {
+  const provider = getProvider();
+  const config = getCallConfig(provider, options);
+  console.log(`Generating with ${provider.id} (${config.model})...`);
+
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const text = await provider.generate(prompt, schema, config);
+    const result = parseLlmJson<T>(text, schema);
+    if ('data' in result) return result.data;
+
+    errors = result.errors;
+    console.warn(`${provider.id} output failed validation (attempt ${attempt}):`, errors);
+  }
+
+  throw new LlmError('invalid_output', 'The AI returned a response in an unexpected format', errors);
+};
+
+// Start streaming a reply. Configuration and connection errors are thrown here, before any
+// of the stream is sent, so callers can still answer with a normal error response.
+export const streamText = async (
+  prompt: string,
+  { schema, ...options }: LlmGenerateOptions & { schema?: LlmSchema } = {}
+): Promise<AsyncGenerator<string>> => {
+  const provider = getProvider();
+  const config = getCallConfig(provider, options);
+  console.log(`Streaming with ${provider.id} (${config.model})...`);
+  return provider.stream(prompt, schema, config);
+};
+
+// Validate the complete text of a streamed JSON reply. There is no retry here since the
+// client has already seen the tokens.
+export const parseStreamedJson = <T>(text: string, schema: LlmSchema): T => {
+  const result = parseLlmJson<T>(text, schema);
+  if ('errors' in result) {
+    throw new LlmError('invalid_output', 'The AI returned a response in an unexpected format', result.errors);
+  }
+  return result.data;
+};
+
+// Relay a token stream to the browser as server-sent events:
+//   event: token  data: { "text": "..." }      for each chunk
+//   event: done   data: { "result": ... }      once, with finish(fullText)
+//   event: error  data: LlmErrorBody           if generation or finish fails part way
+export const sseResponse = (
+  tokens: AsyncGenerator<string>,
+  finish: (text: string) => unknown | Promise<unknown>,
+  headers: Record<string, string>
+): Response => {
+  const encoder = new TextEncoder();
+  const send = (controller: ReadableStreamDefaultController<Uint8Array>, event: string, data: unknown) =>
+    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+
+  let text = '';
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await tokens.next();
+        if (!done) {
+          text += value;
+          send(controller, 'token', { text: value });
+          return;
+        }
+        send(controller, 'done', { result: await finish(text) });
+      } catch (error) {
+        console.error('LLM stream failed:', error);
+        const llmError = error instanceof LlmError
+          ? error
+          : new LlmError('provider_error', error instanceof Error ? error.message : String(error));
+        const errorBody: LlmErrorBody = {
+          success: false,
+          error: llmError.message,
+          code: llmError.code,
+          ...(llmError.details && { details: llmError.details }),
+        };
+        send(controller, 'error', errorBody);
+      }
+      controller.close();
+    },
+    // The browser went away (e.g. the user pressed cancel); stop generating
+    async cancel() {
+      await tokens.return(undefined);
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  });
+};
@@ -0,0 +1,552 @@
+// Request/response schemas for everything a language model answers.
+//
+// Each schema is sent to the provider as its structured output format, shown to models as the
+// shape to fill in, and used to validate whatever comes back before it reaches the UI.
+
+export type LlmSchema =
+  | { type: 'string'; description?: string; enum?: string[]; minLength?: number }
+  | { type: 'number' | 'integer'; description?: string; minimum?: number; maximum?: number }
+  | { type: 'boolean'; description?: string }
+  | { type: 'array'; description?: string; items: LlmSchema }
+  // Every property is required unless `required` lists a subset
+  | { type: 'object'; description?: string; properties: Record<string, LlmSchema>; required?: string[] };
+
+// ---- Errors ----
+
+export type LlmErrorCode =
+  | 'invalid_request'
+  | 'not_configured'
+  | 'provider_error'
+  | 'invalid_output'
+  | 'internal';
+
+// Body of every non-2xx response from an LLM-backed edge function
+export interface LlmErrorBody {
+  success: false;
+  error: string;
+  code: LlmErrorCode;
+  details?: string[];
+}
+
+export const isLlmErrorBody = (value: unknown): value is LlmErrorBody =>
+  typeof value === 'object' && value !== null &&
+  (value as LlmErrorBody).success === false &&
+  typeof (value as LlmErrorBody).code === 'string';
+
+// ---- Validation ----
+
+const MAX_REPORTED_ERRORS = 5;
+
+// Models get small details wrong ("7" or 7.5 for an integer score, "yes" for a boolean, a
+// single string where a list was asked for); those are coerced rather than rejected.
+const validateValue = (schema: LlmSchema, value: unknown, path: string, errors: string[]): unknown => {
+  const at = path || 'root';
+
+  switch (schema.type) {
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string') {
+        errors.push(`${at}: expected a string`);
+        return value;
+      }
+      if (schema.minLength && text.trim().length < schema.minLength) {
+        errors.push(`${at}: must not be empty`);
+      }
+      if (schema.enum) {
+        const match = schema.enum.find(option => option.toLowerCase() === text.trim().toLowerCase());
+        if (!match) errors.push(`${at}: expected one of ${schema.enum.join(', ')}`);
+        return match ?? text;
+      }
+      return text.trim();
+    }
+
+    case 'number':
+    case 'integer': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        errors.push(`${at}: expected a number`);
+        return value;
+      }
+      const rounded = schema.type === 'integer' ? Math.round(number) : number;
+      return Math.min(schema.maximum ?? Infinity, Math.max(schema.minimum ?? -Infinity, rounded));
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+      if (text === 'true' || text === 'yes') return true;
+      if (text === 'false' || text === 'no') return false;
+      errors.push(`${at}: expected true or false`);
+      return value;
+    }
+
+    case 'array': {
+      const items = typeof value === 'string' && schema.items.type === 'string' ? [value] : value;
+      if (!Array.isArray(items)) {
+        errors.push(`${at}: expected a list`);
+        return value;
+      }
+      return items.map((item, index) => validateValue(schema.items, item, `${at}[${index}]`, errors));
+    }
+
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${at}: expected an object`);
+        return value;
+      }
+      const required = schema.required ?? Object.keys(schema.properties);
+      const result: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const field = (value as Record<string, unknown>)[key];
+        if (field === undefined || field === null) {
+          if (required.includes(key)) errors.push(`${path ? `${path}.` : ''}${key}: required`);
+          continue;
+        }
+        result[key] = validateValue(property, field, path ? `${path}.${key}` : key, errors);
+      }
+      return result;
+    }
+  }
+};
+
+export type LlmValidationResult<T> = { data: T } | { errors: string[] };
+
+export const validateLlmValue = <T>(schema: LlmSchema, value: unknown): LlmValidationResult<T> => {
+  const errors: string[] = [];
+  const data = validateValue(schema, value, '', errors);
+  return errors.length > 0 ? { errors: errors.slice(0, MAX_REPORTED_ERRORS) } : { data: data as T };
+};
+
+// Cuts the first JSON object out of a reply and fixes the mistakes models make most often:
+// code fences, smart quotes, trailing commas and output cut off mid-object
+export const repairJson = (output: string): string => {
+  const start = output.indexOf('{');
+  if (start === -1) return output;
+
+  let json = output
+    .slice(start)
+    .replace(/```/g, '')
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'");
+
+  // Walk the text to find where the object ends and what is still open if it doesn't
+  const open: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '{' || char === '[') open.push(char === '{' ? '}' : ']');
+    else if (char === '}' || char === ']') {
+      open.pop();
+      if (open.length === 0) {
+        json = json.slice(0, i + 1);
+        break;
+      }
+    }
+  }
+
+  if (open.length > 0) {
+    if (inString) json += '"';
+    json = json.replace(/[,:]\s*$/, '') + open.reverse().join('');
+  }
+  return json.replace(/,\s*([}\]])/g, '$1');
+};
+
+// Repair, parse and validate a model's text reply
+export const parseLlmJson = <T>(output: string, schema: LlmSchema): LlmValidationResult<T> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(repairJson(output));
+  } catch (error) {
+    return { errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  return validateLlmValue<T>(schema, parsed);
+};
+
+// ---- Rendering ----
+
+const describeRange = (schema: { minimum?: number; maximum?: number }) =>
+  schema.minimum !== undefined && schema.maximum !== undefined ? `${schema.minimum}-${schema.maximum}` : '';
+
+// The shape written out for a prompt, e.g. { "clarity": 1-10, "feedback": string }
+export const describeLlmSchema = (schema: LlmSchema, indent = ''): string => {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? schema.enum.map(option => `"${option}"`).join(' | ') : 'string';
+    case 'number':
+    case 'integer':
+      return describeRange(schema) || schema.type;
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return schema.items.type === 'object'
+        ? `[${describeLlmSchema(schema.items, indent)}]`
+        : `${describeLlmSchema(schema.items, indent)}[]`;
+    case 'object': {
+      const inner = `${indent}  `;
+      const fields = Object.entries(schema.properties)
+        .map(([key, property]) => `${inner}"${key}": ${describeLlmSchema(property, inner)}`);
+      return `{\n${fields.join(',\n')}\n${indent}}`;
+    }
+  }
+};
+
+// Gemini's responseSchema is an OpenAPI subset with upper-case types. Ranges go into the
+// description since validation clamps them anyway.
+export const toGeminiSchema = (schema: LlmSchema): Record<string, unknown> => {
+  const range = schema.type === 'number' || schema.type === 'integer' ? describeRange(schema) : '';
+  const description = [schema.description, range].filter(Boolean).join(' ') || undefined;
+  const base = { type: schema.type.toUpperCase(), ...(description && { description }) };
+
+  switch (schema.type) {
+    case 'string':
+      return { ...base, ...(schema.enum && { format: 'enum', enum: schema.enum }) };
+    case 'array':
+      return { ...base, items: toGeminiSchema(schema.items) };
+    case 'object':
+      return {
+        ...base,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, property]) => [key, toGeminiSchema(property)])
+        ),
+        required: schema.required ?? Object.keys(schema.properties),
+        propertyOrdering: Object.keys(schema.properties),
+      };
+    default:
+      return base;
+  }
+};
+
+// Plain JSON Schema for OpenAI-compatible response_format (OpenAI, llama.cpp, Ollama)
+export const toJsonSchema = (schema: LlmSchema): Record<string, unknown> => {
+  const base = { type: schema.type, ...(schema.description && { description: schema.description }) };
+
+  switch (schema.type) {
+    case 'string':
+      return { ...base, ...(schema.enum && { enum: schema.enum }) };
+    case 'number':
+    case 'integer':
+      return {
+        ...base,
+        ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+        ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+      };
+    case 'array':
+      return { ...base, items: toJsonSchema(schema.items) };
+    case 'object':
+      return {
+        ...base,
+        properties: Object.fromEntries(
+          Object.entries(schema.properties).map(([key, property]) => [key, toJsonSchema(property)])
+        ),
+        required: schema.required ?? Object.keys(schema.properties),
+        additionalProperties: false,
+      };
+    default:
+      return base;
+  }
+};
+
+// ---- Content evaluation ----
+
+export interface ContentEvaluation {
+  mainPoint: {
+    identified: string;
+    clarity: number;
+    feedback: string;
+  };
+  argumentStructure: {
+    hasStructure: boolean;
+    structure: string;
+    effectiveness: number;
+    suggestions: string;
+  };
+  evidenceAndExamples: {
+    hasEvidence: boolean;
+    evidenceQuality: number;
+    evidenceTypes: string[];
+    suggestions: string;
+  };
+  persuasiveness: {
+    pointProven: boolean;
+    persuasionScore: number;
+    strengths: string[];
+    weaknesses: string[];
+    improvements: string;
+  };
+  starAnalysis: {
+    situation: string;
+    task: string;
+    action: string;
+    result: string;
+    overallStarScore: number;
+  };
+}
+
+const score: LlmSchema = { type: 'integer', minimum: 1, maximum: 10 };
+const text: LlmSchema = { type: 'string' };
+const textList: LlmSchema = { type: 'array', items: text };
+
+export const contentEvaluationSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    mainPoint: {
+      type: 'object',
+      properties: {
+        identified: { type: 'string', description: "The speaker's main point or thesis" },
+        clarity: score,
+        feedback: { type: 'string', description: 'How to articulate the main point better' },
+      },
+    },
+    argumentStructure: {
+      type: 'object',
+      properties: {
+        hasStructure: { type: 'boolean' },
+        structure: { type: 'string', description: 'The structure used, e.g. STAR or problem-solution' },
+        effectiveness: score,
+        suggestions: text,
+      },
+    },
+    evidenceAndExamples: {
+      type: 'object',
+      properties: {
+        hasEvidence: { type: 'boolean' },
+        evidenceQuality: score,
+        evidenceTypes: { type: 'array', items: text, description: 'e.g. example, statistic, anecdote, expert opinion' },
+        suggestions: text,
+      },
+    },
+    persuasiveness: {
+      type: 'object',
+      properties: {
+        pointProven: { type: 'boolean' },
+        persuasionScore: score,
+        strengths: textList,
+        weaknesses: textList,
+        improvements: text,
+      },
+    },
+    starAnalysis: {
+      type: 'object',
+      properties: {
+        situation: { type: 'string', description: 'How clearly the context was established' },
+        task: { type: 'string', description: 'How clearly the objective was defined' },
+        action: { type: 'string', description: 'How clearly the actions were explained' },
+        result: { type: 'string', description: 'How clearly the outcome was stated' },
+        overallStarScore: score,
+      },
+    },
+  },
+};
+
+// ---- generate-speech-suggestions ----
+
+export interface SpeechSuggestionsRequest {
+  transcript: string;
+  overallScore?: number;
+  clarityScore?: number;
+  fillerWords?: string[];
+  primaryTone?: string;
+  // Reply with server-sent events instead of a single JSON body
+  stream?: boolean;
+}
+
+export const speechSuggestionsRequestSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    transcript: { type: 'string', minLength: 1 },
+    overallScore: { type: 'number' },
+    clarityScore: { type: 'number' },
+    fillerWords: textList,
+    primaryTone: text,
+    stream: { type: 'boolean' },
+  },
+  required: ['transcript'],
+};
+
+export interface SpeechSuggestions {
+  wordImprovements: Array<{ original: string; suggestions: string[]; context: string }>;
+  phraseAlternatives: Array<{ original: string; alternatives: string[]; improvement: string }>;
+  vocabularyEnhancement: Array<{ category: string; suggestions: string[]; usage: string }>;
+  contentEvaluation: ContentEvaluation;
+}
+
+export const speechSuggestionsSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    wordImprovements: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          original: { type: 'string', description: 'A word from the transcript' },
+          suggestions: textList,
+          context: { type: 'string', description: 'Why the change helps' },
+        },
+      },
+    },
+    phraseAlternatives: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          original: { type: 'string', description: 'A phrase from the transcript' },
+          alternatives: textList,
+          improvement: { type: 'string', description: 'Why the alternatives are better' },
+        },
+      },
+    },
+    vocabularyEnhancement: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', description: 'e.g. precision or formality' },
+          suggestions: textList,
+          usage: { type: 'string', description: 'How and when to use these words' },
+        },
+      },
+    },
+    contentEvaluation: contentEvaluationSchema,
+  },
+};
+
+// ---- analyze-text ----
+
+export interface TextAnalysisRequest {
+  text: string;
+}
+
+export const textAnalysisRequestSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', minLength: 1 },
+  },
+};
+
+export interface TextAnalysisResult {
+  summary: string;
+  keyPoints: string[];
+  structure: {
+    type: string;
+    organization: string;
+    clarity: number;
+  };
+  sentiment: {
+    overall: 'positive' | 'negative' | 'neutral';
+    confidence: number;
+    emotions: string[];
+  };
+  topics: string[];
+  readability: {
+    level: string;
+    score: number;
+  };
+  suggestions: string[];
+}
+
+export const textAnalysisResultSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A concise 2-3 sentence summary of the main content' },
+    keyPoints: textList,
+    structure: {
+      type: 'object',
+      properties: {
+        type: { type: 'string', enum: ['narrative', 'argumentative', 'informational', 'conversational'] },
+        organization: { type: 'string', description: 'How the content is organized' },
+        clarity: score,
+      },
+    },
+    sentiment: {
+      type: 'object',
+      properties: {
+        overall: { type: 'string', enum: ['positive', 'negative', 'neutral'] },
+        confidence: { type: 'number', minimum: 0, maximum: 1 },
+        emotions: textList,
+      },
+    },
+    topics: textList,
+    readability: {
+      type: 'object',
+      properties: {
+        level: { type: 'string', enum: ['elementary', 'middle school', 'high school', 'college', 'graduate'] },
+        score,
+      },
+    },
+    suggestions: textList,
+  },
+};
+
+// ---- improve-speech ----
+
+export interface ImproveSpeechRequest {
+  prompt: string;
+  // Reply with server-sent events instead of a single JSON body
+  stream?: boolean;
+}
+
+export const improveSpeechRequestSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    prompt: { type: 'string', minLength: 1 },
+    stream: { type: 'boolean' },
+  },
+  required: ['prompt'],
+};
+
+// The improvement options offered in the UI, plus 'custom' for the user's free-text request
+export const SCRIPT_CHANGE_CATEGORIES = ['vocabulary', 'flow', 'tone', 'clarity', 'persuasion', 'engagement', 'custom'];
+
+// One edit as the model reports it; either side is empty for a pure insertion or deletion
+export interface ReportedScriptChange {
+  original: string;
+  revised: string;
+  category: string;
+}
+
+const scriptChangesProperty: LlmSchema = {
+  type: 'array',
+  description: 'Every edit made to the transcript, in order, tagged with the requested improvement that caused it',
+  items: {
+    type: 'object',
+    properties: {
+      original: { type: 'string', description: 'The words replaced, exactly as in the transcript; empty for an insertion' },
+      revised: { type: 'string', description: 'The replacement, exactly as in the improved script; empty for a deletion' },
+      category: { type: 'string', enum: SCRIPT_CHANGE_CATEGORIES },
+    },
+  },
+};
+
+export interface ImprovedScript {
+  improvedScript: string;
+  changes?: ReportedScriptChange[];
+}
+
+export const improvedScriptSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    improvedScript: { type: 'string', minLength: 1, description: 'Only the improved script, without commentary' },
+    changes: scriptChangesProperty,
+  },
+  required: ['improvedScript'],
+};
+
+// For a streamed script, whose edits are listed in a second request once it is complete
+export interface ScriptChanges {
+  changes: ReportedScriptChange[];
+}
+
+export const scriptChangesSchema: LlmSchema = {
+  type: 'object',
+  properties: {
+    changes: scriptChangesProperty,
+  },
+};
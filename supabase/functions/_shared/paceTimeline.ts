@@ -0,0 +1,135 @@
+// Rolling words-per-minute timeline from word timings.
+
+import type { TimedWord } from './fillerWords.ts';
+
+export type PaceStatus = 'rushing' | 'steady' | 'dragging';
+
+export interface PacePoint {
+  // Window centre in seconds from the first word
+  time: number;
+  wpm: number;
+  status: PaceStatus;
+}
+
+export interface PaceSegment {
+  status: Exclude<PaceStatus, 'steady'>;
+  // Segment boundaries in seconds from the first word
+  start: number;
+  end: number;
+  average_wpm: number;
+}
+
+export interface PaceTimeline {
+  window_ms: number;
+  step_ms: number;
+  points: PacePoint[];
+  segments: PaceSegment[];
+  min_wpm: number;
+  max_wpm: number;
+  // Compares the first and last third of the speech
+  trend: 'speeding_up' | 'slowing_down' | 'steady';
+}
+
+export interface PaceTimelineOptions {
+  windowMs?: number;
+  stepMs?: number;
+}
+
+// Same thresholds the pace suggestions use
+export const RUSHING_WPM = 180;
+export const DRAGGING_WPM = 120;
+
+const DEFAULT_WINDOW_MS = 15000;
+const DEFAULT_STEP_MS = 5000;
+// Relative change between the first and last third that counts as a trend
+const TREND_THRESHOLD = 0.15;
+
+const classify = (wpm: number): PaceStatus =>
+  wpm > RUSHING_WPM ? 'rushing' : wpm < DRAGGING_WPM ? 'dragging' : 'steady';
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+const average = (values: number[]): number =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// Merge consecutive rushing/dragging windows into marked segments.
+const buildSegments = (points: PacePoint[], halfWindowSeconds: number): PaceSegment[] => {
+  const segments: PaceSegment[] = [];
+  let current: { status: PaceSegment['status']; points: PacePoint[] } | null = null;
+
+  const close = () => {
+    if (!current) return;
+    const first = current.points[0];
+    const last = current.points[current.points.length - 1];
+    segments.push({
+      status: current.status,
+      start: round1(Math.max(0, first.time - halfWindowSeconds)),
+      end: round1(last.time + halfWindowSeconds),
+      average_wpm: Math.round(average(current.points.map(point => point.wpm))),
+    });
+    current = null;
+  };
+
+  points.forEach(point => {
+    if (point.status === 'steady') {
+      close();
+    } else if (current && current.status === point.status) {
+      current.points.push(point);
+    } else {
+      close();
+      current = { status: point.status, points: [point] };
+    }
+  });
+  close();
+
+  return segments;
+};
+
+// Count words per sliding window over the word start times. Returns null when
+// the words carry no timings.
+export const computePaceTimeline = (
+  words: TimedWord[],
+  { windowMs = DEFAULT_WINDOW_MS, stepMs = DEFAULT_STEP_MS }: PaceTimelineOptions = {}
+): PaceTimeline | null => {
+  const starts = (Array.isArray(words) ? words : [])
+    .map(word => word?.start)
+    .filter((start): start is number => typeof start === 'number');
+  if (starts.length < 2) return null;
+
+  const origin = starts[0];
+  const lastWord = words[words.length - 1];
+  const spanMs = (typeof lastWord.end === 'number' ? lastWord.end : starts[starts.length - 1]) - origin;
+  if (spanMs <= 0) return null;
+
+  const countInWindow = (from: number, to: number) =>
+    starts.filter(start => start - origin >= from && start - origin < to).length;
+
+  // Short recordings get a single window covering the whole speech
+  const window = Math.min(windowMs, spanMs);
+  const windowStarts: number[] = [];
+  for (let from = 0; from + window <= spanMs; from += stepMs) windowStarts.push(from);
+  // Anchor a final window at the end so the closing seconds are always covered
+  if (windowStarts[windowStarts.length - 1] !== spanMs - window) windowStarts.push(spanMs - window);
+
+  const points: PacePoint[] = windowStarts.map(from => {
+    const wpm = Math.round(countInWindow(from, from + window) / (window / 60000));
+    return { time: round1((from + window / 2) / 1000), wpm, status: classify(wpm) };
+  });
+
+  const third = Math.max(1, Math.floor(points.length / 3));
+  const startWpm = average(points.slice(0, third).map(point => point.wpm));
+  const endWpm = average(points.slice(-third).map(point => point.wpm));
+  const change = startWpm > 0 ? (endWpm - startWpm) / startWpm : 0;
+
+  return {
+    window_ms: window,
+    step_ms: stepMs,
+    points,
+    segments: buildSegments(points, window / 2000),
+    min_wpm: Math.min(...points.map(point => point.wpm)),
+    max_wpm: Math.max(...points.map(point => point.wpm)),
+    trend: points.length < 3 || Math.abs(change) < TREND_THRESHOLD
+      ? 'steady'
+      : change > 0 ? 'speeding_up' : 'slowing_down',
+  };
+};
@@ -0,0 +1,149 @@
+// Pause/silence analysis from word timings.
+
+import { detectFillerWords, normalizeToken, type TimedWord } from './fillerWords.ts';
+
+export type PauseType = 'natural' | 'hesitation' | 'long_silence';
+
+export interface Pause {
+  type: PauseType;
+  // Gap boundaries in milliseconds
+  start: number;
+  end: number;
+  duration: number;
+  // Index of the word the pause follows
+  afterWordIndex: number;
+  beforeKeyPoint: boolean;
+}
+
+export interface PauseAnalysis {
+  count: number;
+  natural_count: number;
+  hesitation_count: number;
+  long_silence_count: number;
+  pauses_per_minute: number;
+  average_pause_ms: number;
+  longest_silence_ms: number;
+  longest_silence_at: number | null;
+  key_point_count: number;
+  pauses_before_key_points: number;
+  assessment: string;
+  pauses: Pause[];
+}
+
+// Gaps shorter than this are ordinary articulation, not pauses
+export const MIN_PAUSE_MS = 250;
+// Mid-sentence gaps at least this long read as hesitation
+export const HESITATION_MS = 1000;
+// Any gap at least this long is a long silence regardless of context
+export const LONG_SILENCE_MS = 3000;
+
+// Phrases that usually introduce a key point; a pause right before them adds emphasis
+export const KEY_POINT_MARKERS = [
+  'first',
+  'second',
+  'third',
+  'finally',
+  'most importantly',
+  'the key',
+  'the main',
+  'my point',
+  'in conclusion',
+  'to summarize',
+  'the bottom line',
+  'remember',
+];
+
+const endsClause = (text: string): boolean => /[.!?,;:]["')\]]*$/.test(text.trim());
+
+const startsKeyPoint = (tokens: string[], index: number): boolean =>
+  KEY_POINT_MARKERS.some(marker =>
+    marker.split(' ').every((part, offset) => tokens[index + offset] === part)
+  );
+
+const hasTimings = (word: TimedWord | undefined): word is TimedWord & { start: number; end: number } =>
+  !!word && typeof word.start === 'number' && typeof word.end === 'number';
+
+// Classify every gap between consecutive timed words. Returns null when the
+// words carry no timings (e.g. text-only pipelines).
+export const analyzePauses = (words: TimedWord[]): PauseAnalysis | null => {
+  if (!Array.isArray(words) || words.length < 2 || !words.every(hasTimings)) return null;
+
+  const tokens = words.map(word => normalizeToken(word.text || ''));
+  const fillerIndices = new Set<number>();
+  detectFillerWords(words).forEach(occurrence => {
+    occurrence.word.split(' ').forEach((_, offset) => fillerIndices.add(occurrence.index + offset));
+  });
+
+  const keyPointIndices: number[] = [];
+  tokens.forEach((_, index) => {
+    const atSentenceStart = index === 0 || /[.!?]["')\]]*$/.test((words[index - 1].text || '').trim());
+    if (atSentenceStart && startsKeyPoint(tokens, index)) keyPointIndices.push(index);
+  });
+
+  const pauses: Pause[] = [];
+  for (let i = 0; i < words.length - 1; i++) {
+    const start = words[i].end as number;
+    const end = words[i + 1].start as number;
+    const duration = end - start;
+    if (duration < MIN_PAUSE_MS) continue;
+
+    const nearFiller = fillerIndices.has(i) || fillerIndices.has(i + 1);
+    let type: PauseType = 'natural';
+    if (duration >= LONG_SILENCE_MS) {
+      type = 'long_silence';
+    } else if (nearFiller || (duration >= HESITATION_MS && !endsClause(words[i].text || ''))) {
+      type = 'hesitation';
+    }
+
+    pauses.push({
+      type,
+      start,
+      end,
+      duration,
+      afterWordIndex: i,
+      beforeKeyPoint: keyPointIndices.includes(i + 1),
+    });
+  }
+
+  const speakingMs = (words[words.length - 1].end as number) - (words[0].start as number);
+  const minutes = speakingMs > 0 ? speakingMs / 60000 : 0;
+  const longest = pauses.reduce<Pause | null>((max, pause) => (!max || pause.duration > max.duration ? pause : max), null);
+  const countOf = (type: PauseType) => pauses.filter(pause => pause.type === type).length;
+
+  const analysis: PauseAnalysis = {
+    count: pauses.length,
+    natural_count: countOf('natural'),
+    hesitation_count: countOf('hesitation'),
+    long_silence_count: countOf('long_silence'),
+    pauses_per_minute: minutes > 0 ? Math.round((pauses.length / minutes) * 10) / 10 : 0,
+    average_pause_ms: pauses.length
+      ? Math.round(pauses.reduce((sum, pause) => sum + pause.duration, 0) / pauses.length)
+      : 0,
+    longest_silence_ms: longest?.duration || 0,
+    longest_silence_at: longest ? longest.start : null,
+    key_point_count: keyPointIndices.length,
+    pauses_before_key_points: pauses.filter(pause => pause.beforeKeyPoint).length,
+    assessment: '',
+    pauses,
+  };
+  analysis.assessment = getPauseFeedback(analysis);
+
+  return analysis;
+};
+
+// One line of rhythm advice derived from the pause analysis.
+export const getPauseFeedback = (analysis: PauseAnalysis): string => {
+  if (analysis.long_silence_count > 0) {
+    return `You had ${analysis.long_silence_count} long silence${analysis.long_silence_count === 1 ? '' : 's'} (longest ${(analysis.longest_silence_ms / 1000).toFixed(1)}s) - keep pauses under 3 seconds so you don't lose the audience`;
+  }
+  if (analysis.hesitation_count > analysis.natural_count) {
+    return 'Most of your pauses were hesitations - plan your next sentence before you start it and pause at sentence ends instead';
+  }
+  if (analysis.pauses_per_minute < 4) {
+    return 'You rarely paused - add short pauses between ideas to give your audience time to absorb them';
+  }
+  if (analysis.key_point_count > 0 && analysis.pauses_before_key_points === 0) {
+    return 'Try pausing briefly before your key points to give them more emphasis';
+  }
+  return 'Good rhythm - your pauses fall naturally between ideas';
+};
@@ -0,0 +1,304 @@
+// Deterministic speech scoring.
+// Every score is a pure function of the transcript and word timings, so re-analysing
+// the same recording always produces the same numbers. Bump SCORING_VERSION whenever
+// a weight, threshold or keyword list changes so stored scores can be told apart.
+
+import {
+  detectFillerWords,
+  normalizeToken,
+  tokenizeTranscript,
+  type TimedWord,
+} from './fillerWords.ts';
+
+export const SCORING_VERSION = '1.0.0';
+
+export interface ScoringInput {
+  transcript: string;
+  // Word timings in milliseconds (AssemblyAI shape); optional for text-only pipelines
+  words?: TimedWord[];
+  // Recording length in seconds, used when no word timings are available
+  durationSeconds?: number;
+  // Transcript-level recognition confidence (0-1)
+  confidence?: number;
+}
+
+export interface ScoreFactor {
+  label: string;
+  value: string;
+  // Points this factor added to (positive) or removed from (negative) the score
+  impact: number;
+}
+
+export interface ScoreExplanation {
+  score: number;
+  summary: string;
+  factors: ScoreFactor[];
+}
+
+export interface ContentScores {
+  mainPointClarity: number;
+  structureEffectiveness: number;
+  evidenceQuality: number;
+  persuasionScore: number;
+  starScore: number;
+  hasStructure: boolean;
+  hasEvidence: boolean;
+  detectedStructure: string;
+  evidenceTypes: string[];
+}
+
+export interface SpeechScores {
+  version: string;
+  overall_score: number;
+  clarity_score: number;
+  pace_score: number;
+  filler_score: number;
+  content_score: number;
+  words_per_minute: number;
+  content: ContentScores;
+  breakdown: {
+    overall: ScoreExplanation;
+    clarity: ScoreExplanation;
+    pace: ScoreExplanation;
+    filler: ScoreExplanation;
+    content: ScoreExplanation;
+  };
+}
+
+export const SCORE_WEIGHTS = {
+  clarity: 0.3,
+  pace: 0.2,
+  filler: 0.25,
+  content: 0.25,
+};
+
+export const IDEAL_PACE_WPM = { min: 130, max: 160 };
+
+const DEFAULT_CONFIDENCE = 0.8;
+const PACE_PENALTY_PER_WPM = 1.5;
+const FILLER_PENALTY_PER_PERCENT = 5;
+
+const EVIDENCE_KEYWORDS: Record<string, string[]> = {
+  'statistical data': ['data', 'statistics', 'survey', 'percent'],
+  'examples': ['example', 'instance', 'case', 'for example'],
+  'research findings': ['study', 'research', 'analysis', 'report'],
+  'factual evidence': ['fact', 'evidence', 'proof'],
+};
+
+const TRANSITION_KEYWORDS = ['first', 'second', 'third', 'finally', 'next', 'then', 'in conclusion', 'to summarize'];
+
+// Checked in order; the first structure with a keyword hit wins
+const STRUCTURE_KEYWORDS: Record<string, string[]> = {
+  'problem-solution': ['problem', 'issue', 'challenge', 'solution', 'solve', 'address'],
+  'star': ['situation', 'task', 'action', 'result', 'outcome'],
+  'chronological': ['first', 'then', 'next', 'finally', 'after', 'before'],
+  'comparison': ['however', 'but', 'although', 'while', 'compared', 'versus'],
+};
+
+const PERSUASION_KEYWORDS = ['because', 'therefore', 'so that', 'which means', 'as a result', 'this shows'];
+
+const STAR_KEYWORDS: Record<string, string[]> = {
+  situation: ['situation', 'context', 'background', 'when i was'],
+  task: ['task', 'goal', 'objective', 'responsible', 'needed to'],
+  action: ['action', 'i did', 'i decided', 'implemented', 'developed', 'created', 'led'],
+  result: ['result', 'outcome', 'achieved', 'improved', 'increased', 'reduced'],
+};
+
+const clamp = (value: number, min: number, max: number): number =>
+  Math.min(max, Math.max(min, value));
+
+// Return the phrases that occur in the normalized token stream as whole words.
+const findPhrases = (tokens: string[], phrases: string[]): string[] => {
+  const haystack = ` ${tokens.join(' ')} `;
+  return phrases.filter(phrase => haystack.includes(` ${phrase} `));
+};
+
+const hasTimings = (words: TimedWord[]): boolean =>
+  words.length > 0 &&
+  typeof words[0].start === 'number' &&
+  typeof words[words.length - 1].end === 'number';
+
+// Speaking time in seconds: span of the word timings, otherwise the recording length.
+const getSpeakingSeconds = (words: TimedWord[], durationSeconds?: number): { seconds: number; source: string } => {
+  if (hasTimings(words)) {
+    const span = ((words[words.length - 1].end as number) - (words[0].start as number)) / 1000;
+    if (span > 0) return { seconds: span, source: 'word timings' };
+  }
+  return { seconds: Math.max(0, durationSeconds || 0), source: 'recording duration' };
+};
+
+const scoreClarity = (words: TimedWord[], confidence?: number): ScoreExplanation => {
+  const wordConfidences = words
+    .map(word => word.confidence)
+    .filter((value): value is number => typeof value === 'number');
+
+  let meanConfidence = DEFAULT_CONFIDENCE;
+  let source = 'default, no confidence available';
+  if (wordConfidences.length > 0) {
+    meanConfidence = wordConfidences.reduce((sum, value) => sum + value, 0) / wordConfidences.length;
+    source = `mean of ${wordConfidences.length} word confidences`;
+  } else if (typeof confidence === 'number') {
+    meanConfidence = confidence;
+    source = 'transcript confidence';
+  }
+
+  const lowConfidenceWords = wordConfidences.filter(value => value < 0.5).length;
+  const score = Math.round(clamp(meanConfidence, 0, 1) * 100);
+
+  return {
+    score,
+    summary: `Recognition confidence of ${score}% (${source}).`,
+    factors: [
+      { label: 'Recognition confidence', value: `${score}%`, impact: score },
+      ...(wordConfidences.length > 0
+        ? [{ label: 'Low-confidence words', value: String(lowConfidenceWords), impact: 0 }]
+        : []),
+    ],
+  };
+};
+
+const scorePace = (wordsPerMinute: number, source: string): ScoreExplanation => {
+  const distance = wordsPerMinute < IDEAL_PACE_WPM.min
+    ? IDEAL_PACE_WPM.min - wordsPerMinute
+    : wordsPerMinute > IDEAL_PACE_WPM.max
+      ? wordsPerMinute - IDEAL_PACE_WPM.max
+      : 0;
+  const penalty = Math.min(100, Math.round(distance * PACE_PENALTY_PER_WPM));
+  const score = 100 - penalty;
+  const band = `${IDEAL_PACE_WPM.min}-${IDEAL_PACE_WPM.max} WPM`;
+
+  return {
+    score,
+    summary: distance === 0
+      ? `${wordsPerMinute} WPM is within the ideal ${band} range.`
+      : `${wordsPerMinute} WPM is ${distance} WPM ${wordsPerMinute < IDEAL_PACE_WPM.min ? 'below' : 'above'} the ideal ${band} range.`,
+    factors: [
+      { label: 'Words per minute', value: `${wordsPerMinute} (from ${source})`, impact: 0 },
+      { label: 'Distance from ideal range', value: `${distance} WPM`, impact: -penalty },
+    ],
+  };
+};
+
+const scoreFillers = (fillerCount: number, totalWords: number): ScoreExplanation => {
+  const rate = totalWords > 0 ? (fillerCount / totalWords) * 100 : 0;
+  const penalty = Math.min(100, Math.round(rate * FILLER_PENALTY_PER_PERCENT));
+  const score = 100 - penalty;
+
+  return {
+    score,
+    summary: `${fillerCount} filler word${fillerCount === 1 ? '' : 's'} in ${totalWords} words (${rate.toFixed(1)}%).`,
+    factors: [
+      { label: 'Filler words', value: String(fillerCount), impact: 0 },
+      { label: 'Filler rate', value: `${rate.toFixed(1)}%`, impact: -penalty },
+    ],
+  };
+};
+
+const scoreContent = (tokens: string[], fillerRate: number, clarityScore: number): { content: ContentScores; explanation: ScoreExplanation } => {
+  const evidenceTypes = Object.entries(EVIDENCE_KEYWORDS)
+    .filter(([, keywords]) => findPhrases(tokens, keywords).length > 0)
+    .map(([type]) => type);
+  const evidenceHits = findPhrases(tokens, Object.values(EVIDENCE_KEYWORDS).flat()).length;
+  const hasEvidence = evidenceHits > 0;
+  const evidenceQuality = hasEvidence ? clamp(5 + evidenceTypes.length, 6, 9) : 3;
+
+  const transitions = findPhrases(tokens, TRANSITION_KEYWORDS);
+  const hasStructure = transitions.length > 0;
+  const detectedStructure = Object.entries(STRUCTURE_KEYWORDS)
+    .find(([, keywords]) => findPhrases(tokens, keywords).length > 0)?.[0] || 'logical flow';
+  const structureEffectiveness = hasStructure
+    ? clamp(6 + transitions.length, 6, 9)
+    : detectedStructure !== 'logical flow' ? 5 : 4;
+
+  const reasoning = findPhrases(tokens, PERSUASION_KEYWORDS).length;
+  const persuasionScore = clamp(
+    4 + Math.min(3, evidenceTypes.length) + Math.min(2, reasoning) + (fillerRate < 3 ? 1 : 0),
+    1,
+    10
+  );
+
+  const starElements = Object.values(STAR_KEYWORDS).filter(keywords => findPhrases(tokens, keywords).length > 0).length;
+  const starScore = clamp(2 + starElements * 2, 1, 10);
+
+  const mainPointClarity = clamp(Math.round(clarityScore / 10), 1, 10);
+
+  const subScores = [structureEffectiveness, evidenceQuality, persuasionScore, starScore];
+  const score = Math.round((subScores.reduce((sum, value) => sum + value, 0) / subScores.length) * 10);
+
+  return {
+    content: {
+      mainPointClarity,
+      structureEffectiveness,
+      evidenceQuality,
+      persuasionScore,
+      starScore,
+      hasStructure,
+      hasEvidence,
+      detectedStructure,
+      evidenceTypes: evidenceTypes.length > 0 ? evidenceTypes : ['anecdotal'],
+    },
+    explanation: {
+      score,
+      summary: 'Average of structure, evidence, persuasion and STAR sub-scores (each 1-10).',
+      factors: [
+        { label: 'Structure', value: `${structureEffectiveness}/10 (${transitions.length} transitions, ${detectedStructure})`, impact: structureEffectiveness },
+        { label: 'Evidence', value: `${evidenceQuality}/10 (${hasEvidence ? evidenceTypes.join(', ') : 'none found'})`, impact: evidenceQuality },
+        { label: 'Persuasion', value: `${persuasionScore}/10 (${reasoning} reasoning phrases)`, impact: persuasionScore },
+        { label: 'STAR coverage', value: `${starScore}/10 (${starElements} of 4 elements)`, impact: starScore },
+      ],
+    },
+  };
+};
+
+// Score a speech from its transcript and (optionally) word timings.
+export const scoreSpeech = ({ transcript, words, durationSeconds, confidence }: ScoringInput): SpeechScores => {
+  const timedWords = Array.isArray(words) && words.length > 0 ? words : tokenizeTranscript(transcript || '');
+  const totalWords = timedWords.length;
+  const tokens = timedWords.map(word => normalizeToken(word?.text || '')).filter(Boolean);
+
+  const clarity = scoreClarity(timedWords, confidence);
+
+  const speaking = getSpeakingSeconds(timedWords, durationSeconds);
+  const wordsPerMinute = speaking.seconds > 0 ? Math.round(totalWords / (speaking.seconds / 60)) : 0;
+  const pace = scorePace(wordsPerMinute, speaking.source);
+
+  const fillerCount = detectFillerWords(timedWords).length;
+  const filler = scoreFillers(fillerCount, totalWords);
+  const fillerRate = totalWords > 0 ? (fillerCount / totalWords) * 100 : 0;
+
+  const { content, explanation: contentExplanation } = scoreContent(tokens, fillerRate, clarity.score);
+
+  const components = [
+    { label: 'Clarity', score: clarity.score, weight: SCORE_WEIGHTS.clarity },
+    { label: 'Pace', score: pace.score, weight: SCORE_WEIGHTS.pace },
+    { label: 'Filler words', score: filler.score, weight: SCORE_WEIGHTS.filler },
+    { label: 'Content', score: contentExplanation.score, weight: SCORE_WEIGHTS.content },
+  ];
+  const overallScore = Math.round(components.reduce((sum, c) => sum + c.score * c.weight, 0));
+
+  return {
+    version: SCORING_VERSION,
+    overall_score: overallScore,
+    clarity_score: clarity.score,
+    pace_score: pace.score,
+    filler_score: filler.score,
+    content_score: contentExplanation.score,
+    words_per_minute: wordsPerMinute,
+    content,
+    breakdown: {
+      overall: {
+        score: overallScore,
+        summary: `Weighted average of clarity, pace, filler and content scores (scoring v${SCORING_VERSION}).`,
+        factors: components.map(c => ({
+          label: c.label,
+          value: `${c.score} × ${c.weight}`,
+          impact: Math.round(c.score * c.weight),
+        })),
+      },
+      clarity,
+      pace,
+      filler,
+      content: contentExplanation,
+    },
+  };
+};
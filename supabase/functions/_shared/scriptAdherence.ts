@@ -0,0 +1,193 @@
+// Script-adherence scoring: aligns what was said to a prepared script.
+
+import { detectFillerWords, normalizeToken, tokenizeTranscript, type TimedWord } from './fillerWords.ts';
+
+export type AdherenceSegmentType = 'matched' | 'skipped' | 'added' | 'substituted';
+
+export interface AdherenceSegment {
+  type: AdherenceSegmentType;
+  // Script words this segment covers (empty for added passages)
+  script_text: string;
+  // What was actually said (empty for skipped passages)
+  spoken_text: string;
+  // Timestamps in milliseconds of the spoken words; for skipped passages, where the gap is
+  start?: number;
+  end?: number;
+}
+
+export interface ScriptAdherence {
+  // The target script as given, so the comparison can be re-run
+  script: string;
+  // Percent of script words that were delivered as written
+  coverage: number;
+  script_word_count: number;
+  matched_word_count: number;
+  skipped_word_count: number;
+  substituted_word_count: number;
+  added_word_count: number;
+  // Number of passages of each kind
+  skipped_count: number;
+  substituted_count: number;
+  added_count: number;
+  assessment: string;
+  // The whole script in order, with added passages where they were said
+  segments: AdherenceSegment[];
+}
+
+type AlignmentOp = { type: 'equal' | 'script' | 'spoken'; scriptIndex: number; spokenIndex: number };
+
+// Longest common subsequence over normalized words. Shared leading/trailing words are skipped
+// first, which keeps a close rehearsal cheap.
+const alignWords = (script: string[], spoken: string[]): AlignmentOp[] => {
+  let prefix = 0;
+  while (prefix < script.length && prefix < spoken.length && script[prefix] === spoken[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < script.length - prefix &&
+    suffix < spoken.length - prefix &&
+    script[script.length - 1 - suffix] === spoken[spoken.length - 1 - suffix]
+  ) suffix++;
+
+  const n = script.length - prefix - suffix;
+  const m = spoken.length - prefix - suffix;
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = script[prefix + i] === spoken[prefix + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const ops: AlignmentOp[] = [];
+  for (let k = 0; k < prefix; k++) ops.push({ type: 'equal', scriptIndex: k, spokenIndex: k });
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && script[prefix + i] === spoken[prefix + j]) {
+      ops.push({ type: 'equal', scriptIndex: prefix + i, spokenIndex: prefix + j });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+      ops.push({ type: 'script', scriptIndex: prefix + i, spokenIndex: prefix + j });
+      i++;
+    } else {
+      ops.push({ type: 'spoken', scriptIndex: prefix + i, spokenIndex: prefix + j });
+      j++;
+    }
+  }
+  for (let k = 0; k < suffix; k++) {
+    ops.push({ type: 'equal', scriptIndex: script.length - suffix + k, spokenIndex: spoken.length - suffix + k });
+  }
+  return ops;
+};
+
+const getAssessment = (coverage: number, skippedCount: number, addedCount: number): string => {
+  if (coverage >= 95) return 'You delivered the script almost word for word.';
+  if (coverage >= 80) {
+    return skippedCount > 0
+      ? 'You covered most of the script; review the highlighted passages you skipped.'
+      : 'You covered most of the script with some rewording.';
+  }
+  if (coverage >= 50) {
+    return addedCount > skippedCount
+      ? 'You improvised a lot - about half of the script was delivered as written.'
+      : 'Large parts of the script were skipped or reworded; rehearse the highlighted sections.';
+  }
+  return 'Most of the script was not delivered as written. Try rehearsing it in shorter sections.';
+};
+
+// Compare what was said (timed words or a plain transcript) to the target script. Filler words
+// are ignored rather than counted as added passages.
+export const analyzeScriptAdherence = (script: string, spoken: TimedWord[] | string): ScriptAdherence => {
+  const scriptWords = tokenizeTranscript(script);
+  const spokenWords = typeof spoken === 'string' ? tokenizeTranscript(spoken) : spoken;
+  const fillerIndices = new Set<number>();
+  for (const filler of detectFillerWords(spokenWords)) {
+    const length = filler.word.split(/\s+/).length;
+    for (let k = 0; k < length; k++) fillerIndices.add(filler.index + k);
+  }
+
+  const scriptKeys = scriptWords.map(word => normalizeToken(word.text));
+  const spokenKeys = spokenWords.map(word => normalizeToken(word.text || ''));
+  const ops = alignWords(scriptKeys, spokenKeys);
+
+  const segments: AdherenceSegment[] = [];
+  let matched = 0;
+  let skippedWords = 0;
+  let substitutedWords = 0;
+  let addedWords = 0;
+
+  const timeOf = (indices: number[]) => {
+    const timed = indices.map(index => spokenWords[index]).filter(word => typeof word?.start === 'number');
+    return timed.length ? { start: timed[0].start, end: timed[timed.length - 1].end } : {};
+  };
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === 'equal') {
+      const scriptIndices: number[] = [];
+      const spokenIndices: number[] = [];
+      while (k < ops.length && ops[k].type === 'equal') {
+        scriptIndices.push(ops[k].scriptIndex);
+        spokenIndices.push(ops[k].spokenIndex);
+        k++;
+      }
+      matched += scriptIndices.length;
+      const previous = segments[segments.length - 1];
+      const text = scriptIndices.map(index => scriptWords[index].text).join(' ');
+      const said = spokenIndices.map(index => spokenWords[index].text).join(' ');
+      // A dropped filler run can leave two matched runs next to each other
+      if (previous?.type === 'matched') {
+        previous.script_text += ` ${text}`;
+        previous.spoken_text += ` ${said}`;
+        previous.end = timeOf(spokenIndices).end ?? previous.end;
+      } else {
+        segments.push({ type: 'matched', script_text: text, spoken_text: said, ...timeOf(spokenIndices) });
+      }
+      continue;
+    }
+
+    const scriptIndices: number[] = [];
+    const spokenIndices: number[] = [];
+    const gapAt = ops[k].spokenIndex;
+    while (k < ops.length && ops[k].type !== 'equal') {
+      if (ops[k].type === 'script') scriptIndices.push(ops[k].scriptIndex);
+      else if (!fillerIndices.has(ops[k].spokenIndex)) spokenIndices.push(ops[k].spokenIndex);
+      k++;
+    }
+    if (scriptIndices.length === 0 && spokenIndices.length === 0) continue;
+
+    const scriptText = scriptIndices.map(index => scriptWords[index].text).join(' ');
+    const spokenText = spokenIndices.map(index => spokenWords[index].text).join(' ');
+    if (scriptIndices.length && spokenIndices.length) {
+      substitutedWords += scriptIndices.length;
+      segments.push({ type: 'substituted', script_text: scriptText, spoken_text: spokenText, ...timeOf(spokenIndices) });
+    } else if (scriptIndices.length) {
+      skippedWords += scriptIndices.length;
+      // Point at the words either side of the gap
+      segments.push({ type: 'skipped', script_text: scriptText, spoken_text: '', ...timeOf([gapAt - 1, gapAt]) });
+    } else {
+      addedWords += spokenIndices.length;
+      segments.push({ type: 'added', script_text: '', spoken_text: spokenText, ...timeOf(spokenIndices) });
+    }
+  }
+
+  const count = (type: AdherenceSegmentType) => segments.filter(segment => segment.type === type).length;
+  const coverage = scriptWords.length ? Math.round((matched / scriptWords.length) * 100) : 0;
+
+  return {
+    script,
+    coverage,
+    script_word_count: scriptWords.length,
+    matched_word_count: matched,
+    skipped_word_count: skippedWords,
+    substituted_word_count: substitutedWords,
+    added_word_count: addedWords,
+    skipped_count: count('skipped'),
+    substituted_count: count('substituted'),
+    added_count: count('added'),
+    assessment: getAssessment(coverage, count('skipped'), count('added')),
+    segments,
+  };
+};
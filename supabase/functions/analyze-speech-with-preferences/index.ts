@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.50.4';
+import { detectFillerWords, detectFillerWordsInText } from '../_shared/fillerWords.ts';
+import { scoreSpeech } from '../_shared/scoring.ts';
+import { analyzePauses, getPauseFeedback, type PauseAnalysis } from '../_shared/pauses.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -159,26 +162,25 @@ async function generatePersonalizedAnalysis(transcript: string, assemblyData: an
 }
 
 function generateStructuredAnalysis(transcript: string, assemblyData: any, preferences: any, textAnalysis: any): any {
-  // Calculate scores based on AssemblyAI data and text analysis
-  const words = transcript.split(' ').filter(w => w.trim());
-  const sentences = transcript.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  const avgWordsPerSentence = words.length / Math.max(sentences.length, 1);
-  
-  // Extract filler words and calculate scores
-  const fillerWords = assemblyData.words?.filter((word: any) => 
-    ['um', 'uh', 'ah', 'like', 'you know', 'so', 'well', 'actually', 'basically'].includes(word.text.toLowerCase())
-  ) || [];
-  
-  const fillerWordsCount = fillerWords.length;
-  const fillerWordsScore = Math.max(0, 100 - (fillerWordsCount / words.length) * 500);
+  // Calculate scores with the shared deterministic scoring engine
+  const scoring = scoreSpeech({
+    transcript,
+    words: assemblyData.words,
+    durationSeconds: assemblyData.audio_duration,
+    confidence: assemblyData.confidence
+  });
   
-  // Calculate clarity and pace scores
-  const clarityScore = assemblyData.confidence ? Math.round(assemblyData.confidence * 100) : 75;
-  const paceScore = avgWordsPerSentence > 20 ? 60 : avgWordsPerSentence < 5 ? 65 : 85;
-  const overallScore = Math.round((clarityScore + paceScore + fillerWordsScore) / 3);
+  const fillerWordsCount = assemblyData.words?.length
+    ? detectFillerWords(assemblyData.words).length
+    : detectFillerWordsInText(transcript).length;
+  const fillerWordsScore = scoring.filler_score;
+  const clarityScore = scoring.clarity_score;
+  const paceScore = scoring.pace_score;
+  const overallScore = scoring.overall_score;
+  const pauses = assemblyData.words?.length ? analyzePauses(assemblyData.words) : null;
   
   // Generate personalized recommendations based on preferences
-  const recommendations = generatePersonalizedRecommendations(preferences, overallScore, clarityScore, paceScore, fillerWordsCount);
+  const recommendations = generatePersonalizedRecommendations(preferences, overallScore, clarityScore, paceScore, fillerWordsCount, pauses);
   
   // Determine tone based on text analysis sentiment
   let tone = 'neutral and conversational';
@@ -203,7 +205,8 @@ function generateStructuredAnalysis(transcript: string, assemblyData: any, prefe
     clarityScore,
     paceScore,
     fillerWordsCount,
-    fillerWordsScore: Math.round(fillerWordsScore),
+    fillerWordsScore,
+    scoringVersion: scoring.version,
     toneAssessment: `The tone is ${tone}, with a confidence level of ${Math.round(confidence * 100)}%. ${generateToneGuidance(preferences, tone)}`,
     recommendations,
     strengths: generateStrengths(overallScore, clarityScore, paceScore, preferences),
@@ -213,7 +216,7 @@ function generateStructuredAnalysis(transcript: string, assemblyData: any, prefe
   };
 }
 
-function generatePersonalizedRecommendations(preferences: any, overallScore: number, clarityScore: number, paceScore: number, fillerWordsCount: number): string[] {
+function generatePersonalizedRecommendations(preferences: any, overallScore: number, clarityScore: number, paceScore: number, fillerWordsCount: number, pauses: PauseAnalysis | null): string[] {
   const recommendations = [];
   
   if (fillerWordsCount > 3) {
@@ -224,6 +227,10 @@ function generatePersonalizedRecommendations(preferences: any, overallScore: num
     recommendations.push("Work on your pacing. Practice speaking slowly and deliberately, using strategic pauses for emphasis.");
   }
   
+  if (pauses) {
+    recommendations.push(getPauseFeedback(pauses));
+  }
+  
   if (clarityScore < 80) {
     recommendations.push("Focus on clear articulation. Practice tongue twisters and speak more slowly to improve clarity.");
   }
@@ -363,7 +370,9 @@ function generateFallbackAnalysis(transcript: string, assemblyData: any, prefere
     overallScore: 70,
     clarityScore: 75,
     paceScore: 70,
-    fillerWordsCount: Math.floor(words.length * 0.02), // Estimate 2% filler words
+    fillerWordsCount: assemblyData?.words?.length
+      ? detectFillerWords(assemblyData.words).length
+      : detectFillerWordsInText(transcript).length,
     fillerWordsScore: 80,
     toneAssessment: "Analysis service unavailable - local server connection failed. Your speech appears conversational.",
     recommendations: [
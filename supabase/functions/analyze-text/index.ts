@@ -1,5 +1,18 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  generateJson,
+  llmErrorResponse,
+  readLlmRequestBody,
+  validateLlmRequest,
+} from '../_shared/llmClient.ts';
+import {
+  describeLlmSchema,
+  textAnalysisRequestSchema,
+  textAnalysisResultSchema,
+  type TextAnalysisRequest,
+  type TextAnalysisResult,
+} from '../_shared/llmSchemas.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,119 +25,32 @@ serve(async (req) => {
   }
 
   try {
-    const { text } = await req.json();
-    
-    if (!text) {
-      throw new Error('No text provided for analysis');
-    }
+    const { text } = validateLlmRequest<TextAnalysisRequest>(await readLlmRequestBody(req), textAnalysisRequestSchema);
 
-    console.log('Analyzing text with Google Gemini...');
+    console.log('Analyzing text...');
 
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${Deno.env.get('GEMINI_API_KEY')}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: `You are an expert text analyst. Analyze the provided text and return a JSON response with the following structure:
-{
-  "summary": "A concise 2-3 sentence summary of the main content",
-  "keyPoints": ["point1", "point2", "point3"],
-  "structure": {
-    "type": "narrative/argumentative/informational/conversational",
-    "organization": "description of how content is organized",
-    "clarity": 1-10
-  },
-  "sentiment": {
-    "overall": "positive/negative/neutral",
-    "confidence": 0-1,
-    "emotions": ["emotion1", "emotion2"]
-  },
-  "topics": ["topic1", "topic2", "topic3"],
-  "readability": {
-    "level": "elementary/middle school/high school/college/graduate",
-    "score": 1-10
-  },
-  "suggestions": ["improvement1", "improvement2", "improvement3"]
-}
-
-Please analyze this text: "${text}"`
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 1000,
-        }
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gemini API error:', errorText);
-      throw new Error(`Gemini API error: ${errorText}`);
-    }
+    const analysis = await generateJson<TextAnalysisResult>(
+      `Please analyze this text: "${text}"`,
+      textAnalysisResultSchema,
+      {
+        system: `You are an expert text analyst. Analyze the provided text and return a JSON response with the following structure:\n${describeLlmSchema(textAnalysisResultSchema)}`,
+        temperature: 0.3,
+        maxOutputTokens: 1000,
+      }
+    );
 
-    const result = await response.json();
     console.log('Text analysis completed successfully');
 
-    let analysisResult;
-    try {
-      if (!result.candidates || !result.candidates[0] || !result.candidates[0].content) {
-        throw new Error('Invalid response from Gemini API');
-      }
-      
-      const content = result.candidates[0].content.parts[0].text;
-      analysisResult = JSON.parse(content);
-    } catch (parseError) {
-      console.error('Failed to parse JSON response:', parseError);
-      // Fallback response
-      analysisResult = {
-        summary: "Analysis completed successfully.",
-        keyPoints: ["Main content identified"],
-        structure: {
-          type: "conversational",
-          organization: "informal structure",
-          clarity: 7
-        },
-        sentiment: {
-          overall: "neutral",
-          confidence: 0.7,
-          emotions: ["engaged"]
-        },
-        topics: ["general discussion"],
-        readability: {
-          level: "high school",
-          score: 7
-        },
-        suggestions: ["Consider adding more structure", "Clarify key points"]
-      };
-    }
-
     return new Response(
-      JSON.stringify({ 
-        analysis: analysisResult,
-        success: true 
+      JSON.stringify({
+        analysis,
+        success: true
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Text analysis error:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: error.message,
-        success: false 
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
-});
\ No newline at end of file
+});
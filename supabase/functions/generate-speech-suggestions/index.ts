@@ -1,22 +1,34 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+import {
+  generateJson,
+  LlmError,
+  llmErrorResponse,
+  parseStreamedJson,
+  readLlmRequestBody,
+  sseResponse,
+  streamText,
+  validateLlmRequest,
+} from '../_shared/llmClient.ts';
+import {
+  describeLlmSchema,
+  improveSpeechRequestSchema,
+  improvedScriptSchema,
+  speechSuggestionsRequestSchema,
+  speechSuggestionsSchema,
+  type ImproveSpeechRequest,
+  type ImprovedScript,
+  type SpeechSuggestions,
+  type SpeechSuggestionsRequest,
+} from '../_shared/llmSchemas.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface SuggestionRequest {
-  transcript?: string;
-  overallScore?: number;
-  clarityScore?: number;
-  fillerWords?: string[];
-  primaryTone?: string;
-  prompt?: string;
-  type?: string;
-}
+const IMPROVE_SYSTEM_PROMPT = 'You are an expert speech coach and writer. Your task is to improve speech transcripts based on specific requirements while maintaining the original message and meaning.';
+const SUGGESTIONS_SYSTEM_PROMPT = 'You are a speech coach specializing in vocabulary improvement and clear communication. Provide practical, actionable suggestions.';
 
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -25,190 +37,79 @@ serve(async (req) => {
   }
 
   try {
-    const { transcript, overallScore, clarityScore, fillerWords, primaryTone, prompt, type }: SuggestionRequest = await req.json();
-
-    let requestPrompt = '';
-    let systemMessage = '';
+    const body = await readLlmRequestBody(req);
 
-    if (type === 'improvement' && prompt) {
+    if ((body as { type?: string } | null)?.type === 'improvement') {
       // Handle speech improvement requests
-      systemMessage = 'You are an expert speech coach and writer. Your task is to improve speech transcripts based on specific requirements while maintaining the original message and meaning. Provide only the improved script without explanations or additional commentary.';
-      requestPrompt = prompt;
-      
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `${systemMessage}\n\n${requestPrompt}`
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2000,
-          }
-        }),
-      });
+      const { prompt, stream } = validateLlmRequest<ImproveSpeechRequest>(body, improveSpeechRequestSchema);
 
-      if (!response.ok) {
-        throw new Error(`Gemini API error: ${response.status}`);
+      if (stream) {
+        const tokens = await streamText(prompt, {
+          system: `${IMPROVE_SYSTEM_PROMPT} Reply with only the improved script as plain text, without a heading, explanations or additional commentary.`,
+          temperature: 0.7,
+          maxOutputTokens: 2000,
+        });
+        return sseResponse(tokens, (text) => {
+          if (!text.trim()) throw new LlmError('invalid_output', 'The AI returned an empty script');
+          return { suggestions: text.trim() };
+        }, corsHeaders);
       }
 
-      const data = await response.json();
-      
-      if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-        throw new Error('Invalid response from Gemini API');
-      }
-      
-      const improvedScript = data.candidates[0].content.parts[0].text;
+      const { improvedScript, changes } = await generateJson<ImprovedScript>(prompt, improvedScriptSchema, {
+        system: `${IMPROVE_SYSTEM_PROMPT} Put only the improved script in improvedScript, without explanations or additional commentary, and list every edit you made in changes with the requested improvement behind it (custom for the free-text request).`,
+        temperature: 0.7,
+        maxOutputTokens: 2000,
+      });
 
-      return new Response(JSON.stringify({ 
+      return new Response(JSON.stringify({
         suggestions: improvedScript,
-        success: true 
+        changes: changes ?? [],
+        success: true
       }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
     // Default behavior for regular speech analysis
-    if (!transcript) {
-      throw new Error('No transcript provided for analysis');
-    }
+    const { transcript, overallScore, clarityScore, fillerWords, primaryTone, stream } =
+      validateLlmRequest<SpeechSuggestionsRequest>(body, speechSuggestionsRequestSchema);
 
-    requestPrompt = `Analyze this speech transcript and provide both vocabulary improvements and content evaluation:
+    const requestPrompt = `Analyze this speech transcript and provide both vocabulary improvements and content evaluation:
 
 Transcript: "${transcript}"
-Current Score: ${overallScore}/100
-Clarity Score: ${clarityScore}/100
+Current Score: ${overallScore ?? 'unknown'}/100
+Clarity Score: ${clarityScore ?? 'unknown'}/100
 Detected Filler Words: ${fillerWords?.join(', ') || 'None'}
-Primary Tone: ${primaryTone}
+Primary Tone: ${primaryTone || 'unknown'}
 
 Please provide a comprehensive analysis in JSON format:
 
-{
-  "wordImprovements": [
-    {
-      "original": "word from transcript",
-      "suggestions": ["synonym1", "synonym2", "synonym3"],
-      "context": "why this improvement helps"
-    }
-  ],
-  "phraseAlternatives": [
-    {
-      "original": "phrase from transcript",
-      "alternatives": ["better phrase 1", "better phrase 2"],
-      "improvement": "explanation of why these are better"
-    }
-  ],
-  "vocabularyEnhancement": [
-    {
-      "category": "category like 'precision' or 'formality'",
-      "suggestions": ["advanced word 1", "advanced word 2"],
-      "usage": "how and when to use these words"
-    }
-  ],
-  "contentEvaluation": {
-    "mainPoint": {
-      "identified": "What is the speaker's main point or thesis?",
-      "clarity": "How clear was the main point? (scale 1-10)",
-      "feedback": "Suggestions for better articulating the main point"
-    },
-    "argumentStructure": {
-      "hasStructure": true/false,
-      "structure": "Description of the argument structure used (e.g., STAR, Problem-Solution, etc.)",
-      "effectiveness": "How effective was the structure? (scale 1-10)",
-      "suggestions": "How to improve the structure"
-    },
-    "evidenceAndExamples": {
-      "hasEvidence": true/false,
-      "evidenceQuality": "Quality of examples/evidence provided (scale 1-10)",
-      "evidenceTypes": ["example", "statistic", "anecdote", "expert opinion"],
-      "suggestions": "What types of evidence would strengthen the argument"
-    },
-    "persuasiveness": {
-      "pointProven": true/false,
-      "persuasionScore": "How convincing was the argument? (scale 1-10)",
-      "strengths": ["strength1", "strength2"],
-      "weaknesses": ["weakness1", "weakness2"],
-      "improvements": "How to make the argument more persuasive"
-    },
-    "starAnalysis": {
-      "situation": "Was the context/situation clearly established?",
-      "task": "Was the objective/task clearly defined?",
-      "action": "Were the actions/steps clearly explained?",
-      "result": "Were the outcomes/results clearly stated?",
-      "overallStarScore": "How well does this follow STAR methodology? (scale 1-10)"
-    }
-  }
-}
-
-Keep suggestions practical and achievable for the speaker's current level.`;
-
-    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: `You are a speech coach specializing in vocabulary improvement and clear communication. Provide practical, actionable suggestions.\n\n${requestPrompt}`
-              }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: 0.7,
-          maxOutputTokens: 2000,
-        }
-      }),
-    });
+${describeLlmSchema(speechSuggestionsSchema)}
 
-    if (!response.ok) {
-      throw new Error(`Gemini API error: ${response.status}`);
-    }
+Scores are whole numbers from 1 to 10. Keep suggestions practical and achievable for the speaker's current level.`;
 
-    const data = await response.json();
-    
-    let aiSuggestions;
-    try {
-      if (!data.candidates || !data.candidates[0] || !data.candidates[0].content) {
-        throw new Error('Invalid response from Gemini API');
-      }
-      
-      const content = data.candidates[0].content.parts[0].text;
-      aiSuggestions = JSON.parse(content);
-    } catch (parseError) {
-      // Fallback if AI doesn't return valid JSON
-      aiSuggestions = {
-        wordImprovements: [],
-        phraseAlternatives: [],
-        vocabularyEnhancement: []
-      };
+    if (stream) {
+      // Tokens are partial JSON; the done event carries the validated suggestions
+      const tokens = await streamText(requestPrompt, {
+        schema: speechSuggestionsSchema,
+        system: SUGGESTIONS_SYSTEM_PROMPT,
+        temperature: 0.7,
+        maxOutputTokens: 2000,
+      });
+      return sseResponse(tokens, (text) => parseStreamedJson<SpeechSuggestions>(text, speechSuggestionsSchema), corsHeaders);
     }
 
+    const aiSuggestions = await generateJson<SpeechSuggestions>(requestPrompt, speechSuggestionsSchema, {
+      system: SUGGESTIONS_SYSTEM_PROMPT,
+      temperature: 0.7,
+      maxOutputTokens: 2000,
+    });
+
     return new Response(JSON.stringify(aiSuggestions), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Error in generate-speech-suggestions function:', error);
-    return new Response(JSON.stringify({ 
-      error: error.message,
-      wordImprovements: [],
-      phraseAlternatives: [],
-      vocabularyEnhancement: []
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return llmErrorResponse(error, corsHeaders);
   }
-});
\ No newline at end of file
+});
@@ -1,13 +1,54 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-
-const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
+import {
+  generateJson,
+  LlmError,
+  llmErrorResponse,
+  readLlmRequestBody,
+  sseResponse,
+  streamText,
+  validateLlmRequest,
+} from '../_shared/llmClient.ts';
+import {
+  improveSpeechRequestSchema,
+  improvedScriptSchema,
+  scriptChangesSchema,
+  type ImproveSpeechRequest,
+  type ImprovedScript,
+  type ScriptChanges,
+} from '../_shared/llmSchemas.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const IMPROVE_SYSTEM_PROMPT = 'You are an expert speech coach and writer. Your task is to improve speech transcripts based on specific requirements while maintaining the original message and meaning.';
+
+// A streamed reply is shown to the user as it arrives, so it is plain text rather than JSON
+const JSON_REPLY = ' Put only the improved script in improvedScript, without explanations or additional commentary, and list every edit you made in changes with the requested improvement behind it (custom for the free-text request).';
+const STREAMED_REPLY = ' Reply with only the improved script as plain text, without a heading, explanations or additional commentary.';
+
+// A streamed script can't carry structured data, so its edits are asked for once it is
+// complete. The client falls back to guessing categories when this fails.
+const listScriptChanges = async (prompt: string, improvedScript: string) => {
+  try {
+    const { changes } = await generateJson<ScriptChanges>(
+      `${prompt}\n\n${improvedScript}\n\nList every edit made to the original transcript to produce the improved script above.`,
+      scriptChangesSchema,
+      {
+        system: `${IMPROVE_SYSTEM_PROMPT} Tag each edit with the requested improvement that caused it, or custom for the free-text request.`,
+        temperature: 0,
+        maxOutputTokens: 2000,
+      }
+    );
+    return changes;
+  } catch (error) {
+    console.warn('Could not list the script changes:', error);
+    return [];
+  }
+};
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -15,81 +56,39 @@ serve(async (req) => {
   }
 
   try {
-    const { prompt } = await req.json();
-
-    if (!prompt) {
-      throw new Error('No prompt provided for speech improvement');
-    }
-
-    let improvedScript = '';
-    let success = false;
+    const { prompt, stream } = validateLlmRequest<ImproveSpeechRequest>(await readLlmRequestBody(req), improveSpeechRequestSchema);
 
-    // Try Google Gemini
-    if (!geminiApiKey) {
-      throw new Error('Gemini API key not configured');
-    }
-
-    try {
-      console.log('Improving speech with Google Gemini...');
+    console.log('Improving speech...');
 
-      const geminiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: `You are an expert speech coach and writer. Your task is to improve speech transcripts based on specific requirements while maintaining the original message and meaning. Provide only the improved script without explanations or additional commentary.\n\n${prompt}`
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2000,
-          }
-        }),
+    if (stream) {
+      const tokens = await streamText(prompt, {
+        system: IMPROVE_SYSTEM_PROMPT + STREAMED_REPLY,
+        temperature: 0.7,
+        maxOutputTokens: 2000,
       });
-
-      if (!geminiResponse.ok) {
-        const errorText = await geminiResponse.text();
-        console.error('Gemini API error:', errorText);
-        throw new Error(`Gemini API error: ${geminiResponse.status} - ${errorText}`);
-      }
-
-      const geminiData = await geminiResponse.json();
-      
-      if (!geminiData.candidates || !geminiData.candidates[0] || !geminiData.candidates[0].content) {
-        throw new Error('Invalid response from Gemini API');
-      }
-
-      improvedScript = geminiData.candidates[0].content.parts[0].text;
-      success = true;
-      console.log('Speech improvement completed successfully with Google Gemini');
-    } catch (geminiError) {
-      console.error('Gemini failed:', geminiError.message);
-      throw new Error(`Gemini API failed: ${geminiError.message}`);
+      return sseResponse(tokens, async (text) => {
+        if (!text.trim()) throw new LlmError('invalid_output', 'The AI returned an empty script');
+        return { suggestions: text.trim(), changes: await listScriptChanges(prompt, text.trim()) };
+      }, corsHeaders);
     }
 
+    const { improvedScript, changes } = await generateJson<ImprovedScript>(prompt, improvedScriptSchema, {
+      system: IMPROVE_SYSTEM_PROMPT + JSON_REPLY,
+      temperature: 0.7,
+      maxOutputTokens: 2000,
+    });
+
     console.log('Speech improvement completed successfully');
 
-    return new Response(JSON.stringify({ 
+    return new Response(JSON.stringify({
       suggestions: improvedScript,
-      success: true 
+      changes: changes ?? [],
+      success: true
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
   } catch (error) {
     console.error('Error in improve-speech function:', error);
-    return new Response(JSON.stringify({ 
-      error: error.message,
-      success: false 
-    }), {
-      status: 500,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-    });
+    return llmErrorResponse(error, corsHeaders);
   }
-});
\ No newline at end of file
+});
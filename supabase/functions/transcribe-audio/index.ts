@@ -6,6 +6,18 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// File extensions OpenAI recognises, by the mime type the client sent
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/wav': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'mp4',
+  'audio/m4a': 'm4a',
+  'audio/ogg': 'ogg',
+  'audio/flac': 'flac',
+};
+
 // Process base64 in chunks to prevent memory issues
 function processBase64Chunks(base64String: string, chunkSize = 32768) {
   const chunks: Uint8Array[] = [];
@@ -52,7 +64,7 @@ serve(async (req) => {
     }
     console.log('✅ OpenAI API key found');
 
-    const { audio } = await req.json();
+    const { audio, mime_type } = await req.json();
     
     if (!audio) {
       console.error('❌ No audio data provided in request');
@@ -69,9 +81,15 @@ serve(async (req) => {
       
       // Prepare form data
       const formData = new FormData();
-      const blob = new Blob([binaryAudio], { type: 'audio/webm' });
-      formData.append('file', blob, 'audio.webm');
+      // OpenAI detects the format from the file name; older clients only ever sent webm
+      const mimeType = typeof mime_type === 'string' ? mime_type : 'audio/webm';
+      const blob = new Blob([binaryAudio], { type: mimeType });
+      formData.append('file', blob, `audio.${FILE_EXTENSIONS[mimeType] || 'webm'}`);
       formData.append('model', 'whisper-1');
+      // verbose_json gives us the language, duration and per-word timings
+      formData.append('response_format', 'verbose_json');
+      formData.append('timestamp_granularities[]', 'word');
+      formData.append('timestamp_granularities[]', 'segment');
       
       console.log('🚀 Sending request to OpenAI...');
 
@@ -95,9 +113,26 @@ serve(async (req) => {
       const result = await response.json();
       console.log('✅ Transcription completed successfully');
 
+      // Whisper reports seconds; everything else in the app uses milliseconds
+      const words = (result.words || []).map((w: { word: string; start: number; end: number }) => ({
+        text: w.word.trim(),
+        start: Math.round(w.start * 1000),
+        end: Math.round(w.end * 1000),
+      }));
+
+      // Whisper has no confidence score; the mean segment probability is the closest thing
+      const segments: Array<{ avg_logprob: number }> = result.segments || [];
+      const confidence = segments.length
+        ? segments.reduce((sum, segment) => sum + Math.exp(segment.avg_logprob), 0) / segments.length
+        : null;
+
       return new Response(
         JSON.stringify({ 
           text: result.text,
+          words,
+          language: result.language || null,
+          duration: result.duration ?? null,
+          confidence,
           success: true 
         }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
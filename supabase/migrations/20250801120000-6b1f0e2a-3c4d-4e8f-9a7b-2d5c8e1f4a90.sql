@@ -0,0 +1,3 @@
+-- Record which version of the scoring engine produced each recording's scores
+ALTER TABLE public.speech_recordings
+ADD COLUMN scoring_version TEXT;
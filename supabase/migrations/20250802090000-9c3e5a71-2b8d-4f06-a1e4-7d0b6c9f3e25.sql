@@ -0,0 +1,3 @@
+-- Which transcription provider the user prefers (NULL = pick automatically)
+ALTER TABLE public.user_preferences
+ADD COLUMN transcription_provider TEXT;
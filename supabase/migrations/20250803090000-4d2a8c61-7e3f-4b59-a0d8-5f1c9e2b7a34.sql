@@ -0,0 +1,48 @@
+-- Improved scripts generated from a recording, one row per saved version
+CREATE TABLE public.speech_scripts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Kept when the recording is deleted so a target script can still be rehearsed
+  recording_id UUID REFERENCES public.speech_recordings(id) ON DELETE SET NULL,
+  content TEXT NOT NULL,
+  improvement_options TEXT[] NOT NULL DEFAULT '{}',
+  custom_request TEXT,
+  is_target BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX speech_scripts_user_id_created_at_idx ON public.speech_scripts (user_id, created_at DESC);
+CREATE INDEX speech_scripts_recording_id_idx ON public.speech_scripts (recording_id);
+
+-- Each user has at most one target script to rehearse against
+CREATE UNIQUE INDEX speech_scripts_one_target_per_user_idx ON public.speech_scripts (user_id) WHERE is_target;
+
+-- Enable RLS for speech scripts
+ALTER TABLE public.speech_scripts ENABLE ROW LEVEL SECURITY;
+
+-- Same policies as speech_recordings
+CREATE POLICY "Users can view their own scripts" 
+  ON public.speech_scripts 
+  FOR SELECT 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scripts" 
+  ON public.speech_scripts 
+  FOR INSERT 
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scripts" 
+  ON public.speech_scripts 
+  FOR UPDATE 
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own scripts" 
+  ON public.speech_scripts 
+  FOR DELETE 
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_speech_scripts_updated_at
+BEFORE UPDATE ON public.speech_scripts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,28 @@
+-- Move a user's target script in one transaction, so a failure part way never leaves them
+-- without one. NULL just clears the current target.
+CREATE OR REPLACE FUNCTION public.set_target_script(_script_id UUID DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  -- Unstar first: the partial unique index is checked row by row, so a single UPDATE that
+  -- moves the star could collide with itself
+  UPDATE public.speech_scripts
+  SET is_target = false
+  WHERE user_id = auth.uid()
+    AND is_target
+    AND id IS DISTINCT FROM _script_id;
+
+  IF _script_id IS NOT NULL THEN
+    UPDATE public.speech_scripts
+    SET is_target = true
+    WHERE id = _script_id
+      AND user_id = auth.uid();
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Script % not found', _script_id;
+    END IF;
+  END IF;
+END;
+$$;